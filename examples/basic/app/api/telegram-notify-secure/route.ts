@@ -8,7 +8,7 @@
  */
 import { createTelegramRoute } from 'nextjs-telegram-notify/route';
 
-export const POST = createTelegramRoute({
+export const { POST, OPTIONS } = createTelegramRoute({
   // Rate limiting: 10 requests per minute per IP
   rateLimit: {
     maxRequests: 10,
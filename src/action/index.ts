@@ -0,0 +1,12 @@
+// Server action hook; needs React 19 (`useActionState`), so it isn't part of the main entry
+export { useTelegramAction } from '../hooks/useTelegramAction';
+
+export { NotifyError } from '../types';
+
+// Type exports
+export type {
+  TelegramActionState,
+  TelegramNotifyAction,
+  UseTelegramActionReturn,
+  NotifyErrorCode,
+} from '../types';
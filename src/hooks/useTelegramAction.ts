@@ -0,0 +1,101 @@
+import { useActionState, useState, useMemo, useEffect, useRef, useCallback } from 'react';
+import { NotifyError } from '../types';
+import type {
+  TelegramActionState,
+  TelegramNotifyAction,
+  TelegramNotifyConfig,
+  UseTelegramActionReturn,
+} from '../types';
+
+/**
+ * React hook for submitting a form to a server action created with
+ * `createTelegramAction` (React 19 / Next.js 15)
+ *
+ * Exposes the same `loading`, `error`, `success` and `reset` state as
+ * `useTelegramNotify`, plus the `formAction` to pass to `<form action>`.
+ *
+ * @example
+ * ```tsx
+ * 'use client';
+ *
+ * import { useTelegramAction } from 'nextjs-telegram-notify/action';
+ * import { sendNotification } from './actions';
+ *
+ * export default function ContactForm() {
+ *   const { formAction, loading, error, success } = useTelegramAction(sendNotification);
+ *
+ *   return (
+ *     <form action={formAction}>
+ *       <textarea name="message" required />
+ *       <input type="file" name="files" />
+ *       <button disabled={loading}>Send</button>
+ *       {error?.fieldErrors?.message && <p>{error.fieldErrors.message}</p>}
+ *       {success && <p>Thanks!</p>}
+ *     </form>
+ *   );
+ * }
+ * ```
+ */
+export function useTelegramAction(
+  action: TelegramNotifyAction,
+  config: Pick<TelegramNotifyConfig, 'onSuccess' | 'onError'> = {}
+): UseTelegramActionReturn {
+  const [actionState, formAction, loading] = useActionState<TelegramActionState | null, FormData>(
+    async (state, formData) => {
+      try {
+        // A fresh object per submission, so `reset` only dismisses the result it saw
+        return { ...(await action(state, formData)) };
+      } catch (err) {
+        // A thrown action means the server couldn't be reached; report it instead of hitting an error boundary
+        return {
+          success: false,
+          error: err instanceof Error ? err.message : 'Unknown error',
+          code: 'NETWORK_ERROR',
+          status: 0,
+        };
+      }
+    },
+    null
+  );
+
+  // useActionState can't be reset, so remember which result was dismissed
+  const [dismissed, setDismissed] = useState<TelegramActionState | null>(null);
+  const state = actionState === dismissed ? null : actionState;
+
+  const error = useMemo(
+    () => state && !state.success
+      ? new NotifyError(state.error || 'Failed to send notification', state.code || 'INTERNAL_ERROR', state.status, {
+        retryAfter: state.retryAfter,
+        fieldErrors: state.fieldErrors,
+      })
+      : null,
+    [state]
+  );
+
+  // Read the callbacks from a ref so inline functions don't fire them again on every render
+  const configRef = useRef(config);
+  configRef.current = config;
+
+  useEffect(() => {
+    if (!state) return;
+
+    if (error) {
+      configRef.current.onError?.(error);
+    } else {
+      configRef.current.onSuccess?.();
+    }
+  }, [state, error]);
+
+  const reset = useCallback(() => {
+    setDismissed(actionState);
+  }, [actionState]);
+
+  return {
+    formAction,
+    state,
+    loading,
+    error,
+    success: state?.success === true,
+    reset,
+  };
+}
@@ -1,4 +1,5 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
+import { NotifyError } from '../types';
 import type {
   NotifyOptions,
   UseTelegramNotifyReturn,
@@ -6,7 +7,26 @@ import type {
   TelegramNotifyRequest,
   TelegramNotifyResponse,
 } from '../types';
-import { fileToBase64 } from '../lib/formatter';
+
+/**
+ * Turn a failed response from the route into a NotifyError
+ */
+function toNotifyError(response: Response, result: TelegramNotifyResponse | null): NotifyError {
+  const retryAfterHeader = Number(response.headers.get('retry-after'));
+  const retryAfter = result?.retryAfter ?? (retryAfterHeader > 0 ? retryAfterHeader : undefined);
+
+  // Responses without a code come from something in front of the route (a proxy or the platform)
+  const code = result?.code || (
+    response.status === 413 ? 'PAYLOAD_TOO_LARGE'
+      : response.status === 429 ? 'RATE_LIMITED'
+        : 'INTERNAL_ERROR'
+  );
+
+  return new NotifyError(result?.error || 'Failed to send notification', code, response.status, {
+    retryAfter,
+    fieldErrors: result?.fieldErrors,
+  });
+}
 
 /**
  * React hook for sending Telegram notifications from client components
@@ -22,7 +42,7 @@ import { fileToBase64 } from '../lib/formatter';
  * 
  *   const handleSubmit = async (e) => {
  *     e.preventDefault();
- *     await send({
+ *     const { messageId } = await send({
  *       message: 'Hello from Next.js!',
  *       parseMode: 'HTML'
  *     });
@@ -31,6 +51,7 @@ import { fileToBase64 } from '../lib/formatter';
  *   return (
  *     <form onSubmit={handleSubmit}>
  *       <button disabled={loading}>Send</button>
+ *       {error?.code === 'RATE_LIMITED' && <p>Try again in {error.retryAfter}s</p>}
  *       {error && <p>{error.message}</p>}
  *     </form>
  *   );
@@ -41,11 +62,32 @@ export function useTelegramNotify(
   config: TelegramNotifyConfig = {}
 ): UseTelegramNotifyReturn {
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<Error | null>(null);
+  const [error, setError] = useState<NotifyError | null>(null);
   const [success, setSuccess] = useState(false);
 
+  const [formToken, setFormToken] = useState<string | undefined>();
+  // Bumped after each submission, since the route only accepts a form token once
+  const [tokenRequest, setTokenRequest] = useState(0);
+
   const endpoint = config.endpoint || '/api/telegram-notify';
 
+  // Fetch a signed timestamp when the form mounts, so the route can tell how long it took to fill in
+  useEffect(() => {
+    if (!config.formToken) return;
+
+    let cancelled = false;
+    fetch(endpoint, { method: 'GET' })
+      .then((response) => response.json())
+      .then((result: TelegramNotifyResponse) => {
+        if (!cancelled) setFormToken(result.formToken);
+      })
+      .catch(() => undefined);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [endpoint, config.formToken, tokenRequest]);
+
   const send = useCallback(
     async (options: NotifyOptions) => {
       setLoading(true);
@@ -53,41 +95,61 @@ export function useTelegramNotify(
       setSuccess(false);
 
       try {
-        const { message, parseMode, chatId, disableNotification, threadId, files } = options;
-
-        // Prepare request body
-        const body: TelegramNotifyRequest = {
-          message,
-          parseMode,
-          chatId,
-          disableNotification,
-          threadId,
-        };
-
-        // Convert files to base64 if provided
+        const { message, parseMode, chatId, destination, disableNotification, threadId, replyMarkup, captchaToken, honeypot, files } = options;
+
+        let requestInit: RequestInit;
+
         if (files && files.length > 0) {
-          const filePromises = (files as File[]).map(async (file) => ({
-            name: file.name,
-            type: file.type,
-            data: await fileToBase64(file),
-          }));
+          // Upload files as multipart/form-data; the browser sets the boundary header
+          const formData = new FormData();
+          formData.append('message', message);
+          if (parseMode) formData.append('parseMode', parseMode);
+          if (chatId) formData.append('chatId', chatId);
+          if (destination) formData.append('destination', destination);
+          if (disableNotification !== undefined) {
+            formData.append('disableNotification', String(disableNotification));
+          }
+          if (threadId !== undefined) formData.append('threadId', String(threadId));
+          if (replyMarkup) formData.append('replyMarkup', JSON.stringify(replyMarkup));
+          if (captchaToken) formData.append('captchaToken', captchaToken);
+          if (honeypot) formData.append('honeypot', honeypot);
+          if (formToken) formData.append('formToken', formToken);
+
+          for (const file of files as File[]) {
+            formData.append('files', file, file.name);
+          }
 
-          body.files = await Promise.all(filePromises);
+          requestInit = { method: 'POST', body: formData };
+        } else {
+          const body: TelegramNotifyRequest = {
+            message,
+            parseMode,
+            chatId,
+            destination,
+            disableNotification,
+            threadId,
+            replyMarkup,
+            captchaToken,
+            honeypot,
+            formToken,
+          };
+
+          requestInit = {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify(body),
+          };
         }
 
         // Send request to API route
-        const response = await fetch(endpoint, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify(body),
-        });
-
-        const result: TelegramNotifyResponse = await response.json();
-
-        if (!response.ok || !result.success) {
-          throw new Error(result.error || 'Failed to send notification');
+        const response = await fetch(endpoint, requestInit);
+
+        const result: TelegramNotifyResponse | null = await response.json().catch(() => null);
+
+        if (!response.ok || !result?.success) {
+          throw toNotifyError(response, result);
         }
 
         setSuccess(true);
@@ -96,8 +158,13 @@ export function useTelegramNotify(
         if (config.onSuccess) {
           config.onSuccess();
         }
+
+        return result;
       } catch (err) {
-        const error = err instanceof Error ? err : new Error('Unknown error');
+        // Anything but a NotifyError means the request never got a response
+        const error = err instanceof NotifyError
+          ? err
+          : new NotifyError(err instanceof Error ? err.message : 'Unknown error', 'NETWORK_ERROR', 0);
         setError(error);
 
         // Call error callback
@@ -108,9 +175,10 @@ export function useTelegramNotify(
         throw error;
       } finally {
         setLoading(false);
+        if (config.formToken) setTokenRequest((count) => count + 1);
       }
     },
-    [endpoint, config]
+    [endpoint, config, formToken]
   );
 
   const reset = useCallback(() => {
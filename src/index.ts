@@ -12,12 +12,21 @@ export {
   createNotification,
 } from './lib/formatter';
 
+export { splitMessage } from './lib/split';
+
+export { InlineKeyboard } from './lib/keyboard';
+
 // Security exports
 export {
   RateLimiter,
+  MemoryRateLimitStore,
   createDefaultRateLimiter,
   createGlobalRateLimiter,
   createStrictRateLimiter,
+  keyByIp,
+  keyByHeader,
+  keyByCookie,
+  combineKeys,
 } from './lib/ratelimit';
 
 export {
@@ -29,6 +38,14 @@ export {
   createStrictCorsConfig,
 } from './lib/security';
 
+export { createIpMatcher, IpDenyList } from './lib/ip';
+
+export { signRequest } from './lib/auth';
+
+export { validateNotifyRequest, ValidationError } from './lib/validation';
+
+export { NotifyError } from './types';
+
 // Type exports
 export type {
   ParseMode,
@@ -38,7 +55,43 @@ export type {
   TelegramNotifyRequest,
   TelegramNotifyResponse,
   FileAttachment,
+  MediaType,
+  LongMessageMode,
+  RetryConfig,
+  InlineKeyboardButton,
+  InlineKeyboardMarkup,
+  LoginUrl,
+  TelegramUser,
+  TelegramMessage,
+  TelegramMessageEntity,
+  TelegramCallbackQuery,
+  TelegramUpdate,
+  TelegramWebhookInfo,
   RateLimitConfig,
+  RateLimitStore,
+  RateLimitRecord,
+  RateLimitIncrementResult,
+  RateLimitCounterResult,
+  RateLimitStrategy,
+  RateLimitKeyGenerator,
+  TokenBucketResult,
   CorsConfig,
+  CorsOriginPattern,
+  CorsOriginPredicate,
   SecurityConfig,
+  UploadLimits,
+  NotifyDestination,
+  TrustProxy,
+  TrustProxyPreset,
+  IpList,
+  IpBlockedEvent,
+  AuthConfig,
+  HmacAuthConfig,
+  CaptchaVerifier,
+  CaptchaResult,
+  SpamProtectionConfig,
+  SpamCheckResult,
+  SpamReason,
+  NotifySchema,
+  NotifyErrorCode,
 } from './types';
@@ -0,0 +1,145 @@
+import type { NextRequest } from 'next/server';
+import type { AuthConfig, HmacAuthConfig } from '../types';
+import { safeCompare } from './security';
+
+/** Default signature header */
+export const SIGNATURE_HEADER = 'x-signature';
+
+/** Default timestamp header */
+export const TIMESTAMP_HEADER = 'x-timestamp';
+
+/** Default clock tolerance and replay window (5 minutes) */
+const DEFAULT_TOLERANCE_MS = 5 * 60 * 1000;
+
+const encoder = new TextEncoder();
+
+/**
+ * Compute the hex HMAC-SHA256 signature of `<timestamp>.<body>`
+ */
+export async function computeSignature(secret: string, timestamp: string, body: Uint8Array): Promise<string> {
+  const prefix = encoder.encode(`${timestamp}.`);
+  const payload = new Uint8Array(prefix.length + body.length);
+  payload.set(prefix);
+  payload.set(body, prefix.length);
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, payload);
+
+  return Array.from(new Uint8Array(signature), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Create the headers for a request to a route configured with `auth.hmac`.
+ *
+ * Sign the exact body you send; the signature covers its bytes.
+ *
+ * @example
+ * ```ts
+ * const body = JSON.stringify({ message: 'Deploy finished' });
+ * const headers = await signRequest(body, process.env.NOTIFY_SECRET!);
+ *
+ * await fetch('https://example.com/api/telegram-notify', {
+ *   method: 'POST',
+ *   headers: { 'Content-Type': 'application/json', ...headers },
+ *   body,
+ * });
+ * ```
+ */
+export async function signRequest(
+  body: string | Uint8Array,
+  secret: string,
+  options: {
+    /** Unix timestamp in seconds (default: now) */
+    timestamp?: number;
+    signatureHeader?: string;
+    timestampHeader?: string;
+  } = {}
+): Promise<Record<string, string>> {
+  const timestamp = String(options.timestamp ?? Math.floor(Date.now() / 1000));
+  const bytes = typeof body === 'string' ? encoder.encode(body) : body;
+  const signature = await computeSignature(secret, timestamp, bytes);
+
+  return {
+    [options.timestampHeader || TIMESTAMP_HEADER]: timestamp,
+    [options.signatureHeader || SIGNATURE_HEADER]: `sha256=${signature}`,
+  };
+}
+
+/**
+ * Checks requests against an `AuthConfig`
+ */
+export interface RequestAuthenticator {
+  /** Whether `authenticate` needs the raw body (HMAC signatures) */
+  requiresBody: boolean;
+  /** Resolve to true when any configured mode accepts the request */
+  authenticate(request: NextRequest, body?: Uint8Array): Promise<boolean>;
+}
+
+/**
+ * Create an authenticator for the notify route.
+ *
+ * HMAC signatures are remembered for the replay window, so each signed
+ * request is accepted once per process.
+ */
+export function createRequestAuthenticator(config: AuthConfig): RequestAuthenticator {
+  const seenSignatures = new Map<string, number>();
+
+  const checkApiKey = (request: NextRequest): boolean => {
+    const header = request.headers.get('authorization');
+    const match = header ? /^Bearer\s+(.+)$/i.exec(header) : null;
+    if (!match || !config.apiKeys) return false;
+
+    // Compare against every key so timing doesn't reveal which one matched
+    let valid = false;
+    for (const key of config.apiKeys) {
+      valid = safeCompare(match[1].trim(), key) || valid;
+    }
+    return valid;
+  };
+
+  const checkSignature = async (request: NextRequest, hmac: HmacAuthConfig, body: Uint8Array): Promise<boolean> => {
+    const timestamp = request.headers.get(hmac.timestampHeader || TIMESTAMP_HEADER);
+    const header = request.headers.get(hmac.signatureHeader || SIGNATURE_HEADER);
+    if (!timestamp || !header || !/^\d+$/.test(timestamp)) return false;
+
+    const toleranceMs = hmac.toleranceMs ?? DEFAULT_TOLERANCE_MS;
+    const now = Date.now();
+    if (Math.abs(now - Number(timestamp) * 1000) > toleranceMs) return false;
+
+    const signature = header.replace(/^sha256=/i, '').toLowerCase();
+
+    for (const [seen, expiresAt] of seenSignatures) {
+      if (expiresAt <= now) seenSignatures.delete(seen);
+    }
+    if (seenSignatures.has(signature)) return false;
+
+    const secrets = Array.isArray(hmac.secret) ? hmac.secret : [hmac.secret];
+    let valid = false;
+    for (const secret of secrets) {
+      valid = safeCompare(signature, await computeSignature(secret, timestamp, body)) || valid;
+    }
+
+    if (valid) {
+      // Remember the signature until its timestamp falls outside the window
+      seenSignatures.set(signature, Number(timestamp) * 1000 + toleranceMs);
+    }
+    return valid;
+  };
+
+  return {
+    requiresBody: config.hmac !== undefined,
+
+    async authenticate(request, body = new Uint8Array(0)) {
+      if (config.apiKeys && checkApiKey(request)) return true;
+      if (config.hmac && (await checkSignature(request, config.hmac, body))) return true;
+      if (config.authorize && (await config.authorize(request))) return true;
+      return false;
+    },
+  };
+}
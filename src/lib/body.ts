@@ -0,0 +1,133 @@
+/**
+ * Default maximum request body size (70MB, enough for 50MB of base64-encoded attachments)
+ */
+export const DEFAULT_MAX_BODY_SIZE = 70 * 1024 * 1024;
+
+/**
+ * Error raised while reading a request body
+ */
+export class RequestBodyError extends Error {
+  /** HTTP status to respond with (400 for malformed bodies, 413 for exceeded limits) */
+  status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = 'RequestBodyError';
+    this.status = status;
+    Object.setPrototypeOf(this, RequestBodyError.prototype);
+  }
+}
+
+/**
+ * Reject a request whose declared Content-Length exceeds `maxBytes`
+ */
+export function checkContentLength(headers: Headers, maxBytes: number): void {
+  const contentLength = Number(headers.get('content-length'));
+
+  if (contentLength > maxBytes) {
+    throw new RequestBodyError(`Request body exceeds the maximum size of ${maxBytes} bytes`, 413);
+  }
+}
+
+/**
+ * Wrap a body stream so it errors once more than `maxBytes` have been read.
+ *
+ * The source stream is cancelled at that point, so an oversized body (or one
+ * with a missing or understated Content-Length) is never buffered completely.
+ */
+export function limitBodySize(
+  stream: ReadableStream<Uint8Array>,
+  maxBytes: number
+): ReadableStream<Uint8Array> {
+  const reader = stream.getReader();
+  let received = 0;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (done) {
+        controller.close();
+        return;
+      }
+
+      received += value.byteLength;
+
+      if (received > maxBytes) {
+        await reader.cancel().catch(() => undefined);
+        controller.error(
+          new RequestBodyError(`Request body exceeds the maximum size of ${maxBytes} bytes`, 413)
+        );
+        return;
+      }
+
+      controller.enqueue(value);
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+}
+
+/**
+ * Read a body of at most `maxBytes` into memory
+ */
+export async function readBodyBytes(
+  stream: ReadableStream<Uint8Array> | null,
+  maxBytes: number = DEFAULT_MAX_BODY_SIZE
+): Promise<Uint8Array> {
+  if (!stream) {
+    return new Uint8Array(0);
+  }
+
+  const reader = limitBodySize(stream, maxBytes).getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    length += value.byteLength;
+  }
+
+  const bytes = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+
+  return bytes;
+}
+
+/**
+ * Decode a base64 string with Web APIs (no Buffer, so it runs on the Edge runtime)
+ */
+export function decodeBase64(data: string): Uint8Array {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Read and parse a JSON body of at most `maxBytes`
+ */
+export async function readJsonBody<T>(
+  stream: ReadableStream<Uint8Array> | null,
+  maxBytes: number = DEFAULT_MAX_BODY_SIZE
+): Promise<T> {
+  if (!stream) {
+    throw new RequestBodyError('Request body is empty');
+  }
+
+  const text = new TextDecoder().decode(await readBodyBytes(stream, maxBytes));
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new RequestBodyError('Invalid JSON body');
+  }
+}
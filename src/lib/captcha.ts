@@ -0,0 +1,143 @@
+import type { CaptchaResult, CaptchaVerifier } from '../types';
+
+/** Cloudflare Turnstile verification endpoint */
+export const TURNSTILE_VERIFY_URL = 'https://challenges.cloudflare.com/turnstile/v0/siteverify';
+
+/** hCaptcha verification endpoint */
+export const HCAPTCHA_VERIFY_URL = 'https://api.hcaptcha.com/siteverify';
+
+/** reCAPTCHA verification endpoint */
+export const RECAPTCHA_VERIFY_URL = 'https://www.google.com/recaptcha/api/siteverify';
+
+/**
+ * Options shared by the built-in verifiers
+ */
+interface VerifierOptions {
+  /** Secret key from the provider's dashboard */
+  secretKey: string;
+  /** Verification endpoint (override to point tests at a local stub) */
+  endpoint?: string;
+}
+
+interface SiteVerifyResponse {
+  success: boolean;
+  score?: number;
+  action?: string;
+  'error-codes'?: string[];
+}
+
+/**
+ * Post a token to a siteverify endpoint; Turnstile, hCaptcha and reCAPTCHA share this API
+ */
+async function siteVerify(endpoint: string, params: Record<string, string | undefined>): Promise<SiteVerifyResponse> {
+  const body = new URLSearchParams();
+  for (const [name, value] of Object.entries(params)) {
+    if (value !== undefined) body.append(name, value);
+  }
+
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body,
+  });
+
+  if (!response.ok) {
+    throw new Error(`CAPTCHA verification failed with HTTP ${response.status}`);
+  }
+
+  return response.json();
+}
+
+/**
+ * Pass the client IP along unless it couldn't be determined
+ */
+function remoteIp(ip: string): string | undefined {
+  return ip === 'unknown' ? undefined : ip;
+}
+
+/**
+ * Verify Cloudflare Turnstile tokens
+ *
+ * @example
+ * ```ts
+ * export const { POST, OPTIONS } = createTelegramRoute({
+ *   captcha: createTurnstileVerifier({ secretKey: process.env.TURNSTILE_SECRET_KEY! }),
+ * });
+ * ```
+ */
+export function createTurnstileVerifier(options: VerifierOptions): CaptchaVerifier {
+  return {
+    async verify(token, { ip }): Promise<CaptchaResult> {
+      const result = await siteVerify(options.endpoint || TURNSTILE_VERIFY_URL, {
+        secret: options.secretKey,
+        response: token,
+        remoteip: remoteIp(ip),
+      });
+
+      return { success: result.success === true, errorCodes: result['error-codes'] };
+    },
+  };
+}
+
+/**
+ * Verify hCaptcha tokens
+ */
+export function createHCaptchaVerifier(
+  options: VerifierOptions & {
+    /** Site key the token must have been issued for */
+    siteKey?: string;
+  }
+): CaptchaVerifier {
+  return {
+    async verify(token, { ip }): Promise<CaptchaResult> {
+      const result = await siteVerify(options.endpoint || HCAPTCHA_VERIFY_URL, {
+        secret: options.secretKey,
+        response: token,
+        remoteip: remoteIp(ip),
+        sitekey: options.siteKey,
+      });
+
+      return { success: result.success === true, errorCodes: result['error-codes'] };
+    },
+  };
+}
+
+/**
+ * Verify reCAPTCHA v3 tokens, rejecting scores below `minScore`
+ */
+export function createRecaptchaV3Verifier(
+  options: VerifierOptions & {
+    /** Lowest score to accept, from 0.0 to 1.0 (default: 0.5) */
+    minScore?: number;
+    /** Action the token must have been generated for (`grecaptcha.execute(siteKey, { action })`) */
+    action?: string;
+  }
+): CaptchaVerifier {
+  const minScore = options.minScore ?? 0.5;
+
+  return {
+    async verify(token, { ip }): Promise<CaptchaResult> {
+      const result = await siteVerify(options.endpoint || RECAPTCHA_VERIFY_URL, {
+        secret: options.secretKey,
+        response: token,
+        remoteip: remoteIp(ip),
+      });
+
+      const score = result.score ?? 0;
+      const errorCodes = [...(result['error-codes'] || [])];
+
+      if (result.success && score < minScore) {
+        errorCodes.push('score-too-low');
+      }
+      if (result.success && options.action && result.action !== options.action) {
+        errorCodes.push('action-mismatch');
+      }
+
+      return {
+        success: result.success === true && errorCodes.length === 0,
+        score: result.score,
+        errorCodes,
+      };
+    },
+  };
+}
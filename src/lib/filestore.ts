@@ -0,0 +1,203 @@
+import type {
+  RateLimitRecord,
+  RateLimitIncrementResult,
+  RateLimitCounterResult,
+  RateLimitStore,
+  TokenBucketResult,
+} from '../types';
+import type { HitLog, RateLimitCounter, TokenBucket } from './ratelimit';
+import { recordHit, readHits, incrementCount, takeTokens } from './ratelimit';
+import { assertNodeRuntime } from './runtime';
+
+interface StoreData {
+  logs: Record<string, HitLog>;
+  counters: Record<string, RateLimitCounter>;
+  buckets: Record<string, TokenBucket>;
+}
+
+/**
+ * Rate limit store backed by a JSON file
+ *
+ * Shares limits between processes on a single host (for example several
+ * `next start` workers behind a load balancer). Updates are serialized with a
+ * lock file, and the data file is replaced atomically so readers never see a
+ * partial write. Not suitable for serverless platforms, where instances don't
+ * share a filesystem, and not available on the Edge runtime.
+ *
+ * @example
+ * ```ts
+ * import { FileRateLimitStore } from 'nextjs-telegram-notify/server';
+ *
+ * export const { POST, OPTIONS } = createTelegramRoute({
+ *   rateLimit: {
+ *     maxRequests: 20,
+ *     windowMs: 60000,
+ *     store: new FileRateLimitStore({ path: '/var/run/my-app/ratelimit.json' }),
+ *   },
+ * });
+ * ```
+ */
+export class FileRateLimitStore implements RateLimitStore {
+  private path: string | undefined;
+  private lockTimeoutMs: number;
+  private staleLockMs: number;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(options: {
+    /** Data file (defaults to a file in the OS temp directory) */
+    path?: string;
+    /** How long to wait for the lock before failing (default: 5000ms) */
+    lockTimeoutMs?: number;
+    /** Age after which a lock left by a crashed process is removed (default: 10000ms) */
+    staleLockMs?: number;
+  } = {}) {
+    assertNodeRuntime('FileRateLimitStore');
+
+    this.path = options.path;
+    this.lockTimeoutMs = options.lockTimeoutMs ?? 5000;
+    this.staleLockMs = options.staleLockMs ?? 10000;
+  }
+
+  async increment(
+    key: string,
+    options: { windowMs: number; limit: number; now: number }
+  ): Promise<RateLimitIncrementResult> {
+    return this.update((data) => {
+      const { log, result } = recordHit(data.logs[key], options);
+      data.logs[key] = log;
+      return result;
+    });
+  }
+
+  async get(key: string, options: { windowMs: number; now: number }): Promise<RateLimitRecord> {
+    const data = await this.read(await this.getPath());
+    return readHits(data.logs[key], options);
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.update((data) => {
+      delete data.logs[key];
+      delete data.counters[key];
+      delete data.buckets[key];
+    });
+  }
+
+  async incrementCounter(
+    key: string,
+    options: { limit: number; ttlMs: number; now: number }
+  ): Promise<RateLimitCounterResult> {
+    // Reads (`limit: 0`) don't need the lock or a write
+    if (options.limit <= 0) {
+      const data = await this.read(await this.getPath());
+      return incrementCount(data.counters[key], options).result;
+    }
+
+    return this.update((data) => {
+      const { counter, result } = incrementCount(data.counters[key], options);
+      data.counters[key] = counter;
+      return result;
+    });
+  }
+
+  async consume(
+    key: string,
+    options: { capacity: number; refillMs: number; tokens: number; now: number }
+  ): Promise<TokenBucketResult> {
+    return this.update((data) => {
+      const { bucket, result } = takeTokens(data.buckets[key], options);
+      data.buckets[key] = bucket;
+      return result;
+    });
+  }
+
+  private async getPath(): Promise<string> {
+    if (!this.path) {
+      const os = await import('os');
+      const path = await import('path');
+      this.path = path.join(os.tmpdir(), 'nextjs-telegram-notify-ratelimit.json');
+    }
+    return this.path;
+  }
+
+  private async read(file: string): Promise<StoreData> {
+    const fs = await import('fs/promises');
+
+    try {
+      const data = JSON.parse(await fs.readFile(file, 'utf8'));
+      return { logs: data?.logs || {}, counters: data?.counters || {}, buckets: data?.buckets || {} };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT' || error instanceof SyntaxError) {
+        return { logs: {}, counters: {}, buckets: {} };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Read, modify and write the data file while holding the lock
+   */
+  private update<T>(modify: (data: StoreData) => T): Promise<T> {
+    // Serialize updates within this process before competing for the file lock
+    const run = this.queue.then(async () => {
+      const fs = await import('fs/promises');
+      const file = await this.getPath();
+      const release = await this.lock(file);
+
+      try {
+        const data = await this.read(file);
+        const result = modify(data);
+
+        // Drop expired keys so the file doesn't grow without bound
+        const now = Date.now();
+        for (const entries of [data.logs, data.counters, data.buckets]) {
+          for (const key of Object.keys(entries)) {
+            if (entries[key].expiresAt <= now) {
+              delete entries[key];
+            }
+          }
+        }
+
+        const tempFile = `${file}.${process.pid}.tmp`;
+        await fs.writeFile(tempFile, JSON.stringify(data));
+        await fs.rename(tempFile, file);
+
+        return result;
+      } finally {
+        await release();
+      }
+    });
+
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async lock(file: string): Promise<() => Promise<void>> {
+    const fs = await import('fs/promises');
+    const lockFile = `${file}.lock`;
+    const deadline = Date.now() + this.lockTimeoutMs;
+
+    for (;;) {
+      try {
+        const handle = await fs.open(lockFile, 'wx');
+        await handle.close();
+        return () => fs.unlink(lockFile).catch(() => undefined);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+      }
+
+      const stat = await fs.stat(lockFile).catch(() => null);
+      if (stat && Date.now() - stat.mtimeMs > this.staleLockMs) {
+        await fs.unlink(lockFile).catch(() => undefined);
+        continue;
+      }
+
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for rate limit store lock: ${lockFile}`);
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, 10 + Math.random() * 20));
+    }
+  }
+}
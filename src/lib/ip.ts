@@ -0,0 +1,245 @@
+import type { IpList } from '../types';
+
+/**
+ * Parse a dotted-quad IPv4 address
+ */
+function parseIpv4(address: string): Uint8Array | null {
+  const parts = address.split('.');
+  if (parts.length !== 4) return null;
+
+  const bytes = new Uint8Array(4);
+  for (let i = 0; i < 4; i++) {
+    if (!/^\d{1,3}$/.test(parts[i])) return null;
+    const value = Number(parts[i]);
+    if (value > 255) return null;
+    bytes[i] = value;
+  }
+
+  return bytes;
+}
+
+/**
+ * Parse an IPv6 address, including `::` shorthand, zone ids and embedded IPv4
+ */
+function parseIpv6(address: string): Uint8Array | null {
+  const zone = address.indexOf('%');
+  if (zone !== -1) {
+    address = address.slice(0, zone);
+  }
+
+  const halves = address.split('::');
+  if (halves.length > 2) return null;
+
+  const toWords = (groups: string[], allowIpv4: boolean): number[] | null => {
+    const words: number[] = [];
+
+    for (let i = 0; i < groups.length; i++) {
+      const group = groups[i];
+
+      if (allowIpv4 && i === groups.length - 1 && group.includes('.')) {
+        const ipv4 = parseIpv4(group);
+        if (!ipv4) return null;
+        words.push((ipv4[0] << 8) | ipv4[1], (ipv4[2] << 8) | ipv4[3]);
+      } else if (/^[0-9a-f]{1,4}$/i.test(group)) {
+        words.push(parseInt(group, 16));
+      } else {
+        return null;
+      }
+    }
+
+    return words;
+  };
+
+  const head = toWords(halves[0] ? halves[0].split(':') : [], halves.length === 1);
+  const tail = halves.length === 2 ? toWords(halves[1] ? halves[1].split(':') : [], true) : [];
+  if (!head || !tail) return null;
+
+  let words: number[];
+  if (halves.length === 1) {
+    if (head.length !== 8) return null;
+    words = head;
+  } else {
+    // `::` stands for at least one group of zeros
+    const missing = 8 - head.length - tail.length;
+    if (missing < 1) return null;
+    words = [...head, ...new Array<number>(missing).fill(0), ...tail];
+  }
+
+  const bytes = new Uint8Array(16);
+  words.forEach((word, i) => {
+    bytes[i * 2] = word >> 8;
+    bytes[i * 2 + 1] = word & 0xff;
+  });
+
+  return bytes;
+}
+
+/**
+ * Parse an IPv4 or IPv6 address into its bytes.
+ *
+ * IPv4-mapped IPv6 addresses (`::ffff:1.2.3.4`) are returned as IPv4, so both
+ * forms match the same ranges. Returns null for anything that isn't an address.
+ */
+export function parseIp(address: string): Uint8Array | null {
+  const bytes = address.includes(':') ? parseIpv6(address) : parseIpv4(address);
+  if (!bytes || bytes.length === 4) return bytes;
+
+  const isMapped = bytes.slice(0, 10).every((byte) => byte === 0) && bytes[10] === 0xff && bytes[11] === 0xff;
+  return isMapped ? bytes.slice(12) : bytes;
+}
+
+/**
+ * Check whether a string is a valid IPv4 or IPv6 address
+ */
+export function isIp(address: string): boolean {
+  return parseIp(address) !== null;
+}
+
+interface IpRange {
+  bytes: Uint8Array;
+  prefix: number;
+}
+
+function parseRange(range: string): IpRange | null {
+  const [address, prefixText, ...rest] = range.trim().split('/');
+  if (rest.length > 0) return null;
+
+  const bytes = parseIp(address);
+  if (!bytes) return null;
+
+  if (prefixText === undefined) {
+    return { bytes, prefix: bytes.length * 8 };
+  }
+
+  if (!/^\d{1,3}$/.test(prefixText)) return null;
+  let prefix = Number(prefixText);
+
+  // An IPv4-mapped range like ::ffff:10.0.0.0/104 covers 10.0.0.0/8
+  if (bytes.length === 4 && address.includes(':')) {
+    prefix -= 96;
+  }
+
+  if (prefix < 0 || prefix > bytes.length * 8) return null;
+
+  return { bytes, prefix };
+}
+
+function isInRange(bytes: Uint8Array, range: IpRange): boolean {
+  if (bytes.length !== range.bytes.length) return false;
+
+  const fullBytes = Math.floor(range.prefix / 8);
+  for (let i = 0; i < fullBytes; i++) {
+    if (bytes[i] !== range.bytes[i]) return false;
+  }
+
+  const remainingBits = range.prefix % 8;
+  if (remainingBits === 0) return true;
+
+  const mask = (0xff << (8 - remainingBits)) & 0xff;
+  return (bytes[fullBytes] & mask) === (range.bytes[fullBytes] & mask);
+}
+
+/**
+ * Compile a list of addresses and CIDR ranges (IPv4 or IPv6) into a matcher.
+ *
+ * Throws for invalid entries, so configuration mistakes surface at startup
+ * rather than silently matching nothing.
+ *
+ * @example
+ * ```ts
+ * const isPrivate = createIpMatcher(['10.0.0.0/8', '192.168.0.0/16', 'fc00::/7']);
+ * isPrivate('10.1.2.3'); // true
+ * ```
+ */
+export function createIpMatcher(ranges: string[]): (address: string) => boolean {
+  const parsed = ranges.map((range) => {
+    const result = parseRange(range);
+    if (!result) {
+      throw new Error(`Invalid IP address or CIDR range: ${range}`);
+    }
+    return result;
+  });
+
+  return (address) => {
+    const bytes = parseIp(address);
+    return bytes !== null && parsed.some((range) => isInRange(bytes, range));
+  };
+}
+
+/**
+ * In-memory deny list that can be updated while the app is running.
+ *
+ * Pass it as `ipDenyList` and call `add` to block an abusive address (or
+ * range) without a redeploy. Entries can expire on their own with `ttlMs`.
+ * The list lives in process memory; implement `IpList` on top of a shared
+ * store to block addresses across instances.
+ *
+ * @example
+ * ```ts
+ * export const denyList = new IpDenyList(['203.0.113.0/24']);
+ * export const { POST, OPTIONS } = createTelegramRoute({ ipDenyList: denyList });
+ *
+ * denyList.add('198.51.100.7', { ttlMs: 60 * 60 * 1000 });
+ * ```
+ */
+export class IpDenyList implements IpList {
+  private entries = new Map<string, { matches: (address: string) => boolean; expiresAt?: number }>();
+
+  constructor(ranges: string[] = []) {
+    for (const range of ranges) {
+      this.add(range);
+    }
+  }
+
+  /**
+   * Block an address or CIDR range, optionally for `ttlMs` milliseconds
+   */
+  add(range: string, options: { ttlMs?: number } = {}): void {
+    const key = range.trim();
+    this.entries.set(key, {
+      matches: createIpMatcher([key]),
+      expiresAt: options.ttlMs !== undefined ? Date.now() + options.ttlMs : undefined,
+    });
+  }
+
+  /**
+   * Unblock an address or range; returns false if it wasn't on the list
+   */
+  remove(range: string): boolean {
+    return this.entries.delete(range.trim());
+  }
+
+  /**
+   * Check whether an address is blocked
+   */
+  has(address: string): boolean {
+    const now = Date.now();
+
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt !== undefined && entry.expiresAt <= now) {
+        this.entries.delete(key);
+      } else if (entry.matches(address)) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Addresses and ranges currently on the list
+   */
+  list(): string[] {
+    const now = Date.now();
+    return [...this.entries]
+      .filter(([, entry]) => entry.expiresAt === undefined || entry.expiresAt > now)
+      .map(([key]) => key);
+  }
+
+  /**
+   * Remove every entry
+   */
+  clear(): void {
+    this.entries.clear();
+  }
+}
@@ -0,0 +1,93 @@
+import type {
+  InlineKeyboardButton,
+  InlineKeyboardMarkup,
+  LoginUrl,
+} from '../types';
+
+/**
+ * Telegram limits callback data to 64 bytes
+ */
+const MAX_CALLBACK_DATA_BYTES = 64;
+
+/**
+ * Builder for inline keyboards attached to notifications
+ *
+ * @example
+ * ```ts
+ * const replyMarkup = new InlineKeyboard()
+ *   .url('Open in admin', `https://admin.example.com/orders/${order.id}`)
+ *   .url('Reply by email', `mailto:${email}`)
+ *   .row()
+ *   .callback('Mark as handled', `handled:${order.id}`)
+ *   .build();
+ *
+ * await sendTelegramNotification({ message, replyMarkup });
+ * ```
+ */
+export class InlineKeyboard {
+  private rows: InlineKeyboardButton[][] = [[]];
+
+  /**
+   * Add a button that opens a URL (http(s), tg:// or mailto: links)
+   */
+  url(text: string, url: string): this {
+    return this.add({ text, url });
+  }
+
+  /**
+   * Add a button that sends a callback query to the bot (up to 64 bytes of data)
+   */
+  callback(text: string, data: string): this {
+    const size = new TextEncoder().encode(data).length;
+    if (size < 1 || size > MAX_CALLBACK_DATA_BYTES) {
+      throw new Error(
+        `Callback data must be between 1 and ${MAX_CALLBACK_DATA_BYTES} bytes`
+      );
+    }
+
+    return this.add({ text, callback_data: data });
+  }
+
+  /**
+   * Add a button that logs the user in via Telegram Login before opening a URL
+   */
+  login(text: string, url: string, options: Omit<LoginUrl, 'url'> = {}): this {
+    return this.add({ text, login_url: { url, ...options } });
+  }
+
+  /**
+   * Add a button that opens a Telegram Web App (only supported in private chats)
+   */
+  webApp(text: string, url: string): this {
+    return this.add({ text, web_app: { url } });
+  }
+
+  /**
+   * Add a pre-built button
+   */
+  add(button: InlineKeyboardButton): this {
+    this.rows[this.rows.length - 1].push(button);
+    return this;
+  }
+
+  /**
+   * Start a new row of buttons
+   */
+  row(): this {
+    if (this.rows[this.rows.length - 1].length > 0) {
+      this.rows.push([]);
+    }
+    return this;
+  }
+
+  /**
+   * Build the reply markup to pass as `replyMarkup`
+   */
+  build(): InlineKeyboardMarkup {
+    return {
+      inline_keyboard: this.rows
+        .filter((row) => row.length > 0)
+        .map((row) => [...row]),
+    };
+  }
+}
@@ -0,0 +1,97 @@
+import { TelegramError } from '../types';
+import type { FileAttachment, MediaType } from '../types';
+
+/**
+ * Telegram allows at most 10 items per media group (album)
+ */
+export const MAX_MEDIA_GROUP_SIZE = 10;
+
+/**
+ * Image MIME types Telegram accepts as photos (others are sent as documents)
+ */
+const PHOTO_MIME_TYPES = ['image/jpeg', 'image/jpg', 'image/png', 'image/webp'];
+
+/**
+ * Telegram rejects photos larger than 10 MB; bigger images are sent as documents
+ */
+export const MAX_PHOTO_SIZE = 10 * 1024 * 1024;
+
+/**
+ * Errors Telegram answers when it can't process an image as a photo
+ * (too large, width plus height over 10000, aspect ratio over 20:1, ...)
+ */
+const PHOTO_ERROR_PATTERN = /PHOTO_INVALID_DIMENSIONS|PHOTO_SAVE_FILE_INVALID|PHOTO_EXT_INVALID|IMAGE_PROCESS_FAILED|photo is too big/i;
+
+/**
+ * Size of a file in bytes, when it's known without reading it from disk
+ */
+function getKnownSize(file: FileAttachment): number | undefined {
+  if (typeof file.data === 'string') {
+    return undefined;
+  }
+
+  return file.data instanceof Uint8Array ? file.data.byteLength : file.data.size;
+}
+
+/**
+ * Detect how a file should be sent to Telegram based on its MIME type and size
+ */
+export function getMediaType(file: FileAttachment): MediaType {
+  const mimeType = file.mimeType?.toLowerCase() || '';
+
+  if (PHOTO_MIME_TYPES.includes(mimeType)) {
+    const size = getKnownSize(file);
+    return size !== undefined && size > MAX_PHOTO_SIZE ? 'document' : 'photo';
+  }
+
+  if (mimeType.startsWith('video/')) {
+    return 'video';
+  }
+
+  if (mimeType.startsWith('audio/')) {
+    return 'audio';
+  }
+
+  return 'document';
+}
+
+/**
+ * Split files into albums that Telegram accepts in a single sendMediaGroup call.
+ *
+ * Photos and videos can share an album, while documents and audio files can only
+ * be grouped with their own kind. Albums keep the original file order and contain
+ * at most `maxGroupSize` items.
+ */
+export function groupMediaFiles(
+  files: FileAttachment[],
+  maxGroupSize: number = MAX_MEDIA_GROUP_SIZE
+): FileAttachment[][] {
+  const buckets = new Map<string, FileAttachment[]>();
+
+  for (const file of files) {
+    const type = getMediaType(file);
+    const bucketKey = type === 'photo' || type === 'video' ? 'visual' : type;
+    const bucket = buckets.get(bucketKey) || [];
+    bucket.push(file);
+    buckets.set(bucketKey, bucket);
+  }
+
+  const groups: FileAttachment[][] = [];
+
+  for (const bucket of buckets.values()) {
+    for (let i = 0; i < bucket.length; i += maxGroupSize) {
+      groups.push(bucket.slice(i, i + maxGroupSize));
+    }
+  }
+
+  return groups;
+}
+
+/**
+ * Whether Telegram rejected a request because it couldn't process an image as a photo
+ */
+export function isPhotoRejected(error: unknown): boolean {
+  return error instanceof TelegramError
+    && error.code === 400
+    && PHOTO_ERROR_PATTERN.test(error.description || error.message);
+}
@@ -0,0 +1,319 @@
+import type { FileAttachment, UploadLimits } from '../types';
+import { RequestBodyError } from './body';
+
+/**
+ * Error raised while parsing a multipart/form-data body
+ */
+export class MultipartError extends RequestBodyError {
+  constructor(message: string, status: number = 400) {
+    super(message, status);
+    this.name = 'MultipartError';
+    Object.setPrototypeOf(this, MultipartError.prototype);
+  }
+}
+
+/**
+ * Parsed multipart/form-data body
+ */
+export interface MultipartBody {
+  /** Text fields (the last value wins when a name repeats) */
+  fields: Record<string, string>;
+  /** Uploaded files, in order */
+  files: FileAttachment[];
+}
+
+/**
+ * Default upload limits (Telegram bots can upload files up to 50MB)
+ */
+export const DEFAULT_UPLOAD_LIMITS: Required<UploadLimits> = {
+  maxFiles: 10,
+  maxFileSize: 50 * 1024 * 1024,
+  maxTotalFileSize: 50 * 1024 * 1024,
+};
+
+/**
+ * Fill in the defaults for any upload limit that isn't set
+ */
+export function resolveUploadLimits(limits: UploadLimits = {}): Required<UploadLimits> {
+  return {
+    maxFiles: limits.maxFiles ?? DEFAULT_UPLOAD_LIMITS.maxFiles,
+    maxFileSize: limits.maxFileSize ?? DEFAULT_UPLOAD_LIMITS.maxFileSize,
+    maxTotalFileSize: limits.maxTotalFileSize ?? DEFAULT_UPLOAD_LIMITS.maxTotalFileSize,
+  };
+}
+
+/** Maximum size of the headers of a single part */
+const MAX_PART_HEADER_SIZE = 16 * 1024;
+
+/** Maximum size of a single text field */
+const MAX_FIELD_SIZE = 1024 * 1024;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+const CRLF = encoder.encode('\r\n');
+const HEADER_END = encoder.encode('\r\n\r\n');
+
+/**
+ * Extract the boundary from a multipart/form-data Content-Type header
+ */
+export function getMultipartBoundary(contentType: string | null): string | null {
+  if (!contentType || !contentType.toLowerCase().startsWith('multipart/form-data')) {
+    return null;
+  }
+
+  const match = /boundary=(?:"([^"]+)"|([^;]+))/i.exec(contentType);
+  return match ? (match[1] || match[2]).trim() : null;
+}
+
+function indexOfBytes(haystack: Uint8Array, needle: Uint8Array, from: number = 0): number {
+  const first = needle[0];
+  const last = haystack.length - needle.length;
+
+  for (let i = haystack.indexOf(first, from); i !== -1 && i <= last; i = haystack.indexOf(first, i + 1)) {
+    let match = true;
+    for (let j = 1; j < needle.length; j++) {
+      if (haystack[i + j] !== needle[j]) {
+        match = false;
+        break;
+      }
+    }
+    if (match) return i;
+  }
+
+  return -1;
+}
+
+function concatBytes(a: Uint8Array, b: Uint8Array): Uint8Array {
+  if (a.length === 0) return b;
+  const result = new Uint8Array(a.length + b.length);
+  result.set(a);
+  result.set(b, a.length);
+  return result;
+}
+
+type ParserState = 'preamble' | 'delimiter' | 'headers' | 'body' | 'done';
+
+interface PartHeaders {
+  name: string;
+  filename?: string;
+  contentType?: string;
+}
+
+function parsePartHeaders(raw: string): PartHeaders {
+  let disposition = '';
+  let contentType: string | undefined;
+
+  for (const line of raw.split('\r\n')) {
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    const name = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (name === 'content-disposition') {
+      disposition = value;
+    } else if (name === 'content-type') {
+      contentType = value;
+    }
+  }
+
+  const name = /(?:^|;)\s*name="([^"]*)"/i.exec(disposition)?.[1];
+  if (name === undefined) {
+    throw new MultipartError('Malformed multipart body: missing part name');
+  }
+
+  const filename = /(?:^|;)\s*filename="([^"]*)"/i.exec(disposition)?.[1];
+
+  return { name, filename, contentType };
+}
+
+/**
+ * Parse a multipart/form-data stream, enforcing upload limits as data arrives.
+ *
+ * The stream is cancelled as soon as a limit is exceeded, so oversized uploads
+ * are never buffered completely. File contents are collected into Blobs that
+ * can be passed to `TelegramClient.sendDocument` as-is.
+ */
+export async function parseMultipart(
+  stream: ReadableStream<Uint8Array>,
+  boundary: string,
+  limits: UploadLimits = {}
+): Promise<MultipartBody> {
+  const { maxFiles, maxFileSize, maxTotalFileSize } = resolveUploadLimits(limits);
+
+  // Every delimiter (including the first one) is treated as preceded by CRLF
+  const delimiter = encoder.encode(`\r\n--${boundary}`);
+
+  const fields: Record<string, string> = {};
+  const files: FileAttachment[] = [];
+  let totalFileSize = 0;
+
+  // Cast so TypeScript doesn't narrow the state mutated inside `process`
+  let state = 'preamble' as ParserState;
+  let buffer: Uint8Array = CRLF;
+  let part: PartHeaders | null = null;
+  let partChunks: Uint8Array[] = [];
+  let partSize = 0;
+
+  const reader = stream.getReader();
+
+  const appendPartData = (data: Uint8Array) => {
+    if (data.length === 0 || !part) return;
+
+    partSize += data.length;
+
+    if (part.filename !== undefined) {
+      totalFileSize += data.length;
+      if (partSize > maxFileSize) {
+        throw new MultipartError(
+          `File "${part.filename}" exceeds the maximum size of ${maxFileSize} bytes`,
+          413
+        );
+      }
+      if (totalFileSize > maxTotalFileSize) {
+        throw new MultipartError(
+          `Attachments exceed the maximum total size of ${maxTotalFileSize} bytes`,
+          413
+        );
+      }
+    } else if (partSize > MAX_FIELD_SIZE) {
+      throw new MultipartError(`Field "${part.name}" is too large`, 413);
+    }
+
+    // Copy, as the stream may reuse its chunk buffers
+    partChunks.push(data.slice());
+  };
+
+  const finishPart = () => {
+    if (!part) return;
+
+    if (part.filename !== undefined) {
+      // Browsers send an empty part when a file input has no selection
+      if (part.filename !== '' || partSize > 0) {
+        files.push({
+          data: new Blob(partChunks as BlobPart[], { type: part.contentType }),
+          filename: part.filename,
+          mimeType: part.contentType,
+        });
+      }
+    } else {
+      let value = '';
+      for (const chunk of partChunks) {
+        value += decoder.decode(chunk, { stream: true });
+      }
+      fields[part.name] = value + decoder.decode();
+    }
+
+    part = null;
+    partChunks = [];
+    partSize = 0;
+  };
+
+  // Consume as much of the buffer as possible; returns false when more data is needed
+  const process = (): boolean => {
+    switch (state) {
+      case 'preamble': {
+        const index = indexOfBytes(buffer, delimiter);
+        if (index === -1) {
+          buffer = buffer.slice(Math.max(0, buffer.length - delimiter.length));
+          return false;
+        }
+        buffer = buffer.slice(index + delimiter.length);
+        state = 'delimiter';
+        return true;
+      }
+
+      case 'delimiter': {
+        if (buffer.length < 2) return false;
+
+        if (buffer[0] === 0x2d && buffer[1] === 0x2d) {
+          // Closing delimiter "--"
+          state = 'done';
+          return false;
+        }
+
+        // Skip transport padding up to the CRLF
+        const lineEnd = indexOfBytes(buffer, CRLF);
+        if (lineEnd === -1) {
+          if (buffer.length > 256) {
+            throw new MultipartError('Malformed multipart body');
+          }
+          return false;
+        }
+
+        buffer = buffer.slice(lineEnd + CRLF.length);
+        state = 'headers';
+        return true;
+      }
+
+      case 'headers': {
+        const index = indexOfBytes(buffer, HEADER_END);
+        if (index === -1) {
+          if (buffer.length > MAX_PART_HEADER_SIZE) {
+            throw new MultipartError('Multipart part headers are too large', 413);
+          }
+          return false;
+        }
+
+        part = parsePartHeaders(decoder.decode(buffer.slice(0, index)));
+        buffer = buffer.slice(index + HEADER_END.length);
+
+        if (part.filename !== undefined && part.filename !== '' && files.length >= maxFiles) {
+          throw new MultipartError(`Too many files (maximum is ${maxFiles})`, 413);
+        }
+
+        state = 'body';
+        return true;
+      }
+
+      case 'body': {
+        const index = indexOfBytes(buffer, delimiter);
+        if (index === -1) {
+          // Keep enough bytes to detect a delimiter split across chunks
+          const keep = delimiter.length - 1;
+          if (buffer.length > keep) {
+            appendPartData(buffer.slice(0, buffer.length - keep));
+            buffer = buffer.slice(buffer.length - keep);
+          }
+          return false;
+        }
+
+        appendPartData(buffer.slice(0, index));
+        finishPart();
+        buffer = buffer.slice(index + delimiter.length);
+        state = 'delimiter';
+        return true;
+      }
+
+      default:
+        return false;
+    }
+  };
+
+  try {
+    for (;;) {
+      while (process()) {
+        // keep consuming the buffer
+      }
+
+      if (state === 'done') break;
+
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer = concatBytes(buffer, value);
+    }
+  } catch (error) {
+    await reader.cancel().catch(() => undefined);
+    throw error;
+  }
+
+  if (state !== 'done') {
+    await reader.cancel().catch(() => undefined);
+    throw new MultipartError('Malformed multipart body: unexpected end of data');
+  }
+
+  reader.releaseLock();
+
+  return { fields, files };
+}
@@ -1,29 +1,224 @@
 /**
- * Rate limiter implementation using sliding window algorithm
+ * Rate limiter implementation (sliding log by default, see RateLimitStrategy)
  * Respects Telegram's rate limits: 30 messages per second per bot
  */
 
-interface RateLimitEntry {
+import type {
+  RateLimitConfig,
+  RateLimitKeyGenerator,
+  RateLimitRecord,
+  RateLimitIncrementResult,
+  RateLimitCounterResult,
+  RateLimitStore,
+  TokenBucketResult,
+  TrustProxy,
+} from '../types';
+import { getClientIp } from './security';
+
+/**
+ * Hit timestamps stored for one key
+ */
+export interface HitLog {
+  hits: number[];
+  expiresAt: number;
+}
+
+/**
+ * Drop hits outside the window and record a new one if the limit allows it.
+ * Shared by the bundled stores so they behave identically.
+ */
+export function recordHit(
+  log: HitLog | undefined,
+  options: { windowMs: number; limit: number; now: number }
+): { log: HitLog; result: RateLimitIncrementResult } {
+  const { windowMs, limit, now } = options;
+  const hits = (log?.hits || []).filter((timestamp) => timestamp > now - windowMs);
+
+  const recorded = hits.length < limit;
+  if (recorded) {
+    hits.push(now);
+  }
+
+  return {
+    log: { hits, expiresAt: hits[hits.length - 1] + windowMs },
+    result: {
+      count: hits.length,
+      resetAt: hits[0] + windowMs,
+      recorded,
+    },
+  };
+}
+
+/**
+ * Summarize the hits of a log that are still inside the window
+ */
+export function readHits(
+  log: HitLog | undefined,
+  options: { windowMs: number; now: number }
+): RateLimitRecord {
+  const { windowMs, now } = options;
+  const hits = (log?.hits || []).filter((timestamp) => timestamp > now - windowMs);
+
+  return {
+    count: hits.length,
+    resetAt: hits.length > 0 ? hits[0] + windowMs : now + windowMs,
+  };
+}
+
+/**
+ * Counter stored for one key
+ */
+export interface RateLimitCounter {
   count: number;
-  resetAt: number;
-  requests: number[];
+  expiresAt: number;
 }
 
-interface RateLimitConfig {
-  /** Maximum requests per window */
-  maxRequests: number;
-  /** Time window in milliseconds */
-  windowMs: number;
-  /** Enable per-IP rate limiting */
-  perIP?: boolean;
-  /** Message shown when rate limited */
-  message?: string;
+/**
+ * Increment a counter unless it already reached the limit, starting a new one
+ * once it has expired. Shared by the bundled stores so they behave identically.
+ */
+export function incrementCount(
+  counter: RateLimitCounter | undefined,
+  options: { limit: number; ttlMs: number; now: number }
+): { counter: RateLimitCounter; result: RateLimitCounterResult } {
+  const { limit, ttlMs, now } = options;
+  const current = counter && counter.expiresAt > now ? counter : { count: 0, expiresAt: now + ttlMs };
+
+  const recorded = current.count < limit;
+  const count = recorded ? current.count + 1 : current.count;
+
+  return {
+    counter: { count, expiresAt: current.expiresAt },
+    result: { count, recorded },
+  };
+}
+
+/**
+ * Token bucket state stored for one key
+ */
+export interface TokenBucket {
+  tokens: number;
+  updatedAt: number;
+  expiresAt: number;
+}
+
+/**
+ * Refill a token bucket and take tokens from it if enough are available.
+ * Shared by the bundled stores so they behave identically.
+ */
+export function takeTokens(
+  bucket: TokenBucket | undefined,
+  options: { capacity: number; refillMs: number; tokens: number; now: number }
+): { bucket: TokenBucket; result: TokenBucketResult } {
+  const { capacity, refillMs, now } = options;
+
+  // A missing bucket is full; guard against clocks that differ between instances
+  let tokens = bucket
+    ? Math.min(capacity, bucket.tokens + Math.max(0, now - bucket.updatedAt) / refillMs)
+    : capacity;
+
+  const consumed = tokens >= options.tokens;
+  if (consumed) {
+    tokens -= options.tokens;
+  }
+
+  return {
+    bucket: { tokens, updatedAt: now, expiresAt: now + (capacity - tokens) * refillMs },
+    result: { tokens, consumed },
+  };
+}
+
+/** How often expired entries are removed from the memory store */
+const CLEANUP_INTERVAL_MS = 60000;
+
+/**
+ * In-process rate limit store (the default)
+ *
+ * State is not shared between serverless instances or processes; use a
+ * shared store for multi-instance deployments. Expired entries are removed
+ * while the store is used rather than on a timer, so it works on the Edge
+ * runtime and never keeps a process alive.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private logs: Map<string, HitLog> = new Map();
+  private counters: Map<string, RateLimitCounter> = new Map();
+  private buckets: Map<string, TokenBucket> = new Map();
+  private lastCleanup = Date.now();
+
+  async increment(
+    key: string,
+    options: { windowMs: number; limit: number; now: number }
+  ): Promise<RateLimitIncrementResult> {
+    this.cleanup(options.now);
+    const { log, result } = recordHit(this.logs.get(key), options);
+    this.logs.set(key, log);
+    return result;
+  }
+
+  async get(key: string, options: { windowMs: number; now: number }): Promise<RateLimitRecord> {
+    return readHits(this.logs.get(key), options);
+  }
+
+  async reset(key: string): Promise<void> {
+    this.logs.delete(key);
+    this.counters.delete(key);
+    this.buckets.delete(key);
+  }
+
+  async incrementCounter(
+    key: string,
+    options: { limit: number; ttlMs: number; now: number }
+  ): Promise<RateLimitCounterResult> {
+    this.cleanup(options.now);
+    const { counter, result } = incrementCount(this.counters.get(key), options);
+    // Reading a missing counter doesn't create it
+    if (counter.count > 0) {
+      this.counters.set(key, counter);
+    }
+    return result;
+  }
+
+  async consume(
+    key: string,
+    options: { capacity: number; refillMs: number; tokens: number; now: number }
+  ): Promise<TokenBucketResult> {
+    this.cleanup(options.now);
+    const { bucket, result } = takeTokens(this.buckets.get(key), options);
+    this.buckets.set(key, bucket);
+    return result;
+  }
+
+  /**
+   * Clean up expired entries, at most once per interval
+   */
+  private cleanup(now: number): void {
+    if (now - this.lastCleanup < CLEANUP_INTERVAL_MS) return;
+    this.lastCleanup = now;
+
+    for (const entries of [this.logs, this.counters, this.buckets]) {
+      for (const [key, entry] of entries.entries()) {
+        if (entry.expiresAt <= now) {
+          entries.delete(key);
+        }
+      }
+    }
+  }
+
+  /**
+   * Drop all entries
+   */
+  destroy(): void {
+    this.logs.clear();
+    this.counters.clear();
+    this.buckets.clear();
+  }
 }
 
 export class RateLimiter {
-  private store: Map<string, RateLimitEntry> = new Map();
-  private config: Required<RateLimitConfig>;
-  private cleanupInterval: NodeJS.Timeout;
+  private store: RateLimitStore;
+  private ownedStore: MemoryRateLimitStore | null = null;
+  private prefix: string | undefined;
+  private config: Required<Omit<RateLimitConfig, 'store' | 'keyGenerator' | 'name' | 'prefix'>>;
 
   constructor(config: RateLimitConfig) {
     this.config = {
@@ -31,117 +226,263 @@ export class RateLimiter {
       windowMs: config.windowMs,
       perIP: config.perIP ?? true,
       message: config.message ?? 'Too many requests, please try again later.',
+      strategy: config.strategy ?? 'sliding-log',
+      burst: config.burst ?? config.maxRequests,
     };
+    this.prefix = config.prefix;
 
-    // Clean up old entries every minute
-    this.cleanupInterval = setInterval(() => {
-      this.cleanup();
-    }, 60000);
+    if (config.store) {
+      this.store = config.store;
+    } else {
+      this.ownedStore = new MemoryRateLimitStore();
+      this.store = this.ownedStore;
+    }
+
+    if (this.config.strategy === 'token-bucket' && !this.store.consume) {
+      throw new Error('The rate limit store does not support the token-bucket strategy');
+    }
+
+    if (this.usesCounters && !this.store.incrementCounter) {
+      throw new Error(`The rate limit store does not support the ${this.config.strategy} strategy`);
+    }
   }
 
   /**
-   * Check if a request should be allowed
+   * Maximum number of requests a client can make at once
+   * (`burst` for the token bucket strategy, `maxRequests` otherwise)
    */
-  check(identifier: string): { allowed: boolean; retryAfter?: number } {
-    const now = Date.now();
-    const key = this.config.perIP ? identifier : 'global';
-    
-    let entry = this.store.get(key);
-
-    if (!entry) {
-      entry = {
-        count: 0,
-        resetAt: now + this.config.windowMs,
-        requests: [],
-      };
-      this.store.set(key, entry);
-    }
+  get limit(): number {
+    return this.config.strategy === 'token-bucket' ? this.config.burst : this.config.maxRequests;
+  }
 
-    // Remove requests outside the sliding window
-    entry.requests = entry.requests.filter(
-      (timestamp) => timestamp > now - this.config.windowMs
-    );
-
-    // Check if limit exceeded
-    if (entry.requests.length >= this.config.maxRequests) {
-      const oldestRequest = entry.requests[0];
-      const retryAfter = Math.ceil((oldestRequest + this.config.windowMs - now) / 1000);
-      
-      return {
-        allowed: false,
-        retryAfter: retryAfter > 0 ? retryAfter : 1,
-      };
-    }
+  /**
+   * Whether the strategy keeps one counter per window instead of a hit log
+   */
+  private get usesCounters(): boolean {
+    return this.config.strategy === 'fixed-window' || this.config.strategy === 'sliding-window';
+  }
+
+  private getKey(identifier: string): string {
+    const key = this.config.perIP ? identifier : 'global';
+    return this.prefix ? `${this.prefix}:${key}` : key;
+  }
 
-    // Allow the request
-    entry.requests.push(now);
-    entry.count++;
-    this.store.set(key, entry);
+  /**
+   * Get the fixed window that contains `now`
+   */
+  private getWindow(now: number): { index: number; start: number; end: number } {
+    const index = Math.floor(now / this.config.windowMs);
+    const start = index * this.config.windowMs;
+    return { index, start, end: start + this.config.windowMs };
+  }
 
-    return { allowed: true };
+  /**
+   * Time between token bucket refills
+   */
+  private get refillMs(): number {
+    return this.config.windowMs / this.config.maxRequests;
   }
 
   /**
-   * Reset rate limit for a specific identifier
+   * Check if a request should be allowed, recording it if so
    */
-  reset(identifier: string): void {
-    const key = this.config.perIP ? identifier : 'global';
-    this.store.delete(key);
+  async check(identifier: string): Promise<{ allowed: boolean; retryAfter?: number }> {
+    return this.evaluate(identifier, true);
   }
 
   /**
-   * Get current usage for an identifier
+   * Check if a request would be allowed without recording it, e.g. to make
+   * sure every limiter allows a request before charging any of them
    */
-  getUsage(identifier: string): { count: number; limit: number; resetAt: number } {
+  async peek(identifier: string): Promise<{ allowed: boolean; retryAfter?: number }> {
+    return this.evaluate(identifier, false);
+  }
+
+  private async evaluate(identifier: string, record: boolean): Promise<{ allowed: boolean; retryAfter?: number }> {
     const now = Date.now();
-    const key = this.config.perIP ? identifier : 'global';
-    const entry = this.store.get(key);
-
-    if (!entry) {
-      return {
-        count: 0,
-        limit: this.config.maxRequests,
-        resetAt: now + this.config.windowMs,
-      };
+    const key = this.getKey(identifier);
+
+    let retryAfterMs: number | null;
+    switch (this.config.strategy) {
+      case 'token-bucket':
+        retryAfterMs = await this.checkTokenBucket(key, now, record);
+        break;
+      case 'fixed-window':
+        retryAfterMs = await this.checkFixedWindow(key, now, record);
+        break;
+      case 'sliding-window':
+        retryAfterMs = await this.checkSlidingWindow(key, now, record);
+        break;
+      default:
+        retryAfterMs = await this.checkSlidingLog(key, now, record);
+    }
+
+    if (retryAfterMs === null) {
+      return { allowed: true };
     }
 
-    // Filter recent requests
-    const recentRequests = entry.requests.filter(
-      (timestamp) => timestamp > now - this.config.windowMs
-    );
+    const retryAfter = Math.ceil(retryAfterMs / 1000);
 
     return {
-      count: recentRequests.length,
-      limit: this.config.maxRequests,
-      resetAt: entry.resetAt,
+      allowed: false,
+      retryAfter: retryAfter > 0 ? retryAfter : 1,
     };
   }
 
   /**
-   * Clean up expired entries
+   * Each strategy returns null when the request is allowed, or the time in
+   * milliseconds until the next request would be allowed. With `record` unset
+   * nothing is written to the store.
    */
-  private cleanup(): void {
+  private async checkSlidingLog(key: string, now: number, record: boolean): Promise<number | null> {
+    const { windowMs, maxRequests } = this.config;
+
+    if (!record) {
+      const usage = await this.store.get(key, { windowMs, now });
+      return usage.count < maxRequests ? null : usage.resetAt - now;
+    }
+
+    const result = await this.store.increment(key, { windowMs, limit: maxRequests, now });
+
+    return result.recorded ? null : result.resetAt - now;
+  }
+
+  private async checkFixedWindow(key: string, now: number, record: boolean): Promise<number | null> {
+    const window = this.getWindow(now);
+    const { maxRequests } = this.config;
+
+    const result = await this.store.incrementCounter!(`${key}:${window.index}`, {
+      limit: record ? maxRequests : 0,
+      ttlMs: window.end - now,
+      now,
+    });
+    const allowed = record ? result.recorded : result.count < maxRequests;
+
+    return allowed ? null : window.end - now;
+  }
+
+  private async checkSlidingWindow(key: string, now: number, record: boolean): Promise<number | null> {
+    const { windowMs, maxRequests } = this.config;
+    const window = this.getWindow(now);
+    const remaining = window.end - now;
+
+    const previous = await this.readCounter(`${key}:${window.index - 1}`, now);
+    const weightedPrevious = previous * (remaining / windowMs);
+    const limit = Math.max(0, Math.ceil(maxRequests - weightedPrevious));
+
+    // Counters are kept until the next window ends, so the current one can serve as its previous window
+    const result = await this.store.incrementCounter!(`${key}:${window.index}`, {
+      limit: record ? limit : 0,
+      ttlMs: remaining + windowMs,
+      now,
+    });
+
+    if (record ? result.recorded : result.count < limit) {
+      return null;
+    }
+
+    // Wait for the previous window's weight to drop far enough...
+    if (result.count < maxRequests) {
+      return remaining - (windowMs * (maxRequests - result.count)) / previous;
+    }
+
+    // ...or for the current window to become the previous one and lose enough weight
+    return remaining + windowMs * (1 - maxRequests / result.count);
+  }
+
+  /**
+   * Read a window counter without incrementing it
+   */
+  private async readCounter(key: string, now: number): Promise<number> {
+    const { count } = await this.store.incrementCounter!(key, { limit: 0, ttlMs: this.config.windowMs, now });
+    return count;
+  }
+
+  private async checkTokenBucket(key: string, now: number, record: boolean): Promise<number | null> {
+    const result = await this.store.consume!(key, {
+      capacity: this.config.burst,
+      refillMs: this.refillMs,
+      tokens: record ? 1 : 0,
+      now,
+    });
+    const allowed = record ? result.consumed : result.tokens >= 1;
+
+    return allowed ? null : (1 - result.tokens) * this.refillMs;
+  }
+
+  /**
+   * Reset rate limit for a specific identifier
+   */
+  async reset(identifier: string): Promise<void> {
+    const key = this.getKey(identifier);
+
+    if (this.usesCounters) {
+      const { index } = this.getWindow(Date.now());
+      await this.store.reset(`${key}:${index}`);
+      await this.store.reset(`${key}:${index - 1}`);
+    } else {
+      await this.store.reset(key);
+    }
+  }
+
+  /**
+   * Get current usage for an identifier
+   *
+   * `resetAt` is when the oldest request leaves the window (sliding log), when
+   * the current window ends (fixed and sliding window) or when the next token
+   * is added (token bucket).
+   */
+  async getUsage(identifier: string): Promise<{ count: number; limit: number; resetAt: number }> {
+    const { windowMs, maxRequests, burst, strategy } = this.config;
     const now = Date.now();
-    
-    for (const [key, entry] of this.store.entries()) {
-      // Remove requests outside the window
-      entry.requests = entry.requests.filter(
-        (timestamp) => timestamp > now - this.config.windowMs
-      );
-
-      // Delete entry if no recent requests
-      if (entry.requests.length === 0) {
-        this.store.delete(key);
+    const key = this.getKey(identifier);
+
+    switch (strategy) {
+      case 'token-bucket': {
+        const { tokens } = await this.store.consume!(key, {
+          capacity: burst,
+          refillMs: this.refillMs,
+          tokens: 0,
+          now,
+        });
+
+        return {
+          count: burst - Math.floor(tokens),
+          limit: burst,
+          resetAt: tokens >= burst ? now : now + (Math.floor(tokens) + 1 - tokens) * this.refillMs,
+        };
+      }
+
+      case 'fixed-window': {
+        const window = this.getWindow(now);
+        const count = await this.readCounter(`${key}:${window.index}`, now);
+        return { count, limit: maxRequests, resetAt: window.end };
+      }
+
+      case 'sliding-window': {
+        const window = this.getWindow(now);
+        const previous = await this.readCounter(`${key}:${window.index - 1}`, now);
+        const current = await this.readCounter(`${key}:${window.index}`, now);
+
+        return {
+          count: current + Math.floor(previous * ((window.end - now) / windowMs)),
+          limit: maxRequests,
+          resetAt: window.end,
+        };
+      }
+
+      default: {
+        const record = await this.store.get(key, { windowMs, now });
+        return { count: record.count, limit: maxRequests, resetAt: record.resetAt };
       }
     }
   }
 
   /**
-   * Destroy the rate limiter and cleanup
+   * Destroy the rate limiter and cleanup (a store passed in config is left untouched)
    */
   destroy(): void {
-    clearInterval(this.cleanupInterval);
-    this.store.clear();
+    this.ownedStore?.destroy();
   }
 }
 
@@ -149,11 +490,12 @@ export class RateLimiter {
  * Default rate limiter respecting Telegram's limits
  * Telegram allows 30 messages per second, we'll be more conservative
  */
-export const createDefaultRateLimiter = () => {
+export const createDefaultRateLimiter = (store?: RateLimitStore) => {
   return new RateLimiter({
     maxRequests: 20, // 20 messages per minute per IP (conservative)
     windowMs: 60 * 1000, // 1 minute
     perIP: true,
+    store,
   });
 };
 
@@ -161,22 +503,64 @@ export const createDefaultRateLimiter = () => {
  * Global rate limiter for Telegram API (30 messages/second limit)
  * This ensures we don't exceed Telegram's API limits
  */
-export const createGlobalRateLimiter = () => {
+export const createGlobalRateLimiter = (store?: RateLimitStore) => {
   return new RateLimiter({
     maxRequests: 30,
     windowMs: 1000, // 1 second
     perIP: false, // Global limit
     message: 'Server is busy, please try again in a moment.',
+    store,
   });
 };
 
 /**
  * Strict rate limiter for public forms (to prevent spam)
  */
-export const createStrictRateLimiter = () => {
+export const createStrictRateLimiter = (store?: RateLimitStore) => {
   return new RateLimiter({
     maxRequests: 5,
     windowMs: 60 * 1000, // 5 messages per minute
     perIP: true,
+    store,
   });
 };
+
+/**
+ * Limit requests by client IP address (the default)
+ */
+export const keyByIp = (trustProxy?: TrustProxy): RateLimitKeyGenerator => {
+  return (request) => getClientIp(request, trustProxy);
+};
+
+/**
+ * Limit requests by a header value, such as a user id set by your auth middleware.
+ * Requests without the header skip this limiter, so combine it with an IP limiter.
+ */
+export const keyByHeader = (name: string): RateLimitKeyGenerator => {
+  return (request) => {
+    const value = request.headers.get(name);
+    return value ? `header:${name.toLowerCase()}:${value}` : null;
+  };
+};
+
+/**
+ * Limit requests by a cookie value, such as a session id.
+ * Requests without the cookie skip this limiter, so combine it with an IP limiter.
+ */
+export const keyByCookie = (name: string): RateLimitKeyGenerator => {
+  return (request) => {
+    const value = request.cookies.get(name)?.value;
+    return value ? `cookie:${name}:${value}` : null;
+  };
+};
+
+/**
+ * Limit requests by several keys at once, e.g. `combineKeys(keyByIp(), keyByHeader('x-user-id'))`.
+ * The limiter is skipped when any of the keys is missing.
+ */
+export const combineKeys = (...generators: RateLimitKeyGenerator[]): RateLimitKeyGenerator => {
+  return async (request) => {
+    const keys = await Promise.all(generators.map((generate) => generate(request)));
+    return keys.every(Boolean) ? keys.join('|') : null;
+  };
+};
@@ -0,0 +1,90 @@
+/** Placeholder that replaces redacted values */
+export const REDACTED = '[REDACTED]';
+
+/** Telegram bot tokens look like `123456789:AAE...` */
+const BOT_TOKEN_PATTERN = /\d{5,}:[A-Za-z0-9_-]{30,}/g;
+
+/** Secrets shorter than this would scrub unrelated text */
+const MIN_SECRET_LENGTH = 4;
+
+/**
+ * Replace secrets in a string with `[REDACTED]`.
+ *
+ * Anything shaped like a bot token is always replaced, so a token the
+ * package wasn't told about still doesn't leak through a request URL.
+ *
+ * @example
+ * ```ts
+ * redactSecrets(`POST https://api.telegram.org/bot${token}/sendMessage failed`, [token]);
+ * // 'POST https://api.telegram.org/bot[REDACTED]/sendMessage failed'
+ * ```
+ */
+export function redactSecrets(text: string, secrets: readonly (string | undefined)[] = []): string {
+  let result = text;
+
+  for (const secret of secrets) {
+    if (!secret || secret.length < MIN_SECRET_LENGTH) continue;
+
+    result = result.split(secret).join(REDACTED);
+
+    // Secrets inside URLs may be percent-encoded (`:` in a bot token becomes %3A)
+    const encoded = encodeURIComponent(secret);
+    if (encoded !== secret) {
+      result = result.split(encoded).join(REDACTED);
+    }
+  }
+
+  return result.replace(BOT_TOKEN_PATTERN, REDACTED);
+}
+
+function scrubProperty(target: object, key: string, secrets: readonly (string | undefined)[]): void {
+  const record = target as Record<string, unknown>;
+  const value = record[key];
+  if (typeof value !== 'string') return;
+
+  const redacted = redactSecrets(value, secrets);
+  if (redacted === value) return;
+
+  try {
+    record[key] = redacted;
+  } catch {
+    // Read-only property (e.g. DOMException#message); nothing more we can do
+  }
+}
+
+/**
+ * Scrub secrets from an error's message, stack, Telegram description and its
+ * whole `cause` chain. The error is updated in place and returned, so its
+ * class and properties are kept.
+ */
+export function redactError<T>(error: T, secrets: readonly (string | undefined)[] = []): T {
+  const seen = new Set<unknown>();
+
+  const visit = (value: unknown): void => {
+    if (typeof value !== 'object' || value === null || seen.has(value)) return;
+    seen.add(value);
+
+    for (const key of ['message', 'stack', 'description', 'cause']) {
+      scrubProperty(value, key, secrets);
+    }
+
+    const { cause, errors } = value as { cause?: unknown; errors?: unknown };
+    visit(cause);
+    if (Array.isArray(errors)) {
+      errors.forEach(visit);
+    }
+  };
+
+  visit(error);
+  return error;
+}
+
+/**
+ * `console.error` an error with secrets scrubbed from it
+ */
+export function logError(message: string, error: unknown, secrets: readonly (string | undefined)[] = []): void {
+  console.error(
+    message,
+    typeof error === 'string' ? redactSecrets(error, secrets) : redactError(error, secrets)
+  );
+}
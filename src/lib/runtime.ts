@@ -0,0 +1,32 @@
+/**
+ * Runtime detection and Node.js-only helpers.
+ *
+ * Node.js modules are only imported lazily from here (and from
+ * `FileRateLimitStore`), so everything else runs on the Edge runtime.
+ */
+
+/**
+ * Whether the code runs on the Edge runtime (`export const runtime = 'edge'` and middleware)
+ */
+export function isEdgeRuntime(): boolean {
+  return typeof (globalThis as { EdgeRuntime?: unknown }).EdgeRuntime === 'string';
+}
+
+/**
+ * Throw a descriptive error when a Node.js-only feature is used on the Edge runtime
+ */
+export function assertNodeRuntime(feature: string): void {
+  if (isEdgeRuntime()) {
+    throw new Error(`${feature} requires the Node.js runtime and can't be used on the Edge runtime`);
+  }
+}
+
+/**
+ * Read a file from disk (Node.js only)
+ */
+export async function readLocalFile(path: string): Promise<Uint8Array> {
+  assertNodeRuntime('Sending a file by path');
+
+  const fs = await import('fs/promises');
+  return new Uint8Array(await fs.readFile(path));
+}
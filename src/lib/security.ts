@@ -1,47 +1,160 @@
 import { NextRequest, NextResponse } from 'next/server';
-import type { CorsConfig } from '../types';
+import type { CorsConfig, CorsOriginPattern, TrustProxy, TrustProxyPreset } from '../types';
+import { createIpMatcher } from './ip';
 
 /**
- * Get client IP address from request
+ * Headers set (and overwritten) by each supported platform, in order of preference
+ */
+const PROXY_PRESET_HEADERS: Record<TrustProxyPreset, string[]> = {
+  vercel: ['x-vercel-forwarded-for', 'x-real-ip'],
+  cloudflare: ['cf-connecting-ip'],
+  nginx: ['x-real-ip'],
+};
+
+const proxyMatchers = new WeakMap<string[], (address: string) => boolean>();
+
+/**
+ * Strip the port (and IPv6 brackets) some proxies include in forwarded addresses
  */
-export function getClientIp(request: NextRequest): string {
-  // Try various headers in order of preference
+function normalizeForwardedAddress(value: string): string {
+  const address = value.trim();
+
+  const bracketed = /^\[([^\]]+)\](?::\d+)?$/.exec(address);
+  if (bracketed) return bracketed[1];
+
+  const withPort = /^([\d.]+):\d+$/.exec(address);
+  return withPort ? withPort[1] : address;
+}
+
+function getForwardedChain(request: NextRequest): string[] {
   const forwarded = request.headers.get('x-forwarded-for');
-  if (forwarded) {
-    return forwarded.split(',')[0].trim();
+  if (!forwarded) return [];
+
+  return forwarded.split(',').map(normalizeForwardedAddress).filter(Boolean);
+}
+
+function getHeaderIp(request: NextRequest, name: string): string | null {
+  const value = request.headers.get(name);
+  return value ? normalizeForwardedAddress(value.split(',')[0]) || null : null;
+}
+
+/**
+ * Get client IP address from request
+ *
+ * Proxies append the address they received a request from to
+ * `x-forwarded-for`, so only the right-hand entries added by your own proxies
+ * can be trusted; anything to their left may have been sent by the client.
+ * `trustProxy` says how many of those entries to skip (see {@link TrustProxy}).
+ * When no forwarding header applies, the platform-provided `request.ip` is used.
+ */
+export function getClientIp(request: NextRequest, trustProxy: TrustProxy = 1): string {
+  // Next.js 15 no longer types `ip`, but some platforms and older versions still set it
+  const platformIp = (request as NextRequest & { ip?: string }).ip || 'unknown';
+
+  if (trustProxy === false || trustProxy === 0) {
+    return platformIp;
+  }
+
+  if (trustProxy === true) {
+    return (
+      getForwardedChain(request)[0] ||
+      getHeaderIp(request, 'x-real-ip') ||
+      getHeaderIp(request, 'cf-connecting-ip') ||
+      platformIp
+    );
+  }
+
+  if (typeof trustProxy === 'string') {
+    const headers = PROXY_PRESET_HEADERS[trustProxy];
+    if (!headers) {
+      throw new Error(`Unknown trustProxy preset: ${trustProxy}`);
+    }
+
+    for (const name of headers) {
+      const ip = getHeaderIp(request, name);
+      if (ip) return ip;
+    }
+
+    // These platforms append the client address to x-forwarded-for as well
+    return getClientIp(request, 1);
   }
 
-  const realIp = request.headers.get('x-real-ip');
-  if (realIp) {
-    return realIp;
+  const chain = getForwardedChain(request);
+  if (chain.length === 0) {
+    return platformIp;
   }
 
-  const cfConnectingIp = request.headers.get('cf-connecting-ip');
-  if (cfConnectingIp) {
-    return cfConnectingIp;
+  if (typeof trustProxy === 'number') {
+    return chain[Math.max(0, chain.length - trustProxy)];
   }
 
-  // Fallback
-  return 'unknown';
+  let isTrusted = proxyMatchers.get(trustProxy);
+  if (!isTrusted) {
+    isTrusted = createIpMatcher(trustProxy);
+    proxyMatchers.set(trustProxy, isTrusted);
+  }
+
+  // Walk back through the chain until reaching an address that isn't one of our proxies
+  for (let i = chain.length - 1; i >= 0; i--) {
+    if (!isTrusted(chain[i])) {
+      return chain[i];
+    }
+  }
+
+  return chain[0];
 }
 
+const wildcardOrigins = new Map<string, RegExp>();
+
 /**
- * Check if origin is allowed based on CORS config
+ * Compile a wildcard origin like `https://*.example.com`; each `*` matches one
+ * or more subdomain labels, so the pattern can't match a different host
  */
-export function isOriginAllowed(origin: string | null, config: CorsConfig): boolean {
-  if (!origin) return false;
+function compileWildcardOrigin(pattern: string): RegExp {
+  let regex = wildcardOrigins.get(pattern);
+  if (!regex) {
+    const source = pattern
+      .split('*')
+      .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+      .join('[a-z0-9-]+(?:\\.[a-z0-9-]+)*');
+    regex = new RegExp(`^${source}$`);
+    wildcardOrigins.set(pattern, regex);
+  }
+  return regex;
+}
 
-  if (config.origin === '*') return true;
+function matchesOrigin(origin: string, pattern: CorsOriginPattern): boolean {
+  if (pattern instanceof RegExp) {
+    // Global and sticky patterns keep state between calls
+    pattern.lastIndex = 0;
+    return pattern.test(origin);
+  }
 
-  if (typeof config.origin === 'string') {
-    return origin === config.origin;
+  if (pattern === '*') return true;
+
+  if (pattern.includes('*')) {
+    return compileWildcardOrigin(pattern).test(origin);
   }
 
-  if (Array.isArray(config.origin)) {
-    return config.origin.includes(origin);
+  return origin === pattern;
+}
+
+/**
+ * Check if origin is allowed based on CORS config
+ */
+export function isOriginAllowed(
+  origin: string | null,
+  config: CorsConfig,
+  request?: NextRequest
+): boolean {
+  if (!origin) return false;
+
+  if (typeof config.origin === 'function') {
+    return config.origin(origin, request);
   }
 
-  return false;
+  const patterns = Array.isArray(config.origin) ? config.origin : [config.origin];
+  return patterns.some((pattern) => matchesOrigin(origin, pattern));
 }
 
 /**
@@ -57,10 +170,16 @@ export function createCorsHeaders(
   // Handle origin
   if (config.origin === '*') {
     headers['Access-Control-Allow-Origin'] = '*';
-  } else if (origin && isOriginAllowed(origin, config)) {
-    headers['Access-Control-Allow-Origin'] = origin;
-    if (config.credentials) {
-      headers['Access-Control-Allow-Credentials'] = 'true';
+  } else {
+    // The response depends on the Origin header, so caches must key on it
+    // whether or not this particular origin is echoed back
+    headers['Vary'] = 'Origin';
+
+    if (origin && isOriginAllowed(origin, config, request)) {
+      headers['Access-Control-Allow-Origin'] = origin;
+      if (config.credentials) {
+        headers['Access-Control-Allow-Credentials'] = 'true';
+      }
     }
   }
 
@@ -89,16 +208,72 @@ export function createCorsHeaders(
 
 /**
  * Handle CORS preflight request
+ *
+ * Preflights (OPTIONS requests with `Origin` and `Access-Control-Request-Method`)
+ * are rejected with 403 when the origin, method or any requested header isn't
+ * allowed by the config. Without `allowedHeaders`, requested headers are echoed back.
  */
 export function handleCorsPreflight(
   request: NextRequest,
   config: CorsConfig
 ): NextResponse | null {
-  if (request.method === 'OPTIONS') {
-    const headers = createCorsHeaders(request, config);
+  if (request.method !== 'OPTIONS') {
+    return null;
+  }
+
+  const headers = createCorsHeaders(request, config) as Record<string, string>;
+  const origin = request.headers.get('origin');
+  const requestMethod = request.headers.get('access-control-request-method');
+
+  // A plain OPTIONS request rather than a preflight
+  if (!origin || !requestMethod) {
     return new NextResponse(null, { status: 204, headers });
   }
-  return null;
+
+  const reject = (error: string) =>
+    NextResponse.json({ success: false, error }, { status: 403, headers: { Vary: 'Origin' } });
+
+  if (!isOriginAllowed(origin, config, request)) {
+    return reject('Origin not allowed');
+  }
+
+  if (config.methods && !config.methods.some((method) => method.toUpperCase() === requestMethod.toUpperCase())) {
+    return reject(`Method ${requestMethod} not allowed`);
+  }
+
+  const requestHeaders = (request.headers.get('access-control-request-headers') || '')
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  if (config.allowedHeaders) {
+    const allowed = config.allowedHeaders.map((name) => name.toLowerCase());
+    const disallowed = requestHeaders.find((name) => !allowed.includes(name));
+    if (disallowed) {
+      return reject(`Header ${disallowed} not allowed`);
+    }
+  } else if (requestHeaders.length > 0) {
+    headers['Access-Control-Allow-Headers'] = requestHeaders.join(', ');
+    headers['Vary'] = headers['Vary'] ? `${headers['Vary']}, Access-Control-Request-Headers` : 'Access-Control-Request-Headers';
+  }
+
+  return new NextResponse(null, { status: 204, headers });
+}
+
+/**
+ * Compare two secrets in constant time to avoid leaking them through timing
+ */
+export function safeCompare(a: string, b: string): boolean {
+  const encoder = new TextEncoder();
+  const left = encoder.encode(a);
+  const right = encoder.encode(b);
+
+  let diff = left.length ^ right.length;
+  for (let i = 0; i < left.length; i++) {
+    diff |= left[i] ^ (right[i % (right.length || 1)] ?? 0);
+  }
+
+  return diff === 0;
 }
 
 /**
@@ -117,7 +292,7 @@ export function createDefaultCorsConfig(): CorsConfig {
 /**
  * Create strict CORS configuration (only specific origins)
  */
-export function createStrictCorsConfig(allowedOrigins: string[]): CorsConfig {
+export function createStrictCorsConfig(allowedOrigins: CorsOriginPattern[]): CorsConfig {
   return {
     origin: allowedOrigins,
     methods: ['POST'],
@@ -0,0 +1,178 @@
+import type { SpamCheckResult, SpamProtectionConfig, SpamReason, TelegramNotifyRequest } from '../types';
+import { computeSignature } from './auth';
+import { safeCompare } from './security';
+
+/** Default lifetime of a form token (24 hours) */
+const DEFAULT_MAX_FILL_TIME_MS = 24 * 60 * 60 * 1000;
+
+const LINK_PATTERN = /\b(?:https?:\/\/|www\.)\S+/gi;
+
+const encoder = new TextEncoder();
+
+/**
+ * Sign a form token's issue time and nonce. The prefix keeps form tokens
+ * apart from request signatures made with the same secret.
+ */
+function signFormToken(secret: string, issuedAt: string, nonce: string): Promise<string> {
+  return computeSignature(secret, `form-token:${issuedAt}.${nonce}`, new Uint8Array(0));
+}
+
+/**
+ * Create a form token: the current time, a random nonce and their HMAC
+ * signature, so clients can't backdate when the form was opened
+ */
+export async function createFormToken(secret: string, now: number = Date.now()): Promise<string> {
+  const issuedAt = String(now);
+  const nonce = Array.from(crypto.getRandomValues(new Uint8Array(8)), (byte) => byte.toString(16).padStart(2, '0')).join('');
+  return `${issuedAt}.${nonce}.${await signFormToken(secret, issuedAt, nonce)}`;
+}
+
+/**
+ * Read the issue time of a form token, or null if it wasn't signed with `secret`
+ */
+export async function readFormToken(token: string, secret: string): Promise<number | null> {
+  const match = /^(\d+)\.([0-9a-f]{16})\.([0-9a-f]{64})$/.exec(token);
+  if (!match) return null;
+
+  const expected = await signFormToken(secret, match[1], match[2]);
+  return safeCompare(match[3], expected) ? Number(match[1]) : null;
+}
+
+/**
+ * Normalize and hash a message, so duplicates are remembered without storing their text
+ */
+async function hashMessage(message: string): Promise<string> {
+  const normalized = message.trim().toLowerCase().replace(/\s+/g, ' ');
+  const digest = await crypto.subtle.digest('SHA-256', encoder.encode(normalized));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Checks notification requests against a `SpamProtectionConfig`
+ */
+export interface SpamFilter {
+  /** Issue a signed form token (requires `secret`) */
+  issueFormToken(): Promise<string>;
+  /** Run every configured check */
+  check(request: TelegramNotifyRequest): Promise<SpamCheckResult>;
+}
+
+/**
+ * Create a spam filter.
+ *
+ * Honeypot, timing and duplicate checks flag a request on their own; links
+ * over `maxLinks` and blocked keywords add to a score compared against
+ * `scoreThreshold`. Recent messages and used form tokens are remembered in
+ * process memory.
+ */
+export function createSpamFilter(config: SpamProtectionConfig): SpamFilter {
+  if (config.minFillTimeMs !== undefined && !config.secret) {
+    throw new Error('spamProtection.secret is required to check the form fill time');
+  }
+  if (config.action === 'moderate' && config.moderationChatId === undefined) {
+    throw new Error('spamProtection.moderationChatId is required when action is "moderate"');
+  }
+
+  const recentMessages = new Map<string, number>();
+  // Accepted form tokens, until they expire anyway
+  const usedTokens = new Map<string, number>();
+  const maxFillTimeMs = config.maxFillTimeMs ?? DEFAULT_MAX_FILL_TIME_MS;
+  const scoreThreshold = config.scoreThreshold ?? 1;
+
+  const checkFillTime = async (formToken: string | undefined): Promise<SpamReason | null> => {
+    const now = Date.now();
+    for (const [token, expiresAt] of usedTokens) {
+      if (expiresAt <= now) usedTokens.delete(token);
+    }
+
+    const issuedAt = formToken ? await readFormToken(formToken, config.secret!) : null;
+    const elapsed = now - (issuedAt ?? 0);
+
+    if (issuedAt === null || elapsed > maxFillTimeMs || elapsed < 0 || usedTokens.has(formToken!)) {
+      return 'invalid-form-token';
+    }
+    if (elapsed < config.minFillTimeMs!) {
+      return 'too-fast';
+    }
+
+    // Each token is good for one submission
+    usedTokens.set(formToken!, issuedAt + maxFillTimeMs);
+    return null;
+  };
+
+  const checkDuplicate = async (message: string): Promise<boolean> => {
+    const now = Date.now();
+    for (const [hash, expiresAt] of recentMessages) {
+      if (expiresAt <= now) recentMessages.delete(hash);
+    }
+
+    const hash = await hashMessage(message);
+    const duplicate = recentMessages.has(hash);
+    recentMessages.set(hash, now + config.duplicateWindowMs!);
+    return duplicate;
+  };
+
+  const scoreContent = (message: string): { score: number; reasons: SpamReason[] } => {
+    const reasons: SpamReason[] = [];
+    let score = 0;
+
+    if (config.maxLinks !== undefined) {
+      const links = message.match(LINK_PATTERN)?.length ?? 0;
+      if (links > config.maxLinks) {
+        score += links - config.maxLinks;
+        reasons.push('links');
+      }
+    }
+
+    if (config.blockedKeywords) {
+      const lower = message.toLowerCase();
+      const matches = config.blockedKeywords.filter((keyword) => {
+        if (keyword instanceof RegExp) {
+          keyword.lastIndex = 0;
+          return keyword.test(message);
+        }
+        return lower.includes(keyword.toLowerCase());
+      }).length;
+
+      if (matches > 0) {
+        score += matches;
+        reasons.push('keywords');
+      }
+    }
+
+    return { score, reasons };
+  };
+
+  return {
+    async issueFormToken() {
+      if (!config.secret) {
+        throw new Error('spamProtection.secret is required to issue form tokens');
+      }
+      return createFormToken(config.secret);
+    },
+
+    async check(request) {
+      const reasons: SpamReason[] = [];
+
+      if (config.honeypot && request.honeypot) {
+        reasons.push('honeypot');
+      }
+
+      if (config.minFillTimeMs !== undefined) {
+        const reason = await checkFillTime(request.formToken);
+        if (reason) reasons.push(reason);
+      }
+
+      const content = scoreContent(request.message);
+      if (content.score >= scoreThreshold) {
+        reasons.push(...content.reasons);
+      }
+
+      if (config.duplicateWindowMs !== undefined && (await checkDuplicate(request.message))) {
+        reasons.push('duplicate');
+      }
+
+      return { spam: reasons.length > 0, score: content.score, reasons };
+    },
+  };
+}
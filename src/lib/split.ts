@@ -0,0 +1,301 @@
+import type { ParseMode } from '../types';
+
+/**
+ * Telegram's maximum length for a text message
+ */
+export const MAX_MESSAGE_LENGTH = 4096;
+
+/**
+ * Telegram's maximum length for a media caption
+ */
+export const MAX_CAPTION_LENGTH = 1024;
+
+/**
+ * A formatting entity that is still open at a given position
+ */
+interface OpenEntity {
+  /** Identifies the entity when looking for its closing marker */
+  key: string;
+  /** Text that re-opens the entity at the start of the next part */
+  open: string;
+  /** Text that closes the entity at the end of the current part */
+  close: string;
+}
+
+interface ScanResult {
+  /** Entities left open at the end of the scanned text */
+  open: OpenEntity[];
+  /** Ranges [start, end) that must not be cut (tags, escapes, links) */
+  atomic: Array<[number, number]>;
+}
+
+const MARKDOWN_V2_MARKERS = ['```', '`', '||', '__', '*', '_', '~'];
+const MARKDOWN_MARKERS = ['```', '`', '*', '_'];
+
+/**
+ * Scan HTML text for open tags and ranges that cannot be cut
+ */
+function scanHtml(text: string): ScanResult {
+  const open: OpenEntity[] = [];
+  const atomic: Array<[number, number]> = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '<') {
+      const end = text.indexOf('>', i);
+      if (end === -1) {
+        atomic.push([i, Infinity]);
+        break;
+      }
+
+      const tag = text.slice(i, end + 1);
+      atomic.push([i, end + 1]);
+
+      const match = /^<(\/?)([a-zA-Z][\w-]*)/.exec(tag);
+      if (match) {
+        const name = match[2].toLowerCase();
+        if (match[1]) {
+          const index = findLastIndex(open, (entity) => entity.key === name);
+          if (index !== -1) {
+            open.splice(index, 1);
+          }
+        } else if (!tag.endsWith('/>')) {
+          open.push({ key: name, open: tag, close: `</${name}>` });
+        }
+      }
+
+      i = end + 1;
+      continue;
+    }
+
+    if (char === '&') {
+      const entity = /^&(#\d+|#x[0-9a-fA-F]+|[a-zA-Z]+);/.exec(text.slice(i, i + 12));
+      if (entity) {
+        atomic.push([i, i + entity[0].length]);
+        i += entity[0].length;
+        continue;
+      }
+    }
+
+    i++;
+  }
+
+  return { open, atomic };
+}
+
+/**
+ * Scan Markdown/MarkdownV2 text for open entities and ranges that cannot be cut
+ */
+function scanMarkdown(text: string, markers: string[]): ScanResult {
+  const open: OpenEntity[] = [];
+  const atomic: Array<[number, number]> = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+    const current = open[open.length - 1];
+    const inCode = current?.key === '`' || current?.key === '```';
+
+    if (char === '\\') {
+      atomic.push([i, i + 2]);
+      i += 2;
+      continue;
+    }
+
+    if (inCode) {
+      if (text.startsWith(current.key, i)) {
+        atomic.push([i, i + current.key.length]);
+        open.pop();
+        i += current.key.length;
+      } else {
+        i++;
+      }
+      continue;
+    }
+
+    if (char === '[') {
+      const link = /^\[[^\]]*\]\([^)]*\)/.exec(text.slice(i));
+      if (link) {
+        atomic.push([i, i + link[0].length]);
+        i += link[0].length;
+        continue;
+      }
+    }
+
+    const marker = markers.find((m) => text.startsWith(m, i));
+    if (marker) {
+      const index = findLastIndex(open, (entity) => entity.key === marker);
+      let token = marker;
+
+      if (index !== -1) {
+        open.splice(index, 1);
+      } else {
+        if (marker === '```') {
+          // Keep the language of a code block so it can be re-opened
+          token = /^```[\w+-]*\n?/.exec(text.slice(i))?.[0] || marker;
+        }
+        open.push({ key: marker, open: token, close: marker });
+      }
+
+      atomic.push([i, i + token.length]);
+      i += token.length;
+      continue;
+    }
+
+    i++;
+  }
+
+  return { open, atomic };
+}
+
+function scan(text: string, parseMode?: ParseMode): ScanResult {
+  switch (parseMode) {
+    case 'HTML':
+      return scanHtml(text);
+    case 'MarkdownV2':
+      return scanMarkdown(text, MARKDOWN_V2_MARKERS);
+    case 'Markdown':
+      return scanMarkdown(text, MARKDOWN_MARKERS);
+    default:
+      return { open: [], atomic: [] };
+  }
+}
+
+function findLastIndex<T>(items: T[], predicate: (item: T) => boolean): number {
+  for (let i = items.length - 1; i >= 0; i--) {
+    if (predicate(items[i])) return i;
+  }
+  return -1;
+}
+
+/**
+ * Find where to cut `text` so the part fits in `limit` characters.
+ * Prefers paragraph, then line, then word boundaries over a hard cut.
+ */
+function findSplitPoint(
+  text: string,
+  limit: number,
+  minPosition: number,
+  atomic: Array<[number, number]>
+): { cut: number; next: number } {
+  const isSafe = (position: number) => {
+    if (position <= minPosition) return false;
+    if (atomic.some(([start, end]) => start < position && position < end)) return false;
+    // Don't split a surrogate pair (emoji)
+    const code = text.charCodeAt(position - 1);
+    return !(code >= 0xd800 && code <= 0xdbff);
+  };
+
+  const separators: Array<[string, number]> = [
+    ['\n\n', minPosition + (limit - minPosition) / 2],
+    ['\n', minPosition + (limit - minPosition) / 2],
+    [' ', minPosition],
+  ];
+
+  for (const [separator, threshold] of separators) {
+    let index = text.lastIndexOf(separator, limit);
+    while (index > threshold) {
+      if (isSafe(index)) {
+        return { cut: index, next: index + separator.length };
+      }
+      index = text.lastIndexOf(separator, index - 1);
+    }
+  }
+
+  let position = limit;
+  while (position > minPosition && !isSafe(position)) {
+    position--;
+  }
+
+  if (position <= minPosition) {
+    position = limit;
+  }
+
+  return { cut: position, next: position };
+}
+
+/**
+ * Split a long message into parts that fit Telegram's length limits.
+ *
+ * Text is broken on paragraph, line or word boundaries where possible, and
+ * HTML tags or Markdown entities that are open at a split point are closed at
+ * the end of one part and re-opened at the start of the next, so every part
+ * can be sent with the same parse mode.
+ *
+ * @example
+ * ```ts
+ * const parts = splitMessage(longStackTrace, { parseMode: 'HTML' });
+ * for (const part of parts) {
+ *   await client.sendMessage(part, { parseMode: 'HTML' });
+ * }
+ * ```
+ */
+export function splitMessage(
+  text: string,
+  options: {
+    /** Maximum length of each part (defaults to 4096) */
+    maxLength?: number;
+    /** Maximum length of the first part, e.g. 1024 for a caption */
+    firstPartMaxLength?: number;
+    /** Parse mode used to keep formatting entities balanced */
+    parseMode?: ParseMode;
+  } = {}
+): string[] {
+  const { maxLength = MAX_MESSAGE_LENGTH, parseMode } = options;
+  const firstPartMaxLength = options.firstPartMaxLength ?? maxLength;
+
+  const parts: string[] = [];
+  let source = text;
+  let prefixLength = 0;
+
+  const partLimit = () => (parts.length === 0 ? firstPartMaxLength : maxLength);
+
+  while (source.length > partLimit()) {
+    const maxPartLength = partLimit();
+
+    // Drop re-opened entities if they alone don't leave room for any content
+    if (prefixLength >= maxPartLength) {
+      source = source.slice(prefixLength);
+      prefixLength = 0;
+      continue;
+    }
+
+    const { atomic } = scan(source, parseMode);
+
+    let limit = maxPartLength;
+    let split = findSplitPoint(source, limit, prefixLength, atomic);
+    let open = scan(source.slice(0, split.cut), parseMode).open;
+    let suffix = open.map((entity) => entity.close).reverse().join('');
+
+    // Leave room for the closing tags, which may change where the text is cut
+    for (let attempt = 0; attempt < 5 && split.cut + suffix.length > maxPartLength; attempt++) {
+      limit = maxPartLength - suffix.length;
+      if (limit <= prefixLength) break;
+
+      split = findSplitPoint(source, limit, prefixLength, atomic);
+      open = scan(source.slice(0, split.cut), parseMode).open;
+      suffix = open.map((entity) => entity.close).reverse().join('');
+    }
+
+    if (split.cut + suffix.length > maxPartLength) {
+      // Entities can't be balanced within the limit; fall back to a plain cut
+      open = [];
+      suffix = '';
+      split = findSplitPoint(source, maxPartLength, prefixLength, []);
+    }
+
+    parts.push(source.slice(0, split.cut) + suffix);
+
+    const prefix = open.map((entity) => entity.open).join('');
+    source = prefix + source.slice(split.next);
+    prefixLength = prefix.length;
+  }
+
+  if (parts.length === 0 || source.slice(prefixLength).trim() !== '') {
+    parts.push(source);
+  }
+
+  return parts;
+}
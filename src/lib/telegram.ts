@@ -2,10 +2,19 @@ import type {
   TelegramConfig,
   TelegramResponse,
   TelegramMessage,
-  TelegramError,
   ParseMode,
   FileAttachment,
+  LongMessageMode,
+  RetryConfig,
+  InlineKeyboardMarkup,
+  TelegramWebhookInfo,
+  TelegramUser,
 } from '../types';
+import { TelegramError } from '../types';
+import { getMediaType, isPhotoRejected, MAX_MEDIA_GROUP_SIZE } from './media';
+import { splitMessage, MAX_MESSAGE_LENGTH, MAX_CAPTION_LENGTH } from './split';
+import { redactError } from './redact';
+import { readLocalFile } from './runtime';
 
 /**
  * Telegram Bot API Client
@@ -14,15 +23,28 @@ export class TelegramClient {
   private botToken: string;
   private chatId: string;
   private apiUrl: string;
+  private longMessageMode: LongMessageMode;
+  private retry: Required<RetryConfig>;
 
   constructor(config: TelegramConfig) {
     this.botToken = config.botToken;
     this.chatId = config.chatId;
     this.apiUrl = config.apiUrl || 'https://api.telegram.org';
+    this.longMessageMode = config.longMessageMode || 'split';
+    this.retry = {
+      retries: config.retry?.retries ?? 2,
+      minDelayMs: config.retry?.minDelayMs ?? 1000,
+      maxDelayMs: config.retry?.maxDelayMs ?? 30000,
+      factor: config.retry?.factor ?? 2,
+      jitter: config.retry?.jitter ?? 0.2,
+      maxRetryAfterMs: config.retry?.maxRetryAfterMs ?? 60000,
+    };
   }
 
   /**
-   * Send a text message to Telegram
+   * Send a text message to Telegram.
+   * Messages over 4096 characters are split into several messages (or truncated
+   * with `longMessageMode: 'truncate'`); the first sent message is returned.
    */
   async sendMessage(
     text: string,
@@ -31,13 +53,67 @@ export class TelegramClient {
       chatId?: string;
       disableNotification?: boolean;
       threadId?: number;
+      replyMarkup?: InlineKeyboardMarkup;
+      longMessageMode?: LongMessageMode;
     } = {}
+  ): Promise<TelegramMessage> {
+    const [firstMessage] = await this.sendMessageParts(text, options);
+    return firstMessage;
+  }
+
+  /**
+   * Send a text message like `sendMessage`, returning every message sent
+   * when the text had to be split
+   */
+  async sendMessageParts(
+    text: string,
+    options: {
+      parseMode?: ParseMode;
+      chatId?: string;
+      disableNotification?: boolean;
+      threadId?: number;
+      replyMarkup?: InlineKeyboardMarkup;
+      longMessageMode?: LongMessageMode;
+    } = {}
+  ): Promise<TelegramMessage[]> {
+    const mode = options.longMessageMode || this.longMessageMode;
+
+    if (mode === 'truncate' || text.length <= MAX_MESSAGE_LENGTH) {
+      return [await this.sendTextMessage(this.truncateMessage(text), options)];
+    }
+
+    const [firstPart, ...otherParts] = splitMessage(text, {
+      parseMode: options.parseMode,
+    });
+
+    // The keyboard goes on the last part, below the full text
+    const firstMessage = await this.sendTextMessage(firstPart, {
+      ...options,
+      replyMarkup: otherParts.length > 0 ? undefined : options.replyMarkup,
+    });
+    const followUps = await this.sendFollowUpMessages(otherParts, options);
+
+    return [firstMessage, ...followUps];
+  }
+
+  /**
+   * Send a single text message that already fits Telegram's limit
+   */
+  private async sendTextMessage(
+    text: string,
+    options: {
+      parseMode?: ParseMode;
+      chatId?: string;
+      disableNotification?: boolean;
+      threadId?: number;
+      replyMarkup?: InlineKeyboardMarkup;
+    }
   ): Promise<TelegramMessage> {
     const url = `${this.apiUrl}/bot${this.botToken}/sendMessage`;
     
     const body: any = {
       chat_id: options.chatId || this.chatId,
-      text: this.truncateMessage(text),
+      text,
     };
 
     if (options.parseMode) {
@@ -52,11 +128,16 @@ export class TelegramClient {
       body.message_thread_id = options.threadId;
     }
 
+    if (options.replyMarkup) {
+      body.reply_markup = options.replyMarkup;
+    }
+
     return this.makeRequest(url, body);
   }
 
   /**
-   * Send a document/file to Telegram
+   * Send a document/file to Telegram.
+   * Captions over 1024 characters are split, with the overflow sent as follow-up text messages.
    */
   async sendDocument(
     file: FileAttachment,
@@ -66,28 +147,41 @@ export class TelegramClient {
       chatId?: string;
       disableNotification?: boolean;
       threadId?: number;
+      replyMarkup?: InlineKeyboardMarkup;
+      longMessageMode?: LongMessageMode;
     } = {}
   ): Promise<TelegramMessage> {
+    const [documentMessage] = await this.sendDocumentParts(file, options);
+    return documentMessage;
+  }
+
+  /**
+   * Send a document like `sendDocument`, returning the document message
+   * followed by any messages carrying the overflow of a split caption
+   */
+  async sendDocumentParts(
+    file: FileAttachment,
+    options: {
+      caption?: string;
+      parseMode?: ParseMode;
+      chatId?: string;
+      disableNotification?: boolean;
+      threadId?: number;
+      replyMarkup?: InlineKeyboardMarkup;
+      longMessageMode?: LongMessageMode;
+    } = {}
+  ): Promise<TelegramMessage[]> {
     const url = `${this.apiUrl}/bot${this.botToken}/sendDocument`;
     
     const formData = new FormData();
     formData.append('chat_id', options.chatId || this.chatId);
 
-    // Handle file data
-    if (typeof file.data === 'string') {
-      // File path - read file in Node.js environment
-      const fs = await import('fs');
-      const fileBuffer = fs.readFileSync(file.data);
-      const blob = new Blob([new Uint8Array(fileBuffer)], { type: file.mimeType });
-      formData.append('document', blob, file.filename);
-    } else {
-      // Buffer
-      const blob = new Blob([new Uint8Array(file.data)], { type: file.mimeType });
-      formData.append('document', blob, file.filename);
-    }
+    formData.append('document', await this.toBlob(file), file.filename);
+
+    const { caption, overflow } = this.prepareCaption(options.caption, options);
 
-    if (options.caption) {
-      formData.append('caption', options.caption);
+    if (caption) {
+      formData.append('caption', caption);
     }
 
     if (options.parseMode) {
@@ -102,21 +196,449 @@ export class TelegramClient {
       formData.append('message_thread_id', options.threadId.toString());
     }
 
-    return this.makeRequest(url, formData, true);
+    // With a split caption, the keyboard goes on the last follow-up message
+    if (options.replyMarkup && overflow.length === 0) {
+      formData.append('reply_markup', JSON.stringify(options.replyMarkup));
+    }
+
+    const message = await this.makeRequest(url, formData, true);
+    const followUps = await this.sendFollowUpMessages(overflow, options);
+
+    return [message, ...followUps];
+  }
+
+  /**
+   * Send 2-10 files as a single album.
+   * The caption is attached to the first item only, as Telegram shows it for the whole album.
+   * Documents and audio files cannot be mixed with other media types.
+   * Albums cannot carry an inline keyboard.
+   * If Telegram can't process one of the photos, the album is sent again as documents.
+   * Returns the album messages followed by any caption overflow messages.
+   */
+  async sendMediaGroup(
+    files: FileAttachment[],
+    options: {
+      caption?: string;
+      parseMode?: ParseMode;
+      chatId?: string;
+      disableNotification?: boolean;
+      threadId?: number;
+      longMessageMode?: LongMessageMode;
+    } = {}
+  ): Promise<TelegramMessage[]> {
+    if (files.length < 2 || files.length > MAX_MEDIA_GROUP_SIZE) {
+      throw new Error(
+        `A media group must contain between 2 and ${MAX_MEDIA_GROUP_SIZE} files`
+      );
+    }
+
+    const { caption, overflow } = this.prepareCaption(options.caption, options);
+
+    let messages: TelegramMessage[];
+    try {
+      messages = await this.requestMediaGroup(files, caption, options, false);
+    } catch (error) {
+      if (!isPhotoRejected(error) || !files.some((file) => getMediaType(file) === 'photo')) {
+        throw error;
+      }
+
+      // One of the photos is too large or oddly shaped; documents have no such limits
+      messages = await this.requestMediaGroup(files, caption, options, true);
+    }
+
+    const followUps = await this.sendFollowUpMessages(overflow, options);
+
+    return [...messages, ...followUps];
+  }
+
+  /**
+   * Upload an album, optionally sending every item as a document
+   */
+  private async requestMediaGroup(
+    files: FileAttachment[],
+    caption: string | undefined,
+    options: {
+      parseMode?: ParseMode;
+      chatId?: string;
+      disableNotification?: boolean;
+      threadId?: number;
+    },
+    asDocuments: boolean
+  ): Promise<TelegramMessage[]> {
+    const url = `${this.apiUrl}/bot${this.botToken}/sendMediaGroup`;
+
+    const formData = new FormData();
+    formData.append('chat_id', options.chatId || this.chatId);
+
+    const media = [];
+    for (let i = 0; i < files.length; i++) {
+      const file = files[i];
+      const attachName = `file${i}`;
+      const item: Record<string, string> = {
+        type: asDocuments ? 'document' : getMediaType(file),
+        media: `attach://${attachName}`,
+      };
+
+      if (i === 0 && caption) {
+        item.caption = caption;
+        if (options.parseMode) {
+          item.parse_mode = options.parseMode;
+        }
+      }
+
+      media.push(item);
+      formData.append(attachName, await this.toBlob(file), file.filename);
+    }
+
+    formData.append('media', JSON.stringify(media));
+
+    if (options.disableNotification) {
+      formData.append('disable_notification', 'true');
+    }
+
+    if (options.threadId) {
+      formData.append('message_thread_id', options.threadId.toString());
+    }
+
+    return this.makeRequest<TelegramMessage[]>(url, formData, true);
+  }
+
+  /**
+   * Edit the text of a previously sent message.
+   * Text over 4096 characters is truncated, as an edit can't be split.
+   */
+  async editMessageText(
+    messageId: number,
+    text: string,
+    options: {
+      chatId?: string;
+      parseMode?: ParseMode;
+      replyMarkup?: InlineKeyboardMarkup;
+    } = {}
+  ): Promise<TelegramMessage> {
+    const url = `${this.apiUrl}/bot${this.botToken}/editMessageText`;
+
+    const body: any = {
+      chat_id: options.chatId || this.chatId,
+      message_id: messageId,
+      text: this.truncateMessage(text),
+    };
+
+    if (options.parseMode) {
+      body.parse_mode = options.parseMode;
+    }
+
+    if (options.replyMarkup) {
+      body.reply_markup = options.replyMarkup;
+    }
+
+    return this.makeRequest(url, body);
+  }
+
+  /**
+   * Edit the caption of a previously sent document or media message.
+   * Captions over 1024 characters are truncated.
+   */
+  async editMessageCaption(
+    messageId: number,
+    caption: string,
+    options: {
+      chatId?: string;
+      parseMode?: ParseMode;
+      replyMarkup?: InlineKeyboardMarkup;
+    } = {}
+  ): Promise<TelegramMessage> {
+    const url = `${this.apiUrl}/bot${this.botToken}/editMessageCaption`;
+
+    const body: any = {
+      chat_id: options.chatId || this.chatId,
+      message_id: messageId,
+      caption: this.truncateMessage(caption, MAX_CAPTION_LENGTH),
+    };
+
+    if (options.parseMode) {
+      body.parse_mode = options.parseMode;
+    }
+
+    if (options.replyMarkup) {
+      body.reply_markup = options.replyMarkup;
+    }
+
+    return this.makeRequest(url, body);
+  }
+
+  /**
+   * Replace the inline keyboard of a previously sent message.
+   * Pass `undefined` to remove the keyboard.
+   */
+  async editMessageReplyMarkup(
+    messageId: number,
+    replyMarkup: InlineKeyboardMarkup | undefined,
+    options: { chatId?: string } = {}
+  ): Promise<TelegramMessage> {
+    const url = `${this.apiUrl}/bot${this.botToken}/editMessageReplyMarkup`;
+
+    const body: any = {
+      chat_id: options.chatId || this.chatId,
+      message_id: messageId,
+      reply_markup: replyMarkup || { inline_keyboard: [] },
+    };
+
+    return this.makeRequest(url, body);
+  }
+
+  /**
+   * Delete a message (bots can delete their own messages up to 48 hours old)
+   */
+  async deleteMessage(
+    messageId: number,
+    options: { chatId?: string } = {}
+  ): Promise<boolean> {
+    const url = `${this.apiUrl}/bot${this.botToken}/deleteMessage`;
+
+    const body: any = {
+      chat_id: options.chatId || this.chatId,
+      message_id: messageId,
+    };
+
+    return this.makeRequest<boolean>(url, body);
+  }
+
+  /**
+   * Pin a message in the chat (the bot needs the pin messages permission in groups)
+   */
+  async pinChatMessage(
+    messageId: number,
+    options: {
+      chatId?: string;
+      disableNotification?: boolean;
+    } = {}
+  ): Promise<boolean> {
+    const url = `${this.apiUrl}/bot${this.botToken}/pinChatMessage`;
+
+    const body: any = {
+      chat_id: options.chatId || this.chatId,
+      message_id: messageId,
+    };
+
+    if (options.disableNotification) {
+      body.disable_notification = true;
+    }
+
+    return this.makeRequest<boolean>(url, body);
+  }
+
+  /**
+   * Unpin a message, or the most recent pinned message when no id is given
+   */
+  async unpinChatMessage(
+    messageId?: number,
+    options: { chatId?: string } = {}
+  ): Promise<boolean> {
+    const url = `${this.apiUrl}/bot${this.botToken}/unpinChatMessage`;
+
+    const body: any = {
+      chat_id: options.chatId || this.chatId,
+    };
+
+    if (messageId !== undefined) {
+      body.message_id = messageId;
+    }
+
+    return this.makeRequest<boolean>(url, body);
+  }
+
+  /**
+   * Answer a callback query from an inline keyboard button.
+   * Telegram keeps showing a progress indicator on the button until the query is answered.
+   */
+  async answerCallbackQuery(
+    callbackQueryId: string,
+    options: {
+      text?: string;
+      showAlert?: boolean;
+      url?: string;
+    } = {}
+  ): Promise<boolean> {
+    const url = `${this.apiUrl}/bot${this.botToken}/answerCallbackQuery`;
+
+    const body: any = {
+      callback_query_id: callbackQueryId,
+    };
+
+    if (options.text) {
+      body.text = options.text;
+    }
+
+    if (options.showAlert) {
+      body.show_alert = true;
+    }
+
+    if (options.url) {
+      body.url = options.url;
+    }
+
+    return this.makeRequest<boolean>(url, body);
+  }
+
+  /**
+   * Register a webhook URL that Telegram will deliver updates to
+   */
+  async setWebhook(
+    webhookUrl: string,
+    options: {
+      /** Sent back in the X-Telegram-Bot-Api-Secret-Token header of every update */
+      secretToken?: string;
+      /** Update types to receive, e.g. ['message', 'callback_query'] */
+      allowedUpdates?: string[];
+      /** Drop updates that are waiting to be delivered */
+      dropPendingUpdates?: boolean;
+      /** Maximum simultaneous HTTPS connections (1-100) */
+      maxConnections?: number;
+    } = {}
+  ): Promise<boolean> {
+    const url = `${this.apiUrl}/bot${this.botToken}/setWebhook`;
+
+    const body: any = {
+      url: webhookUrl,
+    };
+
+    if (options.secretToken) {
+      body.secret_token = options.secretToken;
+    }
+
+    if (options.allowedUpdates) {
+      body.allowed_updates = options.allowedUpdates;
+    }
+
+    if (options.dropPendingUpdates) {
+      body.drop_pending_updates = true;
+    }
+
+    if (options.maxConnections) {
+      body.max_connections = options.maxConnections;
+    }
+
+    return this.makeRequest<boolean>(url, body);
   }
 
   /**
-   * Make a request to Telegram API
+   * Remove the webhook integration
    */
-  private async makeRequest(
+  async deleteWebhook(options: { dropPendingUpdates?: boolean } = {}): Promise<boolean> {
+    const url = `${this.apiUrl}/bot${this.botToken}/deleteWebhook`;
+
+    const body: any = {};
+
+    if (options.dropPendingUpdates) {
+      body.drop_pending_updates = true;
+    }
+
+    return this.makeRequest<boolean>(url, body);
+  }
+
+  /**
+   * Get the current webhook status
+   */
+  async getWebhookInfo(): Promise<TelegramWebhookInfo> {
+    const url = `${this.apiUrl}/bot${this.botToken}/getWebhookInfo`;
+    return this.makeRequest<TelegramWebhookInfo>(url, {});
+  }
+
+  /**
+   * Get the bot's own user, including its username
+   */
+  async getMe(): Promise<TelegramUser> {
+    const url = `${this.apiUrl}/bot${this.botToken}/getMe`;
+    return this.makeRequest<TelegramUser>(url, {});
+  }
+
+  /**
+   * Fit a caption into Telegram's 1024 character limit.
+   * In split mode, the text that doesn't fit is returned as follow-up message parts.
+   */
+  private prepareCaption(
+    caption: string | undefined,
+    options: { parseMode?: ParseMode; longMessageMode?: LongMessageMode }
+  ): { caption?: string; overflow: string[] } {
+    if (!caption || caption.length <= MAX_CAPTION_LENGTH) {
+      return { caption, overflow: [] };
+    }
+
+    const mode = options.longMessageMode || this.longMessageMode;
+    if (mode === 'truncate') {
+      return { caption: this.truncateMessage(caption, MAX_CAPTION_LENGTH), overflow: [] };
+    }
+
+    const [firstPart, ...otherParts] = splitMessage(caption, {
+      firstPartMaxLength: MAX_CAPTION_LENGTH,
+      parseMode: options.parseMode,
+    });
+
+    return { caption: firstPart, overflow: otherParts };
+  }
+
+  /**
+   * Send the remaining parts of a split message, in order.
+   * The keyboard, if any, is attached to the last part.
+   */
+  private async sendFollowUpMessages(
+    parts: string[],
+    options: {
+      parseMode?: ParseMode;
+      chatId?: string;
+      disableNotification?: boolean;
+      threadId?: number;
+      replyMarkup?: InlineKeyboardMarkup;
+    }
+  ): Promise<TelegramMessage[]> {
+    const messages: TelegramMessage[] = [];
+
+    for (let i = 0; i < parts.length; i++) {
+      messages.push(await this.sendTextMessage(parts[i], {
+        ...options,
+        replyMarkup: i === parts.length - 1 ? options.replyMarkup : undefined,
+      }));
+    }
+
+    return messages;
+  }
+
+  /**
+   * Convert a file attachment to a Blob for multipart uploads
+   */
+  private async toBlob(file: FileAttachment): Promise<Blob> {
+    if (typeof file.data === 'string') {
+      // File path (Node.js only)
+      return new Blob([(await readLocalFile(file.data)) as BlobPart], { type: file.mimeType });
+    }
+
+    // Blob (e.g. an uploaded File) - send as-is without copying
+    if (file.data instanceof Blob) {
+      return file.mimeType && file.data.type !== file.mimeType
+        ? file.data.slice(0, file.data.size, file.mimeType)
+        : file.data;
+    }
+
+    // Uint8Array or Buffer
+    return new Blob([file.data as BlobPart], { type: file.mimeType });
+  }
+
+  /**
+   * Make a request to Telegram API.
+   * Retries network errors, 5xx responses and 429s (waiting the `retry_after`
+   * Telegram returns), and follows group chats migrated to a supergroup.
+   */
+  private async makeRequest<T = TelegramMessage>(
     url: string,
     body: any,
     isFormData: boolean = false
-  ): Promise<TelegramMessage> {
-    const maxRetries = 3;
+  ): Promise<T> {
+    const maxAttempts = this.retry.retries + 1;
     let lastError: Error | null = null;
+    let migrated = false;
 
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
       try {
         const headers: HeadersInit = isFormData
           ? {}
@@ -128,40 +650,62 @@ export class TelegramClient {
           body: isFormData ? body : JSON.stringify(body),
         });
 
-        const data: TelegramResponse = await response.json();
+        let data: TelegramResponse<T>;
+        try {
+          data = await response.json();
+        } catch {
+          throw new TelegramError(
+            `Invalid response from Telegram API (HTTP ${response.status})`,
+            response.status
+          );
+        }
 
         if (!data.ok) {
-          const error = new Error(
-            data.description || 'Telegram API error'
-          ) as TelegramError;
-          error.name = 'TelegramError';
-          error.code = data.error_code;
-          error.description = data.description;
-          throw error;
+          throw new TelegramError(
+            data.description || 'Telegram API error',
+            data.error_code,
+            data.description,
+            data.parameters
+          );
         }
 
-        if (!data.result) {
+        if (data.result === undefined) {
           throw new Error('No result from Telegram API');
         }
 
         return data.result;
       } catch (error) {
-        lastError = error as Error;
-
-        // Don't retry on client errors (4xx)
-        if (
-          error instanceof Error &&
-          'code' in error &&
-          typeof error.code === 'number' &&
-          error.code >= 400 &&
-          error.code < 500
-        ) {
+        // Network errors can include the request URL, which contains the bot token
+        lastError = redactError(error as Error, [this.botToken]);
+
+        // Group chat was upgraded to a supergroup - retry once against the new chat
+        const migrateToChatId = error instanceof TelegramError
+          ? error.parameters?.migrate_to_chat_id
+          : undefined;
+        if (migrateToChatId !== undefined && !migrated) {
+          migrated = true;
+          this.migrateChat(body, isFormData, String(migrateToChatId));
+          attempt--;
+          continue;
+        }
+
+        if (!this.isRetryable(error) || attempt >= maxAttempts) {
           throw error;
         }
 
-        // Wait before retry with exponential backoff
-        if (attempt < maxRetries) {
-          await this.delay(Math.pow(2, attempt) * 1000);
+        const retryAfter = error instanceof TelegramError
+          ? error.parameters?.retry_after
+          : undefined;
+
+        if (retryAfter !== undefined) {
+          const retryAfterMs = retryAfter * 1000;
+          // Don't hold the request open longer than configured
+          if (retryAfterMs > this.retry.maxRetryAfterMs) {
+            throw error;
+          }
+          await this.delay(retryAfterMs);
+        } else {
+          await this.delay(this.getBackoffDelay(attempt));
         }
       }
     }
@@ -170,10 +714,49 @@ export class TelegramClient {
   }
 
   /**
-   * Truncate message to Telegram's limit (4096 characters)
+   * Whether a failed request should be retried.
+   * Network errors, 429 Too Many Requests and 5xx errors are retryable; other 4xx errors are not.
+   */
+  private isRetryable(error: unknown): boolean {
+    if (error instanceof TelegramError && typeof error.code === 'number') {
+      return error.code === 429 || error.code >= 500;
+    }
+
+    return true;
+  }
+
+  /**
+   * Exponential backoff delay for an attempt, with random jitter
+   */
+  private getBackoffDelay(attempt: number): number {
+    const { minDelayMs, maxDelayMs, factor, jitter } = this.retry;
+    const delay = Math.min(maxDelayMs, minDelayMs * Math.pow(factor, attempt - 1));
+    const offset = delay * jitter * (Math.random() * 2 - 1);
+
+    return Math.max(0, Math.round(delay + offset));
+  }
+
+  /**
+   * Point a request (and this client's default chat) at a migrated chat id
+   */
+  private migrateChat(body: any, isFormData: boolean, newChatId: string): void {
+    const oldChatId = isFormData ? body.get('chat_id') : body.chat_id;
+
+    if (isFormData) {
+      body.set('chat_id', newChatId);
+    } else {
+      body.chat_id = newChatId;
+    }
+
+    if (String(oldChatId) === this.chatId) {
+      this.chatId = newChatId;
+    }
+  }
+
+  /**
+   * Truncate message to Telegram's limit (4096 characters, 1024 for captions)
    */
-  private truncateMessage(text: string): string {
-    const maxLength = 4096;
+  private truncateMessage(text: string, maxLength: number = MAX_MESSAGE_LENGTH): string {
     if (text.length <= maxLength) {
       return text;
     }
@@ -0,0 +1,172 @@
+import type { NotifySchema, ParseMode, TelegramNotifyRequest } from '../types';
+import { RequestBodyError } from './body';
+
+/**
+ * Error raised when a request body fails validation
+ */
+export class ValidationError extends RequestBodyError {
+  /** Error message per field (dotted paths such as `files.0.name`) */
+  fieldErrors: Record<string, string>;
+
+  constructor(fieldErrors: Record<string, string>) {
+    super(Object.values(fieldErrors)[0] || 'Invalid request body', 400);
+    this.name = 'ValidationError';
+    this.fieldErrors = fieldErrors;
+    Object.setPrototypeOf(this, ValidationError.prototype);
+  }
+}
+
+const PARSE_MODES: ParseMode[] = ['HTML', 'Markdown', 'MarkdownV2'];
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+
+/**
+ * Whether `atob` accepts a string: padding may only complete a group of four
+ * characters, and a single leftover character can't encode a byte
+ */
+function isBase64(value: string): boolean {
+  if (!BASE64_PATTERN.test(value)) return false;
+
+  const unpadded = value.length % 4 === 0 ? value.replace(/={1,2}$/, '') : value;
+  return !unpadded.includes('=') && unpadded.length % 4 !== 1;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function validateReplyMarkup(value: unknown): string | null {
+  if (!isObject(value) || !Array.isArray(value.inline_keyboard)) {
+    return 'replyMarkup must be an object with an inline_keyboard array';
+  }
+
+  for (const row of value.inline_keyboard) {
+    if (!Array.isArray(row)) {
+      return 'replyMarkup.inline_keyboard must be an array of button rows';
+    }
+    for (const button of row) {
+      if (!isObject(button) || typeof button.text !== 'string' || button.text === '') {
+        return 'Every replyMarkup button needs a text';
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validate a notification request body, throwing a `ValidationError` that
+ * lists every invalid field.
+ *
+ * Optional fields may be omitted or null. Unknown fields are allowed and left
+ * for a custom `schema` to check.
+ */
+export function validateNotifyRequest(body: unknown): TelegramNotifyRequest {
+  if (!isObject(body)) {
+    throw new ValidationError({ body: 'Request body must be a JSON object' });
+  }
+
+  const errors: Record<string, string> = {};
+
+  if (body.message === undefined || body.message === '') {
+    errors.message = 'Message is required';
+  } else if (typeof body.message !== 'string') {
+    errors.message = 'message must be a string';
+  }
+
+  if (body.parseMode != null && !PARSE_MODES.includes(body.parseMode as ParseMode)) {
+    errors.parseMode = `parseMode must be one of ${PARSE_MODES.join(', ')}`;
+  }
+
+  if (body.chatId != null && typeof body.chatId !== 'string' && !Number.isInteger(body.chatId)) {
+    errors.chatId = 'chatId must be a string or an integer';
+  }
+
+  for (const field of ['destination', 'captchaToken', 'honeypot', 'formToken']) {
+    if (body[field] != null && typeof body[field] !== 'string') {
+      errors[field] = `${field} must be a string`;
+    }
+  }
+
+  if (body.disableNotification != null && typeof body.disableNotification !== 'boolean') {
+    errors.disableNotification = 'disableNotification must be a boolean';
+  }
+
+  if (body.threadId != null && !(Number.isInteger(body.threadId) && (body.threadId as number) > 0)) {
+    errors.threadId = 'threadId must be a positive integer';
+  }
+
+  if (body.replyMarkup != null) {
+    const error = validateReplyMarkup(body.replyMarkup);
+    if (error) errors.replyMarkup = error;
+  }
+
+  if (body.files != null) {
+    if (!Array.isArray(body.files)) {
+      errors.files = 'files must be an array';
+    } else {
+      body.files.forEach((file: unknown, index) => {
+        if (!isObject(file)) {
+          errors[`files.${index}`] = 'Each file must be an object with name, data and type';
+          return;
+        }
+        if (typeof file.name !== 'string' || file.name === '') {
+          errors[`files.${index}.name`] = 'File name is required';
+        }
+        if (typeof file.data !== 'string' || !isBase64(file.data)) {
+          errors[`files.${index}.data`] = 'File data must be a base64-encoded string';
+        }
+        if (file.type !== undefined && typeof file.type !== 'string') {
+          errors[`files.${index}.type`] = 'File type must be a string';
+        }
+      });
+    }
+  }
+
+  if (Object.keys(errors).length > 0) {
+    throw new ValidationError(errors);
+  }
+
+  return body as unknown as TelegramNotifyRequest;
+}
+
+/**
+ * Turn schema library issues (Zod, Valibot, ...) into field errors
+ */
+function toFieldErrors(error: unknown): Record<string, string> {
+  const issues = isObject(error) && Array.isArray(error.issues) ? error.issues : null;
+
+  if (issues) {
+    const fieldErrors: Record<string, string> = {};
+    for (const issue of issues) {
+      if (!isObject(issue)) continue;
+      const path = Array.isArray(issue.path)
+        ? issue.path.map((segment) => (isObject(segment) ? segment.key : segment)).join('.')
+        : '';
+      fieldErrors[path || 'body'] ??= String(issue.message || 'Invalid value');
+    }
+    if (Object.keys(fieldErrors).length > 0) return fieldErrors;
+  }
+
+  return { body: error instanceof Error ? error.message : 'Invalid request body' };
+}
+
+/**
+ * Validate a request body against a user-supplied schema (anything with
+ * `safeParse` or `parse`), throwing a `ValidationError` on failure
+ */
+export async function validateWithSchema(schema: NotifySchema, body: unknown): Promise<void> {
+  if ('safeParse' in schema) {
+    const result = await schema.safeParse(body);
+    if (!result.success) {
+      throw new ValidationError(toFieldErrors(result.error));
+    }
+    return;
+  }
+
+  try {
+    await schema.parse(body);
+  } catch (error) {
+    throw new ValidationError(toFieldErrors(error));
+  }
+}
@@ -1,13 +1,433 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { sendTelegramNotification } from '../server/send';
-import type { TelegramNotifyRequest, TelegramNotifyResponse, FileAttachment, RateLimitConfig, CorsConfig } from '../types';
-import { RateLimiter, createDefaultRateLimiter, createGlobalRateLimiter } from '../lib/ratelimit';
+import { TelegramError } from '../types';
+import type { TelegramNotifyRequest, TelegramNotifyResponse, FileAttachment, SecurityConfig, CorsConfig, ParseMode, UploadLimits, RateLimitKeyGenerator, IpList, IpBlockedEvent, SpamCheckResult, NotifyErrorCode } from '../types';
+import { RateLimiter, createDefaultRateLimiter, createGlobalRateLimiter, keyByIp } from '../lib/ratelimit';
 import { getClientIp, createCorsHeaders, handleCorsPreflight, createDefaultCorsConfig, isOriginAllowed } from '../lib/security';
+import { parseMultipart, getMultipartBoundary, resolveUploadLimits, MultipartError } from '../lib/multipart';
+import { createIpMatcher } from '../lib/ip';
+import { createRequestAuthenticator } from '../lib/auth';
+import { createSpamFilter } from '../lib/spam';
+import { validateNotifyRequest, validateWithSchema, ValidationError } from '../lib/validation';
+import { logError } from '../lib/redact';
+import { readJsonBody, readBodyBytes, limitBodySize, checkContentLength, decodeBase64, RequestBodyError, DEFAULT_MAX_BODY_SIZE } from '../lib/body';
 
 // Global rate limiters (shared across all requests)
 let ipRateLimiter: RateLimiter | null = null;
 let globalRateLimiter: RateLimiter | null = null;
 
+// CORS for the default POST and OPTIONS exports
+const defaultCorsConfig = createDefaultCorsConfig();
+
+/**
+ * Read and validate the notification request from a JSON or multipart/form-data body.
+ * Multipart files are returned as Blobs and never base64-encoded.
+ * Pass `rawBody` when the body has already been read (e.g. to verify a signature).
+ */
+async function readNotifyRequest(
+  request: NextRequest,
+  options: { maxBodySize?: number; uploadLimits?: UploadLimits; rawBody?: Uint8Array } = {}
+): Promise<{ body: TelegramNotifyRequest; files?: FileAttachment[] }> {
+  const maxBodySize = options.maxBodySize ?? DEFAULT_MAX_BODY_SIZE;
+  const limits = resolveUploadLimits(options.uploadLimits);
+
+  checkContentLength(request.headers, maxBodySize);
+
+  const stream = options.rawBody ? new Blob([options.rawBody as BlobPart]).stream() : request.body;
+
+  const contentType = request.headers.get('content-type');
+
+  if (contentType?.toLowerCase().startsWith('multipart/form-data')) {
+    const boundary = getMultipartBoundary(contentType);
+    if (!boundary || !stream) {
+      throw new MultipartError('Invalid multipart/form-data request');
+    }
+
+    const { fields, files } = await parseMultipart(
+      limitBodySize(stream, maxBodySize),
+      boundary,
+      limits
+    );
+
+    return {
+      body: validateNotifyRequest(multipartFieldsToRequest(fields)),
+      files: files.length > 0 ? files : undefined,
+    };
+  }
+
+  const body = validateNotifyRequest(await readJsonBody<unknown>(stream, maxBodySize));
+
+  if (body.files && body.files.length > limits.maxFiles) {
+    throw new RequestBodyError(`Too many files (maximum is ${limits.maxFiles})`, 413);
+  }
+
+  // Decode base64 files if provided
+  let totalFileSize = 0;
+  const files: FileAttachment[] | undefined = body.files?.map((file) => {
+    const data = decodeBase64(file.data);
+
+    if (data.length > limits.maxFileSize) {
+      throw new RequestBodyError(
+        `File "${file.name}" exceeds the maximum size of ${limits.maxFileSize} bytes`,
+        413
+      );
+    }
+
+    totalFileSize += data.length;
+    if (totalFileSize > limits.maxTotalFileSize) {
+      throw new RequestBodyError(
+        `Attachments exceed the maximum total size of ${limits.maxTotalFileSize} bytes`,
+        413
+      );
+    }
+
+    return {
+      data,
+      filename: file.name,
+      mimeType: file.type,
+    };
+  });
+
+  return { body, files };
+}
+
+/**
+ * Map multipart/form-data text fields to a notification request. Other fields
+ * are passed through as strings, like unknown JSON fields, for a custom `schema`.
+ */
+function multipartFieldsToRequest(fields: Record<string, string>): TelegramNotifyRequest {
+  // Files are read from the file parts, never from a text field
+  const {
+    message, parseMode, chatId, destination, disableNotification, threadId,
+    captchaToken, honeypot, formToken, replyMarkup, files: _files, ...custom
+  } = fields;
+  const body: TelegramNotifyRequest = { ...custom, message: message || '' };
+
+  if (parseMode) {
+    body.parseMode = parseMode as ParseMode;
+  }
+
+  if (chatId) {
+    body.chatId = chatId;
+  }
+
+  if (destination) {
+    body.destination = destination;
+  }
+
+  if (disableNotification) {
+    body.disableNotification = disableNotification === 'true';
+  }
+
+  if (threadId) {
+    body.threadId = Number(threadId);
+  }
+
+  if (captchaToken) {
+    body.captchaToken = captchaToken;
+  }
+
+  if (honeypot) {
+    body.honeypot = honeypot;
+  }
+
+  if (formToken) {
+    body.formToken = formToken;
+  }
+
+  if (replyMarkup) {
+    try {
+      body.replyMarkup = JSON.parse(replyMarkup);
+    } catch {
+      throw new MultipartError('Invalid replyMarkup');
+    }
+  }
+
+  return body;
+}
+
+const PARSE_MODES: ParseMode[] = ['HTML', 'Markdown', 'MarkdownV2'];
+
+/**
+ * Resolve where a request may be sent.
+ *
+ * Clients pick a named destination or one of the allowed chat ids; any other
+ * client-supplied chat id or thread id is rejected, so the route can't be used
+ * to post into other chats the bot belongs to. Client-supplied keyboards are
+ * rejected unless `allowReplyMarkup` is set, as their buttons end up in front
+ * of whoever reads the chat.
+ */
+function resolveDestination(
+  body: TelegramNotifyRequest,
+  options: Pick<SecurityConfig, 'destinations' | 'allowedChatIds' | 'allowedParseModes' | 'allowReplyMarkup'> = {}
+): { allowed: true; chatId?: string; threadId?: number } | { allowed: false; status: number; error: string; code: NotifyErrorCode } {
+  const allowedParseModes = options.allowedParseModes || PARSE_MODES;
+  if (body.parseMode !== undefined && !allowedParseModes.includes(body.parseMode)) {
+    return { allowed: false, status: 400, error: 'Parse mode not allowed', code: 'VALIDATION_FAILED' };
+  }
+
+  if (body.replyMarkup !== undefined && body.replyMarkup !== null && !options.allowReplyMarkup) {
+    return { allowed: false, status: 400, error: 'Reply markup not allowed', code: 'VALIDATION_FAILED' };
+  }
+
+  const hasChatId = body.chatId !== undefined && body.chatId !== null;
+  const hasThreadId = body.threadId !== undefined && body.threadId !== null;
+
+  if (body.destination !== undefined && body.destination !== null) {
+    if (hasChatId || hasThreadId) {
+      return { allowed: false, status: 400, error: 'Use either destination or chatId, not both', code: 'VALIDATION_FAILED' };
+    }
+
+    const destinations = options.destinations || {};
+    if (!Object.prototype.hasOwnProperty.call(destinations, body.destination)) {
+      return { allowed: false, status: 400, error: 'Unknown destination', code: 'VALIDATION_FAILED' };
+    }
+
+    const destination = destinations[body.destination];
+    return {
+      allowed: true,
+      chatId: destination.chatId !== undefined ? String(destination.chatId) : undefined,
+      threadId: destination.threadId,
+    };
+  }
+
+  if (hasChatId || hasThreadId) {
+    // A thread id is only accepted together with an allowed chat id
+    const isAllowed = hasChatId && (options.allowedChatIds || []).some(
+      (allowed) => String(allowed) === String(body.chatId)
+    );
+
+    if (!isAllowed) {
+      return { allowed: false, status: 403, error: 'Chat not allowed', code: 'CHAT_NOT_ALLOWED' };
+    }
+  }
+
+  return {
+    allowed: true,
+    chatId: hasChatId ? String(body.chatId) : undefined,
+    threadId: hasThreadId ? body.threadId : undefined,
+  };
+}
+
+/**
+ * Map a Telegram API error to a response code
+ */
+function getTelegramErrorCode(error: TelegramError): NotifyErrorCode {
+  switch (error.code) {
+    case 400:
+      return /chat not found/i.test(error.description || error.message)
+        ? 'TELEGRAM_CHAT_NOT_FOUND'
+        : 'TELEGRAM_BAD_REQUEST';
+    case 401:
+    case 404:
+      // Telegram answers 404 for a malformed bot token
+      return 'TELEGRAM_UNAUTHORIZED';
+    case 403:
+      return 'TELEGRAM_FORBIDDEN';
+    case 429:
+      return 'TELEGRAM_RATE_LIMITED';
+    default:
+      return 'TELEGRAM_ERROR';
+  }
+}
+
+/**
+ * Build the response for an error thrown while handling a request.
+ *
+ * Body errors keep their status, Telegram errors answer 502 (503 with
+ * `Retry-After` when Telegram rate limits the bot) and anything else 500.
+ * Other than body errors, the error message is only sent in debug mode;
+ * `code` tells the client what went wrong.
+ */
+function errorResponse(
+  error: unknown,
+  options: { debug?: boolean; headers?: HeadersInit } = {}
+): NextResponse<TelegramNotifyResponse> {
+  const headers = options.headers || {};
+
+  if (error instanceof RequestBodyError) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: error.message,
+        code: error.status === 413 ? 'PAYLOAD_TOO_LARGE' : 'VALIDATION_FAILED',
+        ...(error instanceof ValidationError && { fieldErrors: error.fieldErrors }),
+      },
+      { status: error.status, headers }
+    );
+  }
+
+  const message = !options.debug
+    ? 'Failed to send notification'
+    : error instanceof Error ? error.message : 'Unknown error';
+
+  if (error instanceof TelegramError) {
+    const code = getTelegramErrorCode(error);
+    const retryAfter = error.parameters?.retry_after;
+
+    if (code === 'TELEGRAM_RATE_LIMITED') {
+      const responseHeaders = new Headers(headers);
+      if (retryAfter !== undefined) {
+        responseHeaders.set('Retry-After', String(retryAfter));
+      }
+      return NextResponse.json(
+        { success: false, error: message, code, retryAfter },
+        { status: 503, headers: responseHeaders }
+      );
+    }
+
+    return NextResponse.json({ success: false, error: message, code }, { status: 502, headers });
+  }
+
+  return NextResponse.json({ success: false, error: message, code: 'INTERNAL_ERROR' }, { status: 500, headers });
+}
+
+/**
+ * Secrets from the route config to scrub from errors and logs
+ */
+function getConfiguredSecrets(options: SecurityConfig = {}): string[] {
+  const hmacSecret = options.auth?.hmac?.secret;
+
+  return [
+    ...(options.redact || []),
+    ...(options.auth?.apiKeys || []),
+    ...(Array.isArray(hmacSecret) ? hmacSecret : hmacSecret ? [hmacSecret] : []),
+    ...(options.spamProtection?.secret ? [options.spamProtection.secret] : []),
+  ];
+}
+
+/**
+ * A rate limiter applied by createTelegramRoute
+ */
+interface RouteLimiter {
+  name: string;
+  limiter: RateLimiter;
+  keyGenerator: RateLimitKeyGenerator;
+}
+
+/** Limiter names become part of header names, so they must be HTTP tokens */
+const LIMITER_NAME_PATTERN = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+/**
+ * Reject limiter names that can't be used in a header name or that repeat,
+ * when the route is created rather than on every request
+ */
+function validateLimiterNames(limiters: RouteLimiter[]): void {
+  const seen = new Set<string>();
+
+  for (const { name } of limiters) {
+    if (!LIMITER_NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid rate limit name "${name}": it is used in header names, so use letters, digits, "-" or "_"`);
+    }
+    if (seen.has(name)) {
+      throw new Error(`Duplicate rate limit name "${name}"`);
+    }
+    seen.add(name);
+  }
+}
+
+/**
+ * Check a request against every limiter and record it only when all of them
+ * allow it, so a request blocked by one limiter doesn't use up the others.
+ * With `record` false the request is only checked.
+ *
+ * The standard X-RateLimit-* headers describe the limiter closest to its limit;
+ * with several limiters each one is also reported as X-RateLimit-*-<name>.
+ */
+async function applyRateLimits(
+  request: NextRequest,
+  limiters: RouteLimiter[],
+  record = true
+): Promise<{ retryAfter?: number; headers: Record<string, string> }> {
+  const reports: Array<{ name: string; limit: number; remaining: number; resetAt: number }> = [];
+  let retryAfter: number | undefined;
+
+  const keyed: Array<{ name: string; limiter: RateLimiter; key: string }> = [];
+  for (const { name, limiter, keyGenerator } of limiters) {
+    const key = await keyGenerator(request);
+    if (key) {
+      keyed.push({ name, limiter, key });
+    }
+  }
+
+  // With one limiter the check itself is enough; otherwise make sure every limiter has room first
+  if (keyed.length > 1 || !record) {
+    for (const { name, limiter, key } of keyed) {
+      const peek = await limiter.peek(key);
+      if (!peek.allowed) {
+        retryAfter = peek.retryAfter || 60;
+        reports.push({ name, limit: limiter.limit, remaining: 0, resetAt: Date.now() + retryAfter * 1000 });
+        break;
+      }
+    }
+  }
+
+  for (const { name, limiter, key } of retryAfter === undefined && record ? keyed : []) {
+    const check = await limiter.check(key);
+    const usage = await limiter.getUsage(key);
+
+    if (!check.allowed) {
+      // A single limiter blocks here; several only when a concurrent request took the last slot after the peek
+      retryAfter = check.retryAfter || 60;
+      reports.push({ name, limit: usage.limit, remaining: 0, resetAt: Date.now() + retryAfter * 1000 });
+      break;
+    }
+
+    reports.push({
+      name,
+      limit: usage.limit,
+      remaining: Math.max(0, usage.limit - usage.count),
+      resetAt: usage.resetAt,
+    });
+  }
+
+  const headers: Record<string, string> = {};
+  if (reports.length === 0) {
+    return { retryAfter, headers };
+  }
+
+  const closest = reports.reduce((a, b) => (b.remaining < a.remaining ? b : a));
+  headers['X-RateLimit-Limit'] = closest.limit.toString();
+  headers['X-RateLimit-Remaining'] = closest.remaining.toString();
+  headers['X-RateLimit-Reset'] = closest.resetAt.toString();
+
+  if (limiters.length > 1) {
+    for (const report of reports) {
+      headers[`X-RateLimit-Limit-${report.name}`] = report.limit.toString();
+      headers[`X-RateLimit-Remaining-${report.name}`] = report.remaining.toString();
+      headers[`X-RateLimit-Reset-${report.name}`] = report.resetAt.toString();
+    }
+  }
+
+  return { retryAfter, headers };
+}
+
+/**
+ * Compile a static list of addresses and ranges; runtime lists are used as-is
+ */
+function toIpList(list: string[] | IpList): IpList {
+  return Array.isArray(list) ? { has: createIpMatcher(list) } : list;
+}
+
+/**
+ * Check the client IP against the deny list, then the allow list
+ */
+async function checkIpAccess(
+  ip: string,
+  allowList: IpList | null,
+  denyList: IpList | null
+): Promise<IpBlockedEvent['reason'] | null> {
+  if (denyList && (await denyList.has(ip))) {
+    return 'denied';
+  }
+
+  if (allowList && !(await allowList.has(ip))) {
+    return 'not-allowed';
+  }
+
+  return null;
+}
+
 /**
  * Built-in API route handler for Next.js App Router with security features
  * 
@@ -15,7 +435,7 @@ let globalRateLimiter: RateLimiter | null = null;
  * Create a file at `app/api/telegram-notify/route.ts`:
  * 
  * ```ts
- * export { POST } from 'nextjs-telegram-notify/route';
+ * export { POST, OPTIONS } from 'nextjs-telegram-notify/route';
  * ```
  * 
  * Or with custom configuration:
@@ -23,7 +443,7 @@ let globalRateLimiter: RateLimiter | null = null;
  * ```ts
  * import { createTelegramRoute } from 'nextjs-telegram-notify/route';
  * 
- * export const POST = createTelegramRoute({
+ * export const { POST, OPTIONS } = createTelegramRoute({
  *   rateLimit: { maxRequests: 10, windowMs: 60000 },
  *   cors: { origin: 'https://yourdomain.com' }
  * });
@@ -38,21 +458,26 @@ export async function POST(request: NextRequest): Promise<NextResponse<TelegramN
     globalRateLimiter = createGlobalRateLimiter();
   }
 
+  const corsHeaders = createCorsHeaders(request, defaultCorsConfig);
+
   try {
     // Apply rate limiting
     const clientIp = getClientIp(request);
     
     // Check per-IP rate limit
-    const ipCheck = ipRateLimiter.check(clientIp);
+    const ipCheck = await ipRateLimiter.check(clientIp);
     if (!ipCheck.allowed) {
       return NextResponse.json(
         { 
           success: false, 
-          error: `Rate limit exceeded. Try again in ${ipCheck.retryAfter} seconds.` 
+          error: `Rate limit exceeded. Try again in ${ipCheck.retryAfter} seconds.`,
+          code: 'RATE_LIMITED',
+          retryAfter: ipCheck.retryAfter || 60,
         },
         { 
           status: 429,
           headers: {
+            ...corsHeaders,
             'Retry-After': ipCheck.retryAfter?.toString() || '60',
             'X-RateLimit-Limit': '20',
             'X-RateLimit-Remaining': '0',
@@ -63,55 +488,54 @@ export async function POST(request: NextRequest): Promise<NextResponse<TelegramN
     }
 
     // Check global rate limit (Telegram API limit)
-    const globalCheck = globalRateLimiter.check('global');
+    const globalCheck = await globalRateLimiter.check('global');
     if (!globalCheck.allowed) {
       return NextResponse.json(
         { 
           success: false, 
-          error: 'Server is busy. Please try again in a moment.' 
+          error: 'Server is busy. Please try again in a moment.',
+          code: 'SERVER_BUSY',
+          retryAfter: globalCheck.retryAfter || 1,
         },
         { 
           status: 503,
           headers: {
+            ...corsHeaders,
             'Retry-After': globalCheck.retryAfter?.toString() || '1',
           }
         }
       );
     }
 
-    const body: TelegramNotifyRequest = await request.json();
+    const { body, files: fileAttachments } = await readNotifyRequest(request);
 
-    const { message, parseMode, chatId, disableNotification, threadId, files } = body;
+    const { message, parseMode, disableNotification } = body;
 
-    if (!message) {
+    // The default route only sends to the configured chat, without client keyboards
+    const destination = resolveDestination(body);
+    if (!destination.allowed) {
       return NextResponse.json(
-        { success: false, error: 'Message is required' },
-        { status: 400 }
+        { success: false, error: destination.error, code: destination.code },
+        { status: destination.status, headers: corsHeaders }
       );
     }
 
-    // Convert base64 files back to Buffer if provided
-    const fileAttachments: FileAttachment[] | undefined = files?.map((file) => ({
-      data: Buffer.from(file.data, 'base64'),
-      filename: file.name,
-      mimeType: file.type,
-    }));
-
-    await sendTelegramNotification({
+    const result = await sendTelegramNotification({
       message,
       parseMode,
-      chatId,
+      chatId: destination.chatId,
       disableNotification,
-      threadId,
+      threadId: destination.threadId,
       files: fileAttachments,
     });
 
     // Add rate limit headers to successful response
-    const usage = ipRateLimiter.getUsage(clientIp);
+    const usage = await ipRateLimiter.getUsage(clientIp);
     return NextResponse.json(
-      { success: true },
+      { success: true, messageId: result.messageId, messageIds: result.messageIds },
       {
         headers: {
+          ...corsHeaders,
           'X-RateLimit-Limit': '20',
           'X-RateLimit-Remaining': (20 - usage.count).toString(),
           'X-RateLimit-Reset': usage.resetAt.toString(),
@@ -119,97 +543,259 @@ export async function POST(request: NextRequest): Promise<NextResponse<TelegramN
       }
     );
   } catch (error) {
-    console.error('Telegram notification error:', error);
-    
-    const errorMessage = error instanceof Error ? error.message : 'Failed to send notification';
-    
-    return NextResponse.json(
-      { success: false, error: errorMessage },
-      { status: 500 }
-    );
+    if (!(error instanceof RequestBodyError)) {
+      logError('Telegram notification error:', error, [process.env.TELEGRAM_BOT_TOKEN]);
+    }
+
+    return errorResponse(error, { debug: process.env.NODE_ENV === 'development', headers: corsHeaders });
   }
 }
 
 /**
- * Create a custom Telegram route handler with security and hook options
+ * Default CORS preflight handler, to export next to the default `POST`
+ *
+ * Allows any origin, like the default `POST` responses.
+ */
+export async function OPTIONS(request: NextRequest): Promise<NextResponse> {
+  return handleCorsPreflight(request, defaultCorsConfig) ?? new NextResponse(null, { status: 204 });
+}
+
+/**
+ * Options for createTelegramRoute and createTelegramApiHandler
  */
-export function createTelegramRoute(options?: {
-  rateLimit?: RateLimitConfig | false;
-  cors?: CorsConfig | false;
+export interface TelegramRouteOptions extends SecurityConfig {
+  /** Called before sending; set `request.replyMarkup` here to attach a keyboard built on the server */
   onBeforeSend?: (request: TelegramNotifyRequest) => Promise<void> | void;
   onAfterSend?: (request: TelegramNotifyRequest) => Promise<void> | void;
   onError?: (error: Error, request: TelegramNotifyRequest) => Promise<void> | void;
-}) {
+  onIpBlocked?: (event: IpBlockedEvent, request: NextRequest) => Promise<void> | void;
+  onSpam?: (result: SpamCheckResult, request: TelegramNotifyRequest) => Promise<void> | void;
+}
+
+/**
+ * Route returned by createTelegramRoute
+ */
+export interface TelegramNotifyRoute {
+  /**
+   * Handle a standard `Request` of any method, for frameworks and adapters
+   * outside the App Router (also kept for `export const { POST, OPTIONS } = createTelegramRoute()`)
+   */
+  (request: Request): Promise<NextResponse<TelegramNotifyResponse>>;
+  /** Send a notification */
+  POST: (request: NextRequest) => Promise<NextResponse<TelegramNotifyResponse>>;
+  /** Answer CORS preflight requests */
+  OPTIONS: (request: NextRequest) => Promise<NextResponse<TelegramNotifyResponse>>;
+  /** Issue a signed form token for `spamProtection.minFillTimeMs` (404 without `spamProtection.secret`) */
+  GET: (request: NextRequest) => Promise<NextResponse<TelegramNotifyResponse>>;
+}
+
+/**
+ * Create a custom Telegram route with security and hook options
+ *
+ * The App Router calls the `OPTIONS` export of a route file for CORS
+ * preflights, so export both handlers:
+ *
+ * ```ts
+ * export const { POST, OPTIONS } = createTelegramRoute({
+ *   allowedOrigins: ['https://yourdomain.com'],
+ * });
+ * ```
+ */
+export function createTelegramRoute(options?: TelegramRouteOptions): TelegramNotifyRoute {
+  const spamFilter = options?.spamProtection ? createSpamFilter(options.spamProtection) : null;
+  const authenticator = options?.auth ? createRequestAuthenticator(options.auth) : null;
+  const debug = options?.debug ?? process.env.NODE_ENV === 'development';
+  const secrets = getConfiguredSecrets(options);
+  const ipAllowList = options?.ipAllowList ? toIpList(options.ipAllowList) : null;
+  const ipDenyList = options?.ipDenyList ? toIpList(options.ipDenyList) : null;
+
   // Create custom rate limiters if provided
-  const customIpLimiter = options?.rateLimit !== false && typeof options?.rateLimit === 'object'
-    ? new RateLimiter(options.rateLimit)
-    : options?.rateLimit === false ? null : undefined;
-  
-  const customGlobalLimiter = options?.rateLimit !== false && typeof options?.rateLimit === 'object'
-    ? createGlobalRateLimiter()
-    : options?.rateLimit === false ? null : undefined;
+  const rateLimitConfigs = options?.rateLimit === false
+    ? []
+    : Array.isArray(options?.rateLimit) ? options.rateLimit : options?.rateLimit ? [options.rateLimit] : undefined;
+
+  const customLimiters: RouteLimiter[] | undefined = rateLimitConfigs?.map((config, index) => {
+    const name = config.name || String(index + 1);
+    // Limiters sharing a store would otherwise count every request in the same key
+    const prefix = config.prefix ?? (rateLimitConfigs.length > 1 ? name : undefined);
+
+    return {
+      name,
+      limiter: new RateLimiter({ ...config, prefix }),
+      keyGenerator: config.keyGenerator || keyByIp(options?.trustProxy),
+    };
+  });
+  if (customLimiters) {
+    validateLimiterNames(customLimiters);
+  }
 
-  const corsConfig = options?.cors === false ? null : (options?.cors || createDefaultCorsConfig());
+  const globalStore = typeof options?.globalRateLimit === 'object' ? options.globalRateLimit.store : undefined;
+  const customGlobalLimiter = options?.globalRateLimit === false
+    ? null
+    : options?.rateLimit === false
+      ? (options?.globalRateLimit ? createGlobalRateLimiter(globalStore) : null)
+      : typeof options?.rateLimit === 'object' || globalStore ? createGlobalRateLimiter(globalStore) : undefined;
+
+  const corsConfig: CorsConfig | null = options?.cors === false
+    ? null
+    : options?.cors || (options?.allowedOrigins
+      ? { ...createDefaultCorsConfig(), origin: options.allowedOrigins }
+      : createDefaultCorsConfig());
+
+  /**
+   * Reject clients outside the IP allow and deny lists
+   */
+  async function rejectBlockedIp(request: NextRequest): Promise<NextResponse<TelegramNotifyResponse> | null> {
+    if (!ipAllowList && !ipDenyList) return null;
+
+    const ip = getClientIp(request, options?.trustProxy);
+    const reason = await checkIpAccess(ip, ipAllowList, ipDenyList);
+    if (!reason) return null;
+
+    if (options?.onIpBlocked) {
+      await options.onIpBlocked({ ip, reason }, request);
+    }
 
-  return async function handler(request: NextRequest): Promise<NextResponse<TelegramNotifyResponse>> {
-    try {
-      // Handle CORS preflight
-      if (corsConfig && request.method === 'OPTIONS') {
-        const preflightResponse = handleCorsPreflight(request, corsConfig);
-        if (preflightResponse) return preflightResponse as NextResponse<TelegramNotifyResponse>;
+    const headers = corsConfig ? createCorsHeaders(request, corsConfig) : {};
+    return NextResponse.json(
+      { success: false, error: 'IP address not allowed', code: 'IP_DENIED' },
+      { status: 403, headers }
+    );
+  }
+
+  /**
+   * Apply the per-client rate limits; every limiter has to allow the request
+   */
+  async function limitRequest(
+    request: NextRequest,
+    record = true
+  ): Promise<{ headers: Record<string, string>; response: NextResponse<TelegramNotifyResponse> | null }> {
+    // Initialize the default rate limiter if not already created and no custom ones
+    if (customLimiters === undefined && !ipRateLimiter) {
+      ipRateLimiter = createDefaultRateLimiter();
+    }
+
+    // Use custom rate limiters (empty when disabled) or fall back to the global default
+    const limiters = customLimiters || [{ name: 'ip', limiter: ipRateLimiter!, keyGenerator: keyByIp(options?.trustProxy) }];
+
+    const rateLimit = await applyRateLimits(request, limiters, record);
+    if (rateLimit.retryAfter === undefined) {
+      return { headers: rateLimit.headers, response: null };
+    }
+
+    const headers = corsConfig ? createCorsHeaders(request, corsConfig) : {};
+    const response = NextResponse.json<TelegramNotifyResponse>(
+      { 
+        success: false, 
+        error: `Rate limit exceeded. Try again in ${rateLimit.retryAfter} seconds.`,
+        code: 'RATE_LIMITED',
+        retryAfter: rateLimit.retryAfter,
+      },
+      { 
+        status: 429,
+        headers: {
+          ...headers,
+          'Retry-After': rateLimit.retryAfter.toString(),
+          ...rateLimit.headers,
+        }
       }
+    );
+    return { headers: rateLimit.headers, response };
+  }
+
+  async function GET(request: NextRequest): Promise<NextResponse<TelegramNotifyResponse>> {
+    const headers = corsConfig ? createCorsHeaders(request, corsConfig) : {};
+
+    if (!options?.spamProtection?.secret) {
+      return NextResponse.json({ success: false, error: 'Not found', code: 'NOT_FOUND' }, { status: 404, headers });
+    }
+
+    try {
+      // Blocked and rate limited clients don't get tokens; fetching one doesn't use up the limit
+      const blocked = await rejectBlockedIp(request);
+      if (blocked) return blocked;
 
-      // Use custom rate limiters or fall back to global defaults
-      const ipLimiter = customIpLimiter !== undefined ? customIpLimiter : ipRateLimiter;
-      const globalLimiter = customGlobalLimiter !== undefined ? customGlobalLimiter : globalRateLimiter;
+      const rateLimit = await limitRequest(request, false);
+      if (rateLimit.response) return rateLimit.response;
 
-      // Initialize default rate limiters if not already created and no custom ones
-      if (!ipLimiter && customIpLimiter === undefined && !ipRateLimiter) {
-        ipRateLimiter = createDefaultRateLimiter();
+      return NextResponse.json(
+        { success: true, formToken: await spamFilter!.issueFormToken() },
+        { headers: { ...headers, ...rateLimit.headers, 'Cache-Control': 'no-store' } }
+      );
+    } catch (error) {
+      logError('Telegram form token error:', error, [process.env.TELEGRAM_BOT_TOKEN, ...secrets]);
+      return errorResponse(error, { debug, headers });
+    }
+  }
+
+  async function OPTIONS(request: NextRequest): Promise<NextResponse<TelegramNotifyResponse>> {
+    const response = corsConfig
+      ? handleCorsPreflight(request, corsConfig)
+      : new NextResponse(null, { status: 204, headers: { Allow: 'POST, OPTIONS' } });
+
+    return response as NextResponse<TelegramNotifyResponse>;
+  }
+
+  async function POST(request: NextRequest): Promise<NextResponse<TelegramNotifyResponse>> {
+    let body: TelegramNotifyRequest | undefined;
+
+    try {
+      // Network-level access control, before the request counts against any limit
+      const blocked = await rejectBlockedIp(request);
+      if (blocked) return blocked;
+
+      // CORS validation, so requests from other origins don't use up the rate limit
+      if (corsConfig) {
+        const origin = request.headers.get('origin');
+        if (origin && !isOriginAllowed(origin, corsConfig, request)) {
+          return NextResponse.json(
+            { success: false, error: 'Origin not allowed', code: 'ORIGIN_DENIED' },
+            { status: 403, headers: { Vary: 'Origin' } }
+          );
+        }
       }
-      if (!globalLimiter && customGlobalLimiter === undefined && !globalRateLimiter) {
+
+      // Initialize the default global limiter if not already created
+      if (customGlobalLimiter === undefined && !globalRateLimiter) {
         globalRateLimiter = createGlobalRateLimiter();
       }
+      const finalGlobalLimiter = customGlobalLimiter !== undefined ? customGlobalLimiter : globalRateLimiter;
+
+      // Apply rate limiting if enabled; every limiter has to allow the request
+      const rateLimit = await limitRequest(request);
+      if (rateLimit.response) return rateLimit.response;
+
+      // Authenticate before unauthenticated requests can use up the global limit
+      let rawBody: Uint8Array | undefined;
+      if (authenticator) {
+        if (authenticator.requiresBody) {
+          const maxBodySize = options?.maxBodySize ?? DEFAULT_MAX_BODY_SIZE;
+          checkContentLength(request.headers, maxBodySize);
+          rawBody = await readBodyBytes(request.body, maxBodySize);
+        }
 
-      const clientIp = getClientIp(request);
-      const finalIpLimiter = ipLimiter || ipRateLimiter;
-      const finalGlobalLimiter = globalLimiter || globalRateLimiter;
-
-      // Apply rate limiting if enabled
-      if (finalIpLimiter) {
-        const ipCheck = finalIpLimiter.check(clientIp);
-        if (!ipCheck.allowed) {
+        if (!(await authenticator.authenticate(request, rawBody))) {
           const headers = corsConfig ? createCorsHeaders(request, corsConfig) : {};
-          const maxRequests = typeof options?.rateLimit === 'object' 
-            ? options.rateLimit.maxRequests 
-            : 20;
           return NextResponse.json(
-            { 
-              success: false, 
-              error: `Rate limit exceeded. Try again in ${ipCheck.retryAfter} seconds.` 
-            },
-            { 
-              status: 429,
-              headers: {
-                ...headers,
-                'Retry-After': ipCheck.retryAfter?.toString() || '60',
-                'X-RateLimit-Limit': maxRequests.toString(),
-                'X-RateLimit-Remaining': '0',
-                'X-RateLimit-Reset': Date.now().toString(),
-              }
+            { success: false, error: 'Unauthorized', code: 'UNAUTHORIZED' },
+            {
+              status: 401,
+              headers: options?.auth?.apiKeys ? { ...headers, 'WWW-Authenticate': 'Bearer' } : headers,
             }
           );
         }
       }
 
       if (finalGlobalLimiter) {
-        const globalCheck = finalGlobalLimiter.check('global');
+        const globalCheck = await finalGlobalLimiter.check('global');
         if (!globalCheck.allowed) {
           const headers = corsConfig ? createCorsHeaders(request, corsConfig) : {};
           return NextResponse.json(
             { 
               success: false, 
-              error: 'Server is busy. Please try again in a moment.' 
+              error: 'Server is busy. Please try again in a moment.',
+              code: 'SERVER_BUSY',
+              retryAfter: globalCheck.retryAfter || 1,
             },
             { 
               status: 503,
@@ -222,47 +808,93 @@ export function createTelegramRoute(options?: {
         }
       }
 
-      // CORS validation
-      if (corsConfig) {
-        const origin = request.headers.get('origin');
-        if (origin && !isOriginAllowed(origin, corsConfig)) {
+      const notifyRequest = await readNotifyRequest(request, {
+        maxBodySize: options?.maxBodySize,
+        uploadLimits: options?.uploadLimits,
+        rawBody,
+      });
+      body = notifyRequest.body;
+      const fileAttachments = notifyRequest.files;
+
+      if (options?.captcha) {
+        const headers = corsConfig ? createCorsHeaders(request, corsConfig) : {};
+
+        if (!body.captchaToken) {
           return NextResponse.json(
-            { success: false, error: 'Origin not allowed' },
-            { status: 403 }
+            { success: false, error: 'CAPTCHA token is required', code: 'CAPTCHA_REQUIRED' },
+            { status: 400, headers }
           );
         }
-      }
 
-      const body: TelegramNotifyRequest = await request.json();
+        const captcha = await options.captcha.verify(body.captchaToken, {
+          ip: getClientIp(request, options.trustProxy),
+          request,
+        });
+        if (!captcha.success) {
+          return NextResponse.json(
+            { success: false, error: 'CAPTCHA verification failed', code: 'CAPTCHA_FAILED' },
+            { status: 403, headers }
+          );
+        }
+      }
 
-      const { message, parseMode, chatId, disableNotification, threadId, files } = body;
+      const { message, parseMode, disableNotification } = body;
 
-      if (!message) {
+      const destination = resolveDestination(body, options);
+      if (!destination.allowed) {
         const headers = corsConfig ? createCorsHeaders(request, corsConfig) : {};
         return NextResponse.json(
-          { success: false, error: 'Message is required' },
-          { status: 400, headers }
+          { success: false, error: destination.error, code: destination.code },
+          { status: destination.status, headers }
         );
       }
 
+      if (options?.schema) {
+        await validateWithSchema(options.schema, body);
+      }
+
+      let target = { message, chatId: destination.chatId, threadId: destination.threadId };
+
+      if (spamFilter) {
+        const spam = await spamFilter.check(body);
+
+        if (spam.spam) {
+          if (options?.onSpam) {
+            await options.onSpam(spam, body);
+          }
+
+          if (options?.spamProtection?.action !== 'moderate') {
+            // Answer like a successful send, so bots don't learn they were caught
+            const headers = corsConfig ? createCorsHeaders(request, corsConfig) : {};
+            return NextResponse.json(
+              { success: true, messageId: 0, messageIds: [] },
+              { headers: { ...headers, ...rateLimit.headers } }
+            );
+          }
+
+          // The label avoids characters that need escaping in any parse mode
+          const reasons = spam.reasons.map((reason) => reason.replace(/-/g, ' ')).join(', ');
+          target = {
+            message: `⚠️ Suspected spam: ${reasons}\n\n${message}`,
+            chatId: String(options.spamProtection.moderationChatId),
+            threadId: undefined,
+          };
+        }
+      }
+
       // Call before send hook
       if (options?.onBeforeSend) {
         await options.onBeforeSend(body);
       }
 
-      // Convert base64 files back to Buffer if provided
-      const fileAttachments: FileAttachment[] | undefined = files?.map((file) => ({
-        data: Buffer.from(file.data, 'base64'),
-        filename: file.name,
-        mimeType: file.type,
-      }));
-
-      await sendTelegramNotification({
-        message,
+      const result = await sendTelegramNotification({
+        message: target.message,
         parseMode,
-        chatId,
+        chatId: target.chatId,
         disableNotification,
-        threadId,
+        threadId: target.threadId,
+        // Read after onBeforeSend, which may attach a server-built keyboard
+        replyMarkup: body.replyMarkup,
         files: fileAttachments,
       });
 
@@ -275,39 +907,41 @@ export function createTelegramRoute(options?: {
       const responseHeaders = corsConfig ? createCorsHeaders(request, corsConfig) : {};
       
       // Add rate limit headers to successful response
-      if (finalIpLimiter) {
-        const usage = finalIpLimiter.getUsage(clientIp);
-        const maxRequests = typeof options?.rateLimit === 'object'
-          ? options.rateLimit.maxRequests 
-          : 20;
-        Object.assign(responseHeaders, {
-          'X-RateLimit-Limit': maxRequests.toString(),
-          'X-RateLimit-Remaining': (maxRequests - usage.count).toString(),
-          'X-RateLimit-Reset': usage.resetAt.toString(),
-        });
-      }
+      Object.assign(responseHeaders, rateLimit.headers);
 
       return NextResponse.json(
-        { success: true },
+        { success: true, messageId: result.messageId, messageIds: result.messageIds },
         { headers: responseHeaders }
       );
     } catch (error) {
-      console.error('Telegram notification error:', error);
+      const headers = corsConfig ? createCorsHeaders(request, corsConfig) : {};
+
+      if (error instanceof RequestBodyError) {
+        return errorResponse(error, { headers });
+      }
+
+      // Scrubs the error in place, so onError and the response don't see secrets either
+      logError('Telegram notification error:', error, [process.env.TELEGRAM_BOT_TOKEN, ...secrets]);
 
       const err = error instanceof Error ? error : new Error('Unknown error');
-      const body: TelegramNotifyRequest = await request.json().catch(() => ({ message: '' }));
 
-      // Call error hook
+      // Call error hook with the body read above (it can't be read twice)
       if (options?.onError) {
-        await options.onError(err, body);
+        await options.onError(err, body || { message: '' });
       }
 
-      const headers = corsConfig ? createCorsHeaders(request, corsConfig) : {};
-
-      return NextResponse.json(
-        { success: false, error: err.message },
-        { status: 500, headers }
-      );
+      return errorResponse(err, { debug, headers });
     }
+  }
+
+  // Calling the route directly still works for `export const { POST, OPTIONS } = createTelegramRoute()`
+  const route = (request: Request) => {
+    const nextRequest = request instanceof NextRequest ? request : new NextRequest(request);
+
+    if (nextRequest.method === 'OPTIONS') return OPTIONS(nextRequest);
+    if (nextRequest.method === 'GET') return GET(nextRequest);
+    return POST(nextRequest);
   };
+
+  return Object.assign(route, { GET, POST, OPTIONS });
 }
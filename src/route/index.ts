@@ -1 +1,12 @@
-export { POST, createTelegramRoute } from './handler';
+export { POST, OPTIONS, createTelegramRoute } from './handler';
+export type { TelegramNotifyRoute, TelegramRouteOptions } from './handler';
+export { createTelegramApiHandler } from './pages';
+export { createTelegramWebhookRoute } from './webhook';
+export type {
+  TelegramWebhookRoute,
+  WebhookContext,
+  MessageContext,
+  CommandContext,
+  ReplyContext,
+  CallbackQueryContext,
+} from './webhook';
@@ -0,0 +1,113 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { NextRequest } from 'next/server';
+import { createTelegramRoute } from './handler';
+import type { TelegramRouteOptions } from './handler';
+
+const encoder = new TextEncoder();
+
+/**
+ * Stream the body of a Node.js request without importing Node modules
+ */
+function toBodyStream(req: NextApiRequest): ReadableStream<Uint8Array> {
+  const iterator = (req as AsyncIterable<Uint8Array | string>)[Symbol.asyncIterator]();
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await iterator.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(typeof value === 'string' ? encoder.encode(value) : new Uint8Array(value));
+      }
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+}
+
+/**
+ * Convert a Pages Router request to the `Request` the route handlers take.
+ *
+ * With Next.js' body parser enabled the body has already been consumed, so it
+ * is serialized again from `req.body`; the original bytes are only available
+ * with `bodyParser: false`.
+ */
+function toRequest(req: NextApiRequest): NextRequest {
+  const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+  const method = req.method || 'GET';
+
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (Array.isArray(value)) {
+      value.forEach((item) => headers.append(name, item));
+    } else if (value !== undefined) {
+      headers.set(name, value);
+    }
+  }
+
+  let body: BodyInit | undefined;
+  if (method !== 'GET' && method !== 'HEAD') {
+    if (req.body === undefined) {
+      body = toBodyStream(req);
+    } else {
+      body = typeof req.body === 'string' || req.body instanceof Uint8Array
+        ? (req.body as BodyInit)
+        : JSON.stringify(req.body);
+      // The parsed body may not match the declared length any more
+      headers.delete('content-length');
+    }
+  }
+
+  const request = new NextRequest(url, { method, headers, body, duplex: 'half' });
+
+  // Used as the client IP when no trusted forwarding header applies
+  Object.defineProperty(request, 'ip', { value: req.socket?.remoteAddress });
+
+  return request;
+}
+
+/**
+ * Write a route handler's `Response` to a Pages Router response
+ */
+async function sendResponse(res: NextApiResponse, response: Response): Promise<void> {
+  res.status(response.status);
+  response.headers.forEach((value, name) => {
+    res.setHeader(name, value);
+  });
+  res.end(new Uint8Array(await response.arrayBuffer()));
+}
+
+/**
+ * Create an API route handler for the Pages Router (`pages/api`).
+ *
+ * Takes the same options as `createTelegramRoute` and shares its rate
+ * limiting, CORS, validation and hooks. Disable Next.js' body parser so
+ * file uploads, body size limits and HMAC signatures see the raw body:
+ *
+ * ```ts
+ * // pages/api/telegram-notify.ts
+ * import { createTelegramApiHandler } from 'nextjs-telegram-notify/route';
+ *
+ * export const config = { api: { bodyParser: false } };
+ *
+ * export default createTelegramApiHandler({
+ *   rateLimit: { maxRequests: 10, windowMs: 60000 },
+ * });
+ * ```
+ */
+export function createTelegramApiHandler(
+  options?: TelegramRouteOptions
+): (req: NextApiRequest, res: NextApiResponse) => Promise<void> {
+  const route = createTelegramRoute(options);
+
+  return async (req, res) => {
+    if (req.method !== 'GET' && req.method !== 'POST' && req.method !== 'OPTIONS') {
+      res.setHeader('Allow', 'GET, POST, OPTIONS');
+      res.status(405).json({ success: false, error: 'Method not allowed', code: 'METHOD_NOT_ALLOWED' });
+      return;
+    }
+
+    await sendResponse(res, await route(toRequest(req)));
+  };
+}
@@ -0,0 +1,318 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { TelegramClient } from '../lib/telegram';
+import { createTelegramClient } from '../server/send';
+import { safeCompare } from '../lib/security';
+import { logError } from '../lib/redact';
+import type {
+  ParseMode,
+  InlineKeyboardMarkup,
+  TelegramMessage,
+  TelegramCallbackQuery,
+  TelegramUpdate,
+} from '../types';
+
+/**
+ * Shared context passed to every webhook handler
+ */
+export interface WebhookContext {
+  /** The raw update received from Telegram */
+  update: TelegramUpdate;
+  /** Client for calling the Bot API */
+  client: TelegramClient;
+}
+
+/**
+ * Context for message handlers
+ */
+export interface MessageContext extends WebhookContext {
+  message: TelegramMessage;
+  /** Send a message to the same chat (and forum topic) */
+  reply: (
+    text: string,
+    options?: { parseMode?: ParseMode; replyMarkup?: InlineKeyboardMarkup }
+  ) => Promise<TelegramMessage>;
+}
+
+/**
+ * Context for command handlers, e.g. `/status verbose`
+ */
+export interface CommandContext extends MessageContext {
+  /** Command without the bot username, e.g. `/status` */
+  command: string;
+  /** Whitespace-separated arguments after the command */
+  args: string[];
+}
+
+/**
+ * Context for replies to a message sent by the bot
+ */
+export interface ReplyContext extends MessageContext {
+  /** The bot message that was replied to */
+  replyTo: TelegramMessage;
+}
+
+/**
+ * Context for inline keyboard callback queries
+ */
+export interface CallbackQueryContext extends WebhookContext {
+  callbackQuery: TelegramCallbackQuery;
+  /** Callback data of the pressed button */
+  data: string;
+  /** Answer the query; called automatically with no text if the handler doesn't */
+  answer: (options?: { text?: string; showAlert?: boolean }) => Promise<void>;
+}
+
+type WebhookHandler<T> = (context: T) => Promise<void> | void;
+
+/**
+ * Route returned by createTelegramWebhookRoute
+ */
+export interface TelegramWebhookRoute {
+  /** Route handler to export from `app/api/.../route.ts` */
+  POST: (request: NextRequest) => Promise<NextResponse>;
+  /** Handle a bot command such as `/status` */
+  onCommand: (command: string, handler: WebhookHandler<CommandContext>) => TelegramWebhookRoute;
+  /** Handle callback button presses, optionally only those whose data matches a prefix or RegExp */
+  onCallbackQuery: {
+    (handler: WebhookHandler<CallbackQueryContext>): TelegramWebhookRoute;
+    (match: string | RegExp, handler: WebhookHandler<CallbackQueryContext>): TelegramWebhookRoute;
+  };
+  /** Handle messages that are not commands or replies to the bot */
+  onMessage: (handler: WebhookHandler<MessageContext>) => TelegramWebhookRoute;
+  /** Handle replies to messages sent by the bot (e.g. replies to a notification) */
+  onReply: (handler: WebhookHandler<ReplyContext>) => TelegramWebhookRoute;
+}
+
+/**
+ * Create a route that receives Telegram updates via webhook
+ *
+ * Every request must carry the `X-Telegram-Bot-Api-Secret-Token` header set
+ * when registering the webhook (`secretToken` option or the
+ * `TELEGRAM_WEBHOOK_SECRET` environment variable).
+ *
+ * @example
+ * ```ts
+ * // app/api/telegram-webhook/route.ts
+ * import { createTelegramWebhookRoute } from 'nextjs-telegram-notify/route';
+ *
+ * const webhook = createTelegramWebhookRoute({ allowedChatIds: [process.env.TELEGRAM_CHAT_ID!] })
+ *   .onCommand('/status', async ({ reply }) => {
+ *     await reply('All systems operational ✅');
+ *   })
+ *   .onCallbackQuery('handled:', async ({ data, answer }) => {
+ *     await markHandled(data.slice('handled:'.length));
+ *     await answer({ text: 'Marked as handled' });
+ *   });
+ *
+ * export const POST = webhook.POST;
+ * ```
+ */
+export function createTelegramWebhookRoute(options?: {
+  /** Secret token to expect in the X-Telegram-Bot-Api-Secret-Token header (defaults to TELEGRAM_WEBHOOK_SECRET), or false to skip the check */
+  secretToken?: string | false;
+  /** Only handle updates from these chats */
+  allowedChatIds?: (string | number)[];
+  /** Client used to answer updates (defaults to one configured from environment variables) */
+  client?: TelegramClient;
+  /** The bot's username, used to ignore `/command@OtherBot` in groups (fetched with getMe when not set) */
+  botUsername?: string;
+  /** Called when a handler throws; Telegram still receives a 200 so the update isn't redelivered */
+  onError?: (error: Error, update: TelegramUpdate) => Promise<void> | void;
+}): TelegramWebhookRoute {
+  const commandHandlers = new Map<string, WebhookHandler<CommandContext>>();
+  const callbackHandlers: Array<{ match?: string | RegExp; handler: WebhookHandler<CallbackQueryContext> }> = [];
+  const messageHandlers: WebhookHandler<MessageContext>[] = [];
+  const replyHandlers: WebhookHandler<ReplyContext>[] = [];
+
+  let client: TelegramClient | null = options?.client || null;
+  const getClient = () => {
+    if (!client) {
+      client = createTelegramClient();
+    }
+    return client;
+  };
+
+  let botUsername: Promise<string | undefined> | null = options?.botUsername !== undefined
+    ? Promise.resolve(options.botUsername)
+    : null;
+  const getBotUsername = () => {
+    if (!botUsername) {
+      botUsername = getClient().getMe().then((me) => me.username);
+      // Ask again on the next command if the lookup failed
+      botUsername.catch(() => {
+        botUsername = null;
+      });
+    }
+    return botUsername;
+  };
+
+  const isChatAllowed = (chatId: number | undefined) => {
+    if (!options?.allowedChatIds) return true;
+    if (chatId === undefined) return false;
+    return options.allowedChatIds.some((allowed) => String(allowed) === String(chatId));
+  };
+
+  const createMessageContext = (update: TelegramUpdate, message: TelegramMessage): MessageContext => ({
+    update,
+    client: getClient(),
+    message,
+    reply: (text, replyOptions = {}) =>
+      getClient().sendMessage(text, {
+        chatId: String(message.chat.id),
+        threadId: message.message_thread_id,
+        ...replyOptions,
+      }),
+  });
+
+  const handleMessage = async (update: TelegramUpdate, message: TelegramMessage) => {
+    const text = message.text || '';
+
+    if (text.startsWith('/')) {
+      const [token, ...args] = text.trim().split(/\s+/);
+      const [name, target] = token.split('@');
+
+      // In groups, `/command@OtherBot` is meant for another bot
+      if (target !== undefined && target.toLowerCase() !== (await getBotUsername())?.toLowerCase()) {
+        return;
+      }
+
+      const command = name.toLowerCase();
+      const handler = commandHandlers.get(command);
+
+      if (handler) {
+        await handler({ ...createMessageContext(update, message), command, args });
+        return;
+      }
+    }
+
+    const replyTo = message.reply_to_message;
+    if (replyTo?.from?.is_bot && replyHandlers.length > 0) {
+      for (const handler of replyHandlers) {
+        await handler({ ...createMessageContext(update, message), replyTo });
+      }
+      return;
+    }
+
+    for (const handler of messageHandlers) {
+      await handler(createMessageContext(update, message));
+    }
+  };
+
+  const handleCallbackQuery = async (update: TelegramUpdate, callbackQuery: TelegramCallbackQuery) => {
+    const data = callbackQuery.data || '';
+    const entry = callbackHandlers.find(({ match }) => {
+      if (match === undefined) return true;
+      if (typeof match === 'string') return data.startsWith(match);
+      return match.test(data);
+    });
+
+    let answered = false;
+    const answer = async (answerOptions: { text?: string; showAlert?: boolean } = {}) => {
+      if (answered) return;
+      answered = true;
+      await getClient().answerCallbackQuery(callbackQuery.id, answerOptions);
+    };
+
+    try {
+      if (entry) {
+        await entry.handler({ update, client: getClient(), callbackQuery, data, answer });
+      }
+    } finally {
+      // Stop the loading indicator on the button even if the handler failed
+      await answer().catch(() => undefined);
+    }
+  };
+
+  const POST = async (request: NextRequest): Promise<NextResponse> => {
+    const secretToken = options?.secretToken ?? process.env.TELEGRAM_WEBHOOK_SECRET;
+
+    if (secretToken !== false) {
+      if (!secretToken) {
+        console.error('Telegram webhook error: TELEGRAM_WEBHOOK_SECRET is not set');
+        return NextResponse.json(
+          { ok: false, error: 'Webhook secret is not configured' },
+          { status: 500 }
+        );
+      }
+
+      const header = request.headers.get('x-telegram-bot-api-secret-token') || '';
+      if (!safeCompare(header, secretToken)) {
+        return NextResponse.json(
+          { ok: false, error: 'Invalid secret token' },
+          { status: 401 }
+        );
+      }
+    }
+
+    let update: TelegramUpdate;
+    try {
+      update = await request.json();
+    } catch {
+      return NextResponse.json(
+        { ok: false, error: 'Invalid update' },
+        { status: 400 }
+      );
+    }
+
+    if (!update || typeof update.update_id !== 'number') {
+      return NextResponse.json(
+        { ok: false, error: 'Invalid update' },
+        { status: 400 }
+      );
+    }
+
+    try {
+      const message = update.message || update.channel_post;
+      const callbackQuery = update.callback_query;
+
+      if (message && isChatAllowed(message.chat.id)) {
+        await handleMessage(update, message);
+      } else if (callbackQuery && isChatAllowed(callbackQuery.message?.chat.id)) {
+        await handleCallbackQuery(update, callbackQuery);
+      }
+    } catch (error) {
+      logError('Telegram webhook error:', error, [
+        process.env.TELEGRAM_BOT_TOKEN,
+        typeof secretToken === 'string' ? secretToken : undefined,
+      ]);
+
+      const err = error instanceof Error ? error : new Error('Unknown error');
+      if (options?.onError) {
+        await options.onError(err, update);
+      }
+    }
+
+    // Always acknowledge the update so Telegram doesn't redeliver it
+    return NextResponse.json({ ok: true });
+  };
+
+  const route: TelegramWebhookRoute = {
+    POST,
+    onCommand(command, handler) {
+      const normalized = (command.startsWith('/') ? command : `/${command}`).toLowerCase();
+      commandHandlers.set(normalized, handler);
+      return route;
+    },
+    onCallbackQuery(
+      matchOrHandler: string | RegExp | WebhookHandler<CallbackQueryContext>,
+      handler?: WebhookHandler<CallbackQueryContext>
+    ) {
+      if (typeof matchOrHandler === 'function') {
+        callbackHandlers.push({ handler: matchOrHandler });
+      } else if (handler) {
+        callbackHandlers.push({ match: matchOrHandler, handler });
+      }
+      return route;
+    },
+    onMessage(handler) {
+      messageHandlers.push(handler);
+      return route;
+    },
+    onReply(handler) {
+      replyHandlers.push(handler);
+      return route;
+    },
+  };
+
+  return route;
+}
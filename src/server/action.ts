@@ -0,0 +1,72 @@
+import { headers } from 'next/headers';
+import { createTelegramRoute } from '../route/handler';
+import type { TelegramRouteOptions } from '../route/handler';
+import type { TelegramActionState, TelegramNotifyAction } from '../types';
+
+/** Headers that describe the action's own request body, not the form data sent on */
+const BODY_HEADERS = ['content-type', 'content-length', 'content-encoding', 'transfer-encoding'];
+
+/**
+ * Copy the submitted fields, dropping React's `$ACTION_*` bookkeeping and
+ * file inputs the user left empty
+ */
+function toNotifyFormData(formData: FormData): FormData {
+  const body = new FormData();
+
+  for (const [name, value] of formData.entries()) {
+    if (name.startsWith('$ACTION')) continue;
+    if (typeof value !== 'string' && value.size === 0 && !value.name) continue;
+
+    body.append(name, value);
+  }
+
+  return body;
+}
+
+/**
+ * Create a server action that sends a notification from a form submission,
+ * without an API route.
+ *
+ * Takes the same options as `createTelegramRoute` and runs the submission
+ * through the same rate limiting, validation, file handling, spam checks and
+ * hooks. Rate limits and IP rules use the incoming request's `headers()`, so
+ * set `trustProxy` to match your deployment. Request signing (`auth.hmac`)
+ * doesn't apply to server actions.
+ *
+ * The form fields match the multipart body of the API route: `message`,
+ * `parseMode`, `files`, and so on. Other fields reach `schema` and the hooks
+ * as strings.
+ *
+ * @example
+ * ```ts
+ * // app/actions.ts
+ * 'use server';
+ *
+ * import { createTelegramAction } from 'nextjs-telegram-notify/server';
+ *
+ * export const sendNotification = createTelegramAction({
+ *   rateLimit: { maxRequests: 5, windowMs: 60000 },
+ * });
+ * ```
+ */
+export function createTelegramAction(options?: TelegramRouteOptions): TelegramNotifyAction {
+  // Server actions are same-origin; Next.js already rejects cross-origin submissions
+  const route = createTelegramRoute({ cors: false, ...options });
+
+  return async (_state, formData) => {
+    const requestHeaders = new Headers(await headers());
+    BODY_HEADERS.forEach((name) => requestHeaders.delete(name));
+
+    // The route only looks at the method, headers and body, so the URL is a placeholder
+    const request = new Request('http://localhost/', {
+      method: 'POST',
+      headers: requestHeaders,
+      body: toNotifyFormData(formData),
+    });
+
+    const response = await route(request);
+    const result: TelegramActionState = { ...(await response.json()), status: response.status };
+
+    return result;
+  };
+}
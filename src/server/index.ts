@@ -1,2 +1,18 @@
 export { sendTelegramNotification, createTelegramClient } from './send';
+export { createTelegramAction } from './action';
+export {
+  registerTelegramWebhook,
+  unregisterTelegramWebhook,
+  getTelegramWebhookInfo,
+} from './webhook';
 export { TelegramClient } from '../lib/telegram';
+export { FileRateLimitStore } from '../lib/filestore';
+export { signRequest } from '../lib/auth';
+export { createFormToken } from '../lib/spam';
+export { redactSecrets, redactError } from '../lib/redact';
+export {
+  createTurnstileVerifier,
+  createHCaptchaVerifier,
+  createRecaptchaV3Verifier,
+} from '../lib/captcha';
+export { TelegramError } from '../types';
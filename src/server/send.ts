@@ -1,5 +1,11 @@
 import { TelegramClient } from '../lib/telegram';
-import type { NotifyOptions, FileAttachment } from '../types';
+import { groupMediaFiles } from '../lib/media';
+import type {
+  NotifyOptions,
+  FileAttachment,
+  TelegramMessage,
+  SendNotificationResult,
+} from '../types';
 
 /**
  * Get Telegram configuration from environment variables
@@ -30,15 +36,18 @@ function getTelegramConfig() {
  * ```ts
  * import { sendTelegramNotification } from 'nextjs-telegram-notify/server';
  * 
- * await sendTelegramNotification({
- *   message: 'Hello from Next.js!',
+ * const { messageId } = await sendTelegramNotification({
+ *   message: 'Deploy started 🚀',
  *   parseMode: 'HTML'
  * });
+ *
+ * // Later, update the same message
+ * await createTelegramClient().editMessageText(messageId, 'Deploy finished ✅');
  * ```
  */
 export async function sendTelegramNotification(
   options: NotifyOptions
-): Promise<void> {
+): Promise<SendNotificationResult> {
   const config = getTelegramConfig();
   const client = new TelegramClient(config);
 
@@ -49,30 +58,80 @@ export async function sendTelegramNotification(
     chatId,
     disableNotification,
     threadId,
+    replyMarkup,
   } = options;
 
+  // The message carrying the text is reported as the notification's messageId
+  let primaryMessage: TelegramMessage | undefined;
+  const messages: TelegramMessage[] = [];
+
   // Send files if provided
   if (files && files.length > 0) {
-    for (const file of files) {
-      const fileAttachment = file as FileAttachment;
-      
-      await client.sendDocument(fileAttachment, {
-        caption: message,
+    // Group files into albums, captioning only the first item
+    const groups = groupMediaFiles(files as FileAttachment[]);
+
+    // Albums can't carry a keyboard, so send the message with its keyboard on its own
+    if (replyMarkup && groups[0].length > 1) {
+      const sent = await client.sendMessageParts(message, {
         parseMode,
         chatId,
         disableNotification,
         threadId,
+        replyMarkup,
       });
+      primaryMessage = sent[0];
+      messages.push(...sent);
+    }
+
+    for (let i = 0; i < groups.length; i++) {
+      const group = groups[i];
+      const caption = i === 0 && !primaryMessage ? message : undefined;
+
+      let sent: TelegramMessage[];
+      if (group.length === 1) {
+        sent = await client.sendDocumentParts(group[0], {
+          caption,
+          parseMode,
+          chatId,
+          disableNotification,
+          threadId,
+          replyMarkup: i === 0 ? replyMarkup : undefined,
+        });
+      } else {
+        sent = await client.sendMediaGroup(group, {
+          caption,
+          parseMode,
+          chatId,
+          disableNotification,
+          threadId,
+        });
+      }
+
+      if (caption !== undefined) {
+        primaryMessage = sent[0];
+      }
+      messages.push(...sent);
     }
   } else {
     // Send text message only
-    await client.sendMessage(message, {
+    const sent = await client.sendMessageParts(message, {
       parseMode,
       chatId,
       disableNotification,
       threadId,
+      replyMarkup,
     });
+    primaryMessage = sent[0];
+    messages.push(...sent);
   }
+
+  const mainMessage = primaryMessage || messages[0];
+
+  return {
+    messageId: mainMessage.message_id,
+    messageIds: messages.map((sentMessage) => sentMessage.message_id),
+    chatId: String(mainMessage.chat.id),
+  };
 }
 
 /**
@@ -0,0 +1,53 @@
+import { createTelegramClient } from './send';
+import type { TelegramWebhookInfo } from '../types';
+
+/**
+ * Register the webhook URL Telegram delivers updates to (server-side)
+ *
+ * The secret token defaults to the `TELEGRAM_WEBHOOK_SECRET` environment
+ * variable, which `createTelegramWebhookRoute` checks on every update.
+ *
+ * @example
+ * ```ts
+ * import { registerTelegramWebhook } from 'nextjs-telegram-notify/server';
+ *
+ * await registerTelegramWebhook({
+ *   url: 'https://example.com/api/telegram-webhook',
+ *   allowedUpdates: ['message', 'callback_query'],
+ * });
+ * ```
+ */
+export async function registerTelegramWebhook(options: {
+  url: string;
+  secretToken?: string;
+  allowedUpdates?: string[];
+  dropPendingUpdates?: boolean;
+  maxConnections?: number;
+}): Promise<boolean> {
+  const { url, ...webhookOptions } = options;
+  const secretToken = options.secretToken || process.env.TELEGRAM_WEBHOOK_SECRET;
+
+  if (!secretToken) {
+    throw new Error(
+      'TELEGRAM_WEBHOOK_SECRET is not set. Please add it to your environment variables or pass secretToken.'
+    );
+  }
+
+  return createTelegramClient().setWebhook(url, { ...webhookOptions, secretToken });
+}
+
+/**
+ * Remove the webhook so Telegram stops delivering updates (server-side)
+ */
+export async function unregisterTelegramWebhook(
+  options: { dropPendingUpdates?: boolean } = {}
+): Promise<boolean> {
+  return createTelegramClient().deleteWebhook(options);
+}
+
+/**
+ * Get the current webhook status (server-side)
+ */
+export async function getTelegramWebhookInfo(): Promise<TelegramWebhookInfo> {
+  return createTelegramClient().getWebhookInfo();
+}
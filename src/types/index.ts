@@ -1,8 +1,17 @@
+import type { NextRequest } from 'next/server';
+
 /**
  * Telegram parse modes for message formatting
  */
 export type ParseMode = 'HTML' | 'Markdown' | 'MarkdownV2';
 
+/**
+ * How messages longer than Telegram's limits are handled
+ * - `split`: send the overflow as additional messages
+ * - `truncate`: cut the text and append "..."
+ */
+export type LongMessageMode = 'split' | 'truncate';
+
 /**
  * Configuration for Telegram Bot
  */
@@ -10,6 +19,28 @@ export interface TelegramConfig {
   botToken: string;
   chatId: string;
   apiUrl?: string;
+  /** How to handle messages over 4096 (captions over 1024) characters (default: 'split') */
+  longMessageMode?: LongMessageMode;
+  /** Retry behaviour for failed requests */
+  retry?: RetryConfig;
+}
+
+/**
+ * Retry configuration for Telegram API requests
+ */
+export interface RetryConfig {
+  /** Number of retries after the first attempt (default: 2) */
+  retries?: number;
+  /** Backoff delay before the first retry in milliseconds (default: 1000) */
+  minDelayMs?: number;
+  /** Maximum backoff delay in milliseconds (default: 30000) */
+  maxDelayMs?: number;
+  /** Backoff multiplier applied per attempt (default: 2) */
+  factor?: number;
+  /** Random jitter as a fraction of the delay, 0-1 (default: 0.2) */
+  jitter?: number;
+  /** Longest `retry_after` from a 429 to wait for before giving up, in milliseconds (default: 60000) */
+  maxRetryAfterMs?: number;
 }
 
 /**
@@ -20,36 +51,123 @@ export interface NotifyOptions {
   message: string;
   /** Parse mode for message formatting */
   parseMode?: ParseMode;
-  /** File attachments (client-side: File[], server-side: Buffer[] or file paths) */
+  /** File attachments (client-side: File[], server-side: Buffers, Blobs or file paths) */
   files?: File[] | FileAttachment[];
-  /** Override the default chat ID */
+  /** Override the default chat ID (the route handler only accepts ids listed in `allowedChatIds`) */
   chatId?: string;
+  /** Name of a destination configured with `destinations` on the route handler */
+  destination?: string;
   /** Send notification silently (no sound) */
   disableNotification?: boolean;
   /** Message thread ID for forum topics */
   threadId?: number;
+  /** Inline keyboard shown below the message (see `InlineKeyboard`) */
+  replyMarkup?: InlineKeyboardMarkup;
+  /** CAPTCHA response token, checked by the route's `captcha` verifier */
+  captchaToken?: string;
+  /** Value of a hidden honeypot input; anything but empty marks the request as spam (see `spamProtection`) */
+  honeypot?: string;
+}
+
+/**
+ * Result of sending a notification
+ */
+export interface SendNotificationResult {
+  /** Id of the message carrying the notification text (or caption) */
+  messageId: number;
+  /** Ids of every message sent (split parts, album items), in order */
+  messageIds: number[];
+  /** Chat the notification was sent to */
+  chatId: string;
+}
+
+/**
+ * Login URL for inline keyboard buttons (Telegram Login Widget)
+ */
+export interface LoginUrl {
+  /** HTTPS URL opened with user authorization data added to the query string */
+  url: string;
+  /** New text of the button in forwarded messages */
+  forward_text?: string;
+  /** Username of the bot used for authorization */
+  bot_username?: string;
+  /** Request permission for the bot to send messages to the user */
+  request_write_access?: boolean;
+}
+
+/**
+ * Inline keyboard button
+ */
+export type InlineKeyboardButton =
+  | { text: string; url: string }
+  | { text: string; callback_data: string }
+  | { text: string; login_url: LoginUrl }
+  | { text: string; web_app: { url: string } };
+
+/**
+ * Inline keyboard attached to a message
+ */
+export interface InlineKeyboardMarkup {
+  inline_keyboard: InlineKeyboardButton[][];
 }
 
 /**
  * File attachment for server-side usage
  */
 export interface FileAttachment {
-  /** File buffer or file path */
-  data: Buffer | string;
+  /** File contents (a Uint8Array such as a Buffer), Blob (e.g. an uploaded File) or file path (Node.js runtime only) */
+  data: Uint8Array | Blob | string;
   /** File name */
   filename: string;
   /** MIME type (optional) */
   mimeType?: string;
 }
 
+/**
+ * How a file attachment is sent to Telegram
+ */
+export type MediaType = 'photo' | 'video' | 'audio' | 'document';
+
+/**
+ * Additional error details returned by Telegram API
+ */
+export interface TelegramResponseParameters {
+  /** The group has been migrated to a supergroup with this identifier */
+  migrate_to_chat_id?: number;
+  /** Seconds to wait before the request can be repeated (flood control) */
+  retry_after?: number;
+}
+
 /**
  * Response from Telegram API
  */
-export interface TelegramResponse {
+export interface TelegramResponse<T = TelegramMessage> {
   ok: boolean;
-  result?: TelegramMessage;
+  result?: T;
   description?: string;
   error_code?: number;
+  parameters?: TelegramResponseParameters;
+}
+
+/**
+ * Telegram user or bot
+ */
+export interface TelegramUser {
+  id: number;
+  is_bot: boolean;
+  first_name: string;
+  last_name?: string;
+  username?: string;
+  language_code?: string;
+}
+
+/**
+ * Special entity in a message text (command, URL, formatting, ...)
+ */
+export interface TelegramMessageEntity {
+  type: string;
+  offset: number;
+  length: number;
 }
 
 /**
@@ -57,13 +175,23 @@ export interface TelegramResponse {
  */
 export interface TelegramMessage {
   message_id: number;
+  /** Forum topic the message belongs to */
+  message_thread_id?: number;
+  from?: TelegramUser;
   date: number;
   chat: {
     id: number;
     type: string;
+    title?: string;
+    username?: string;
   };
+  /** Original message when this message is a reply */
+  reply_to_message?: TelegramMessage;
   text?: string;
+  entities?: TelegramMessageEntity[];
   caption?: string;
+  /** Set when the message is part of an album */
+  media_group_id?: string;
   document?: {
     file_id: string;
     file_name: string;
@@ -71,38 +199,172 @@ export interface TelegramMessage {
   };
 }
 
+/**
+ * Query sent when a user presses an inline keyboard callback button
+ */
+export interface TelegramCallbackQuery {
+  id: string;
+  from: TelegramUser;
+  /** Message with the button that originated the query */
+  message?: TelegramMessage;
+  chat_instance: string;
+  data?: string;
+}
+
+/**
+ * Incoming update delivered to a webhook
+ */
+export interface TelegramUpdate {
+  update_id: number;
+  message?: TelegramMessage;
+  edited_message?: TelegramMessage;
+  channel_post?: TelegramMessage;
+  callback_query?: TelegramCallbackQuery;
+}
+
+/**
+ * Current webhook status returned by getWebhookInfo
+ */
+export interface TelegramWebhookInfo {
+  url: string;
+  has_custom_certificate: boolean;
+  pending_update_count: number;
+  ip_address?: string;
+  last_error_date?: number;
+  last_error_message?: string;
+  max_connections?: number;
+  allowed_updates?: string[];
+}
+
 /**
  * Error from Telegram API
  */
 export class TelegramError extends Error {
   code?: number;
   description?: string;
+  parameters?: TelegramResponseParameters;
 
-  constructor(message: string, code?: number, description?: string) {
+  constructor(
+    message: string,
+    code?: number,
+    description?: string,
+    parameters?: TelegramResponseParameters
+  ) {
     super(message);
     this.name = 'TelegramError';
     this.code = code;
     this.description = description;
+    this.parameters = parameters;
     Object.setPrototypeOf(this, TelegramError.prototype);
   }
 }
 
+/**
+ * Why a notification request failed, returned as `code` by the route handlers
+ *
+ * - `VALIDATION_FAILED`: invalid or missing fields (see `fieldErrors`)
+ * - `PAYLOAD_TOO_LARGE`: the body or an attachment exceeds a size limit
+ * - `RATE_LIMITED`: a per-client rate limit was hit (see `retryAfter`)
+ * - `SERVER_BUSY`: the global rate limit was hit (see `retryAfter`)
+ * - `ORIGIN_DENIED`, `IP_DENIED`, `CHAT_NOT_ALLOWED`: rejected by the route's access rules
+ * - `NOT_FOUND`, `METHOD_NOT_ALLOWED`: the route doesn't handle the request
+ * - `UNAUTHORIZED`, `CAPTCHA_REQUIRED`, `CAPTCHA_FAILED`: authentication or CAPTCHA checks failed
+ * - `TELEGRAM_*`: Telegram rejected the message (`TELEGRAM_ERROR` for anything not listed)
+ * - `NETWORK_ERROR`: the route couldn't be reached (only raised by `useTelegramNotify`)
+ * - `INTERNAL_ERROR`: anything else, e.g. missing configuration
+ */
+export type NotifyErrorCode =
+  | 'VALIDATION_FAILED'
+  | 'PAYLOAD_TOO_LARGE'
+  | 'RATE_LIMITED'
+  | 'SERVER_BUSY'
+  | 'ORIGIN_DENIED'
+  | 'IP_DENIED'
+  | 'CHAT_NOT_ALLOWED'
+  | 'UNAUTHORIZED'
+  | 'CAPTCHA_REQUIRED'
+  | 'CAPTCHA_FAILED'
+  | 'NOT_FOUND'
+  | 'METHOD_NOT_ALLOWED'
+  | 'TELEGRAM_BAD_REQUEST'
+  | 'TELEGRAM_CHAT_NOT_FOUND'
+  | 'TELEGRAM_FORBIDDEN'
+  | 'TELEGRAM_UNAUTHORIZED'
+  | 'TELEGRAM_RATE_LIMITED'
+  | 'TELEGRAM_ERROR'
+  | 'NETWORK_ERROR'
+  | 'INTERNAL_ERROR';
+
+/**
+ * Error thrown by `useTelegramNotify` when a notification fails
+ */
+export class NotifyError extends Error {
+  code: NotifyErrorCode;
+  /** HTTP status of the response (0 when the route couldn't be reached) */
+  status: number;
+  /** Seconds to wait before retrying, for rate limit errors */
+  retryAfter?: number;
+  /** Error message per invalid field, for `VALIDATION_FAILED` */
+  fieldErrors?: Record<string, string>;
+
+  constructor(
+    message: string,
+    code: NotifyErrorCode,
+    status: number,
+    options: { retryAfter?: number; fieldErrors?: Record<string, string> } = {}
+  ) {
+    super(message);
+    this.name = 'NotifyError';
+    this.code = code;
+    this.status = status;
+    this.retryAfter = options.retryAfter;
+    this.fieldErrors = options.fieldErrors;
+    Object.setPrototypeOf(this, NotifyError.prototype);
+  }
+}
+
 /**
  * Hook return type for useTelegramNotify
  */
 export interface UseTelegramNotifyReturn {
-  /** Send a notification */
-  send: (options: NotifyOptions) => Promise<void>;
+  /** Send a notification, resolving with the sent message ids */
+  send: (options: NotifyOptions) => Promise<TelegramNotifyResponse>;
   /** Loading state */
   loading: boolean;
-  /** Error state */
-  error: Error | null;
+  /** Error state (a `NotifyError` when the route rejected the notification) */
+  error: NotifyError | null;
   /** Success state */
   success: boolean;
   /** Reset the hook state */
   reset: () => void;
 }
 
+/**
+ * Result of a server action created with `createTelegramAction`
+ */
+export interface TelegramActionState extends TelegramNotifyResponse {
+  /** HTTP status the API route would have answered with */
+  status: number;
+}
+
+/**
+ * Server action created with `createTelegramAction`, usable with `useActionState` or `useTelegramAction`
+ */
+export type TelegramNotifyAction = (
+  state: TelegramActionState | null,
+  formData: FormData
+) => Promise<TelegramActionState>;
+
+/**
+ * Hook return type for useTelegramAction
+ */
+export interface UseTelegramActionReturn extends Omit<UseTelegramNotifyReturn, 'send'> {
+  /** Pass to `<form action>` (or call with a FormData) to run the server action */
+  formAction: (formData: FormData) => void;
+  /** Last result of the server action, `null` before the first submission or after `reset` */
+  state: TelegramActionState | null;
+}
+
 /**
  * Configuration for the notification hook
  */
@@ -112,18 +374,26 @@ export interface TelegramNotifyConfig {
   /** Success callback */
   onSuccess?: () => void;
   /** Error callback */
-  onError?: (error: Error) => void;
+  onError?: (error: NotifyError) => void;
+  /** Fetch a signed form token on mount and send it with each notification (for `spamProtection.minFillTimeMs`) */
+  formToken?: boolean;
 }
 
 /**
  * Request body for the API route
+ * (sent as JSON, or as multipart/form-data fields with files under `files`)
  */
 export interface TelegramNotifyRequest {
   message: string;
   parseMode?: ParseMode;
   chatId?: string;
+  destination?: string;
   disableNotification?: boolean;
   threadId?: number;
+  replyMarkup?: InlineKeyboardMarkup;
+  captchaToken?: string;
+  honeypot?: string;
+  formToken?: string;
   files?: {
     name: string;
     data: string; // Base64 encoded
@@ -131,13 +401,34 @@ export interface TelegramNotifyRequest {
   }[];
 }
 
+/**
+ * Limits for file uploads accepted by the API route
+ */
+export interface UploadLimits {
+  /** Maximum number of files per request (default: 10) */
+  maxFiles?: number;
+  /** Maximum size of a single file in bytes (default: 50MB, Telegram's limit) */
+  maxFileSize?: number;
+  /** Maximum combined size of all files in bytes (default: 50MB) */
+  maxTotalFileSize?: number;
+}
+
 /**
  * Response from the API route
  */
 export interface TelegramNotifyResponse {
   success: boolean;
   error?: string;
+  /** Why the request failed */
+  code?: NotifyErrorCode;
+  /** Seconds to wait before retrying, for rate limit errors */
+  retryAfter?: number;
   messageId?: number;
+  messageIds?: number[];
+  /** Signed form token returned by `GET` on routes with `spamProtection.minFillTimeMs` */
+  formToken?: string;
+  /** Error message per invalid field when the request body fails validation */
+  fieldErrors?: Record<string, string>;
 }
 
 /**
@@ -152,14 +443,142 @@ export interface RateLimitConfig {
   perIP?: boolean;
   /** Custom error message when rate limited */
   message?: string;
+  /** Where hits are stored (default: in memory, per process); share one store across instances */
+  store?: RateLimitStore;
+  /** Rate limiting algorithm (default: 'sliding-log') */
+  strategy?: RateLimitStrategy;
+  /** Token bucket capacity, i.e. how many requests can be made in a burst (default: maxRequests) */
+  burst?: number;
+  /** What to limit requests by (default: client IP, see `keyByIp`, `keyByHeader`, `keyByCookie` and `combineKeys`) */
+  keyGenerator?: RateLimitKeyGenerator;
+  /** Name used in the per-limiter response headers when several limiters are configured; must be valid in a header name (no spaces) */
+  name?: string;
+  /** Namespace for this limiter's store keys, so several limiters can share a store (the route defaults it to `name` when several limiters are configured) */
+  prefix?: string;
 }
 
+/**
+ * Derive the rate limit key for a request; return null to skip the limiter for that request
+ */
+export type RateLimitKeyGenerator = (
+  request: NextRequest
+) => string | null | undefined | Promise<string | null | undefined>;
+
+/**
+ * Rate limiting algorithm
+ *
+ * - `sliding-log`: exact limit over any `windowMs` period (stores up to `maxRequests` timestamps per key)
+ * - `sliding-window`: approximates the sliding log by weighting the previous fixed window's count
+ * - `fixed-window`: counts requests in consecutive `windowMs` periods
+ * - `token-bucket`: allows `burst` requests at once, refilled at `maxRequests` per `windowMs`
+ */
+export type RateLimitStrategy = 'sliding-log' | 'sliding-window' | 'fixed-window' | 'token-bucket';
+
+/**
+ * Hits recorded for a rate limit key
+ */
+export interface RateLimitRecord {
+  /** Number of hits inside the window */
+  count: number;
+  /** When the oldest hit leaves the window, in milliseconds since the epoch */
+  resetAt: number;
+}
+
+/**
+ * Result of recording a hit in a rate limit store
+ */
+export interface RateLimitIncrementResult extends RateLimitRecord {
+  /** False when the key was already at the limit and the hit was not recorded */
+  recorded: boolean;
+}
+
+/**
+ * Result of incrementing a counter in a rate limit store
+ */
+export interface RateLimitCounterResult {
+  /** Value of the counter after the call */
+  count: number;
+  /** False when the counter was already at the limit and was not incremented */
+  recorded: boolean;
+}
+
+/**
+ * Storage backend for RateLimiter
+ *
+ * A shared backend (Redis, Vercel KV, a database, ...) lets every instance of
+ * an app enforce the same limit. Each strategy uses its own operation, and
+ * every operation must be atomic per key:
+ *
+ * - `increment` and `get` (`sliding-log`): each key holds the timestamps of
+ *   the hits inside a sliding window. Drop hits older than `now - windowMs`,
+ *   then record a hit at `now` only if fewer than `limit` hits remain. With
+ *   Redis this maps to a sorted set updated by a Lua script (ZREMRANGEBYSCORE,
+ *   ZCARD, ZADD, PEXPIRE).
+ * - `incrementCounter` (`fixed-window` and `sliding-window`): each key is a
+ *   plain counter for one window. With Redis this maps to INCR guarded by the
+ *   limit, and PEXPIRE when the key is created.
+ * - `consume` (`token-bucket`): the bucket's token count and last refill time.
+ */
+export interface RateLimitStore {
+  /** Record a hit for `key` unless `limit` hits are already inside the window */
+  increment(
+    key: string,
+    options: { windowMs: number; limit: number; now: number }
+  ): Promise<RateLimitIncrementResult>;
+  /** Get the hits inside the window for `key` without recording one */
+  get(key: string, options: { windowMs: number; now: number }): Promise<RateLimitRecord>;
+  /** Remove all hits, counters and token bucket state for `key` */
+  reset(key: string): Promise<void>;
+  /**
+   * Increment the counter for `key` unless it already reached `limit`. A new
+   * counter starts at 0 and expires `ttlMs` after it is created; pass
+   * `limit: 0` to read the counter without changing it. Only needed for the
+   * `fixed-window` and `sliding-window` strategies.
+   */
+  incrementCounter?(
+    key: string,
+    options: { limit: number; ttlMs: number; now: number }
+  ): Promise<RateLimitCounterResult>;
+  /**
+   * Refill the token bucket for `key` and take `tokens` from it if enough are
+   * available. Only needed for the `token-bucket` strategy; must be atomic per key.
+   */
+  consume?(
+    key: string,
+    options: { capacity: number; refillMs: number; tokens: number; now: number }
+  ): Promise<TokenBucketResult>;
+}
+
+/**
+ * Result of taking tokens from a token bucket
+ */
+export interface TokenBucketResult {
+  /** Tokens left in the bucket (may be fractional) */
+  tokens: number;
+  /** False when the bucket didn't hold enough tokens */
+  consumed: boolean;
+}
+
+/**
+ * A single allowed origin: an exact origin, a wildcard pattern such as
+ * `https://*.example.com`, or a regular expression tested against the origin
+ */
+export type CorsOriginPattern = string | RegExp;
+
+/**
+ * Decide whether an origin is allowed; `request` is passed when called from the route handler
+ */
+export type CorsOriginPredicate = (origin: string, request?: NextRequest) => boolean;
+
 /**
  * CORS configuration
  */
 export interface CorsConfig {
-  /** Allowed origins (e.g., ['https://example.com'] or '*') */
-  origin: string | string[];
+  /**
+   * Allowed origins: `'*'`, an origin, a wildcard pattern (`'https://*.example.com'`),
+   * a RegExp, a list of those, or a predicate
+   */
+  origin: CorsOriginPattern | CorsOriginPattern[] | CorsOriginPredicate;
   /** Allowed HTTP methods */
   methods?: string[];
   /** Allowed headers */
@@ -176,14 +595,197 @@ export interface CorsConfig {
  * Security configuration for route handler
  */
 export interface SecurityConfig {
-  /** Rate limiting configuration */
-  rateLimit?: RateLimitConfig | false;
-  /** Global rate limit (respects Telegram API limits) */
-  globalRateLimit?: boolean;
+  /** Rate limiting configuration; pass several limiters to enforce all of them */
+  rateLimit?: RateLimitConfig | RateLimitConfig[] | false;
+  /** Global rate limit (respects Telegram API limits), optionally backed by a shared store */
+  globalRateLimit?: boolean | { store: RateLimitStore };
   /** CORS configuration */
   cors?: CorsConfig | false;
-  /** Maximum request body size in bytes */
+  /** Maximum request body size in bytes (default: 70MB); larger requests are rejected with 413 */
   maxBodySize?: number;
-  /** Allowed origins (shorthand for cors.origin) */
-  allowedOrigins?: string[];
+  /** Allowed origins (shorthand for cors.origin, used when `cors` is not set) */
+  allowedOrigins?: CorsConfig['origin'];
+  /** Limits on the number and size of attached files; exceeded limits are rejected with 413 */
+  uploadLimits?: UploadLimits;
+  /** Named destinations clients can pick with `destination` instead of sending a raw chat id */
+  destinations?: Record<string, NotifyDestination>;
+  /** Raw chat ids clients may pass as `chatId` (client-supplied chat ids are rejected by default) */
+  allowedChatIds?: (string | number)[];
+  /** Parse modes clients may request (default: all) */
+  allowedParseModes?: ParseMode[];
+  /** Accept an inline keyboard (`replyMarkup`) from clients (default: false); otherwise it is rejected with 400 */
+  allowReplyMarkup?: boolean;
+  /** Proxies to trust when determining the client IP (default: 1 hop) */
+  trustProxy?: TrustProxy;
+  /** Only accept requests from these addresses or CIDR ranges (IPv4 or IPv6); others get 403 */
+  ipAllowList?: string[] | IpList;
+  /** Reject requests from these addresses or CIDR ranges with 403; pass an `IpDenyList` to update it at runtime */
+  ipDenyList?: string[] | IpList;
+  /** Require an API key, HMAC signature or custom check; other requests get 401 */
+  auth?: AuthConfig;
+  /** Require a valid CAPTCHA token in `captchaToken`; other requests get 403 */
+  captcha?: CaptchaVerifier;
+  /** Honeypot, timing, content and duplicate checks for public forms */
+  spamProtection?: SpamProtectionConfig;
+  /** Validate the request body (including custom fields) before `onBeforeSend`; failures get 400 */
+  schema?: NotifySchema;
+  /** Send internal error messages to clients (default: true when NODE_ENV is `development`) */
+  debug?: boolean;
+  /** Extra values to scrub from errors and logs (the bot token and configured secrets always are) */
+  redact?: string[];
+}
+
+/**
+ * Platform presets for `trustProxy`
+ *
+ * - `vercel`: `x-vercel-forwarded-for` / `x-real-ip`, which Vercel overwrites
+ * - `cloudflare`: `cf-connecting-ip`, set by Cloudflare
+ * - `nginx`: `x-real-ip`, set with `proxy_set_header X-Real-IP $remote_addr`
+ */
+export type TrustProxyPreset = 'vercel' | 'cloudflare' | 'nginx';
+
+/**
+ * Which proxies to trust when reading the client IP from forwarding headers
+ *
+ * - `false`: ignore forwarding headers and use the platform-provided `request.ip`
+ * - `true`: trust every header (the first `x-forwarded-for` entry wins); only safe
+ *   when a proxy you control overwrites `x-forwarded-for`
+ * - number: how many proxies in front of the app append to `x-forwarded-for`
+ *   (the client is that many entries from the right)
+ * - string[]: addresses and CIDR ranges of trusted proxies (the client is the
+ *   right-most `x-forwarded-for` entry outside them)
+ * - a platform preset
+ */
+export type TrustProxy = boolean | number | string[] | TrustProxyPreset;
+
+/**
+ * Result of verifying a CAPTCHA token
+ */
+export interface CaptchaResult {
+  /** Whether the token is valid (and, for reCAPTCHA v3, scored high enough) */
+  success: boolean;
+  /** reCAPTCHA v3 score from 0.0 (likely a bot) to 1.0 */
+  score?: number;
+  /** Error codes returned by the provider */
+  errorCodes?: string[];
+}
+
+/**
+ * Verifies CAPTCHA tokens sent as `captchaToken`
+ * (see `createTurnstileVerifier`, `createHCaptchaVerifier` and `createRecaptchaV3Verifier`)
+ */
+export interface CaptchaVerifier {
+  verify(token: string, context: { ip: string; request: NextRequest }): Promise<CaptchaResult>;
+}
+
+/**
+ * Why a request was flagged by `spamProtection`
+ */
+export type SpamReason = 'honeypot' | 'too-fast' | 'invalid-form-token' | 'links' | 'keywords' | 'duplicate';
+
+/**
+ * Result of checking a request against `spamProtection`
+ */
+export interface SpamCheckResult {
+  /** Whether the request is treated as spam */
+  spam: boolean;
+  /** Score from link and keyword checks */
+  score: number;
+  /** Every check the request failed */
+  reasons: SpamReason[];
+}
+
+/**
+ * Spam heuristics for public forms
+ */
+export interface SpamProtectionConfig {
+  /** Treat requests with a non-empty `honeypot` field as spam */
+  honeypot?: boolean;
+  /** Treat forms submitted sooner than this after the form token was issued as spam (requires `secret`) */
+  minFillTimeMs?: number;
+  /** How long a form token stays valid (default: 24 hours) */
+  maxFillTimeMs?: number;
+  /** Secret used to sign form tokens */
+  secret?: string;
+  /** Links allowed in a message; each additional link adds 1 to the score */
+  maxLinks?: number;
+  /** Words or patterns that add 1 to the score each (strings match case-insensitively) */
+  blockedKeywords?: (string | RegExp)[];
+  /** Score at which a message is treated as spam (default: 1) */
+  scoreThreshold?: number;
+  /** Treat a message identical to one received within this window as spam */
+  duplicateWindowMs?: number;
+  /** `drop` (default) answers spam with a fake success; `moderate` sends it to `moderationChatId` instead */
+  action?: 'drop' | 'moderate';
+  /** Chat that receives suspected spam when `action` is `moderate` */
+  moderationChatId?: string | number;
+}
+
+/**
+ * Schema for the request body, e.g. a Zod schema.
+ *
+ * Anything with `safeParse` (returning `{ success, error }`) or a throwing
+ * `parse` works. Issues shaped like `{ path, message }` become field errors.
+ */
+export type NotifySchema =
+  | { safeParse(data: unknown): { success: boolean; error?: unknown } | Promise<{ success: boolean; error?: unknown }> }
+  | { parse(data: unknown): unknown };
+
+/**
+ * HMAC-SHA256 request signing (see `signRequest` for the client side)
+ *
+ * The signature covers `<timestamp>.<raw body>`, where the timestamp is in
+ * Unix seconds. Signed requests are accepted once, within `toleranceMs` of
+ * the server clock.
+ */
+export interface HmacAuthConfig {
+  /** Shared secret; pass several to rotate secrets */
+  secret: string | string[];
+  /** Maximum clock difference, and how long signatures are remembered to reject replays (default: 5 minutes) */
+  toleranceMs?: number;
+  /** Header carrying `sha256=<hex signature>` (default: x-signature) */
+  signatureHeader?: string;
+  /** Header carrying the Unix timestamp in seconds (default: x-timestamp) */
+  timestampHeader?: string;
+}
+
+/**
+ * Authentication for the notify route; a request passing any configured mode is accepted
+ */
+export interface AuthConfig {
+  /** Accept `Authorization: Bearer <key>`; pass several keys to rotate them */
+  apiKeys?: string[];
+  /** Accept requests with a valid HMAC-SHA256 body signature */
+  hmac?: HmacAuthConfig;
+  /** Custom check, e.g. a session lookup */
+  authorize?: (request: NextRequest) => boolean | Promise<boolean>;
+}
+
+/**
+ * A set of IP addresses checked on every request, such as `IpDenyList` or one
+ * backed by a shared store
+ */
+export interface IpList {
+  /** Whether the address is on the list */
+  has(address: string): boolean | Promise<boolean>;
+}
+
+/**
+ * Why a request was rejected by `ipAllowList` or `ipDenyList`
+ */
+export interface IpBlockedEvent {
+  /** Resolved client IP (see `trustProxy`) */
+  ip: string;
+  /** `denied` when the IP is on the deny list, `not-allowed` when it isn't on the allow list */
+  reason: 'denied' | 'not-allowed';
+}
+
+/**
+ * A chat (and optional forum topic) the route handler may send to
+ */
+export interface NotifyDestination {
+  /** Target chat (defaults to TELEGRAM_CHAT_ID) */
+  chatId?: string | number;
+  /** Forum topic within the chat */
+  threadId?: number;
 }
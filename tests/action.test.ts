@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { headers } from 'next/headers';
+import { createTelegramAction } from '../src/server/action';
+import * as sendModule from '../src/server/send';
+import type { FileAttachment, SendNotificationResult } from '../src/types';
+
+jest.mock('next/headers', () => ({
+  headers: jest.fn(),
+}));
+
+jest.mock('../src/server/send', () => ({
+  sendTelegramNotification: jest.fn<() => Promise<SendNotificationResult>>().mockResolvedValue({
+    messageId: 1,
+    messageIds: [1],
+    chatId: '12345678',
+  }),
+}));
+
+const mockHeaders = headers as unknown as jest.MockedFunction<() => Promise<Headers>>;
+
+function setRequestHeaders(init: Record<string, string> = {}) {
+  mockHeaders.mockResolvedValue(new Headers({
+    host: 'localhost:3000',
+    'content-type': 'multipart/form-data; boundary=----action',
+    ...init,
+  }));
+}
+
+function createFormData(fields: Record<string, string | Blob>): FormData {
+  const formData = new FormData();
+  for (const [name, value] of Object.entries(fields)) {
+    formData.append(name, value);
+  }
+  return formData;
+}
+
+describe('createTelegramAction', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    setRequestHeaders();
+  });
+
+  it('should send notifications from form data', async () => {
+    const action = createTelegramAction({ rateLimit: false });
+    const formData = createFormData({
+      $ACTION_ID_abc123: '',
+      message: '<b>New lead</b>',
+      parseMode: 'HTML',
+    });
+    formData.append('files', new File(['report'], 'report.txt', { type: 'text/plain' }));
+    // An empty file input is still submitted
+    formData.append('files', new File([], '', { type: 'application/octet-stream' }));
+
+    const result = await action(null, formData);
+
+    expect(result).toEqual({ success: true, messageId: 1, messageIds: [1], status: 200 });
+
+    const options = (sendModule.sendTelegramNotification as jest.Mock).mock.calls[0][0] as {
+      message: string;
+      parseMode: string;
+      files: FileAttachment[];
+    };
+    expect(options.message).toBe('<b>New lead</b>');
+    expect(options.parseMode).toBe('HTML');
+    expect(options.files).toHaveLength(1);
+    expect(options.files[0].filename).toBe('report.txt');
+    expect(await (options.files[0].data as Blob).text()).toBe('report');
+  });
+
+  it('should return validation errors with field details', async () => {
+    const action = createTelegramAction({ rateLimit: false });
+
+    const result = await action(null, createFormData({ message: '', parseMode: 'HTML' }));
+
+    expect(result).toMatchObject({
+      success: false,
+      code: 'VALIDATION_FAILED',
+      status: 400,
+      fieldErrors: { message: 'Message is required' },
+    });
+    expect(sendModule.sendTelegramNotification).not.toHaveBeenCalled();
+  });
+
+  it('should rate limit by the client IP from the request headers', async () => {
+    const action = createTelegramAction({ rateLimit: { maxRequests: 1, windowMs: 60000 } });
+
+    setRequestHeaders({ 'x-forwarded-for': '1.2.3.4' });
+    expect((await action(null, createFormData({ message: 'First' }))).success).toBe(true);
+
+    const limited = await action(null, createFormData({ message: 'Second' }));
+    expect(limited).toMatchObject({ success: false, code: 'RATE_LIMITED', status: 429 });
+    expect(limited.retryAfter).toBeGreaterThan(0);
+
+    setRequestHeaders({ 'x-forwarded-for': '5.6.7.8' });
+    expect((await action(null, createFormData({ message: 'Other client' }))).success).toBe(true);
+  });
+
+  it('should run the route hooks', async () => {
+    const onBeforeSend = jest.fn();
+    const onAfterSend = jest.fn();
+    const action = createTelegramAction({ rateLimit: false, onBeforeSend, onAfterSend });
+
+    await action(null, createFormData({ message: 'Hooked' }));
+
+    expect(onBeforeSend).toHaveBeenCalledWith(expect.objectContaining({ message: 'Hooked' }));
+    expect(onAfterSend).toHaveBeenCalled();
+  });
+
+  it('should pass custom fields to the schema and onBeforeSend', async () => {
+    const onBeforeSend = jest.fn();
+    const action = createTelegramAction({
+      rateLimit: false,
+      onBeforeSend,
+      schema: {
+        safeParse: (data: unknown) => {
+          const { email } = data as { email?: unknown };
+          return typeof email === 'string' && email.includes('@')
+            ? { success: true }
+            : { success: false, error: { issues: [{ path: ['email'], message: 'Invalid email' }] } };
+        },
+      },
+    });
+
+    const rejected = await action(null, createFormData({ message: 'Hi', email: 'nope' }));
+    expect(rejected).toMatchObject({ success: false, status: 400, fieldErrors: { email: 'Invalid email' } });
+
+    const accepted = await action(null, createFormData({ message: 'Hi', name: 'Ada', email: 'ada@example.com' }));
+    expect(accepted.success).toBe(true);
+    expect(onBeforeSend).toHaveBeenCalledWith(
+      expect.objectContaining({ message: 'Hi', name: 'Ada', email: 'ada@example.com' })
+    );
+  });
+});
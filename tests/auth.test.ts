@@ -0,0 +1,98 @@
+import { describe, it, expect, jest, afterEach } from '@jest/globals';
+import { NextRequest } from 'next/server';
+import { createRequestAuthenticator, signRequest } from '../src/lib/auth';
+
+const encoder = new TextEncoder();
+
+function createRequest(headers: Record<string, string>): NextRequest {
+  return new NextRequest('http://localhost:3000/api/telegram-notify', {
+    method: 'POST',
+    headers: new Headers(headers),
+  });
+}
+
+describe('Request Authentication', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('apiKeys', () => {
+    const authenticator = createRequestAuthenticator({ apiKeys: ['old-key', 'new-key'] });
+
+    it('should accept any configured bearer key', async () => {
+      expect(await authenticator.authenticate(createRequest({ authorization: 'Bearer old-key' }))).toBe(true);
+      expect(await authenticator.authenticate(createRequest({ authorization: 'bearer new-key' }))).toBe(true);
+      expect(authenticator.requiresBody).toBe(false);
+    });
+
+    it('should reject missing or unknown keys', async () => {
+      expect(await authenticator.authenticate(createRequest({}))).toBe(false);
+      expect(await authenticator.authenticate(createRequest({ authorization: 'Bearer other' }))).toBe(false);
+      expect(await authenticator.authenticate(createRequest({ authorization: 'Basic old-key' }))).toBe(false);
+    });
+  });
+
+  describe('hmac', () => {
+    const body = JSON.stringify({ message: 'Deploy finished' });
+
+    it('should produce signatures the authenticator accepts', async () => {
+      const authenticator = createRequestAuthenticator({ hmac: { secret: ['rotated', 'secret'] } });
+      const headers = await signRequest(body, 'secret');
+
+      expect(headers['x-signature']).toMatch(/^sha256=[0-9a-f]{64}$/);
+      expect(authenticator.requiresBody).toBe(true);
+      expect(await authenticator.authenticate(createRequest(headers), encoder.encode(body))).toBe(true);
+    });
+
+    it('should reject a tampered body or wrong secret', async () => {
+      const authenticator = createRequestAuthenticator({ hmac: { secret: 'secret' } });
+
+      const headers = await signRequest(body, 'secret');
+      expect(await authenticator.authenticate(createRequest(headers), encoder.encode(`${body} `))).toBe(false);
+
+      const wrongSecret = await signRequest(body, 'other');
+      expect(await authenticator.authenticate(createRequest(wrongSecret), encoder.encode(body))).toBe(false);
+    });
+
+    it('should reject timestamps outside the tolerance', async () => {
+      jest.spyOn(Date, 'now').mockReturnValue(1_700_000_000_000);
+      const authenticator = createRequestAuthenticator({ hmac: { secret: 'secret', toleranceMs: 60000 } });
+
+      const stale = await signRequest(body, 'secret', { timestamp: 1_700_000_000 - 61 });
+      expect(await authenticator.authenticate(createRequest(stale), encoder.encode(body))).toBe(false);
+
+      const fresh = await signRequest(body, 'secret', { timestamp: 1_700_000_000 - 59 });
+      expect(await authenticator.authenticate(createRequest(fresh), encoder.encode(body))).toBe(true);
+    });
+
+    it('should reject replayed signatures', async () => {
+      const authenticator = createRequestAuthenticator({ hmac: { secret: 'secret' } });
+      const headers = await signRequest(body, 'secret');
+
+      expect(await authenticator.authenticate(createRequest(headers), encoder.encode(body))).toBe(true);
+      expect(await authenticator.authenticate(createRequest(headers), encoder.encode(body))).toBe(false);
+    });
+
+    it('should support custom header names', async () => {
+      const hmac = { secret: 'secret', signatureHeader: 'x-hub-signature-256', timestampHeader: 'x-hub-timestamp' };
+      const authenticator = createRequestAuthenticator({ hmac });
+      const headers = await signRequest(body, 'secret', hmac);
+
+      expect(Object.keys(headers).sort()).toEqual(['x-hub-signature-256', 'x-hub-timestamp']);
+      expect(await authenticator.authenticate(createRequest(headers), encoder.encode(body))).toBe(true);
+    });
+  });
+
+  describe('authorize', () => {
+    it('should accept requests when any mode passes', async () => {
+      const authorize = jest.fn(async (request: NextRequest) => request.headers.get('x-session') === 'valid');
+      const authenticator = createRequestAuthenticator({ apiKeys: ['key'], authorize });
+
+      expect(await authenticator.authenticate(createRequest({ authorization: 'Bearer key' }))).toBe(true);
+      expect(authorize).not.toHaveBeenCalled();
+
+      expect(await authenticator.authenticate(createRequest({ 'x-session': 'valid' }))).toBe(true);
+      expect(await authenticator.authenticate(createRequest({ 'x-session': 'expired' }))).toBe(false);
+    });
+  });
+});
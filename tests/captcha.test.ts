@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { NextRequest } from 'next/server';
+import {
+  createTurnstileVerifier,
+  createHCaptchaVerifier,
+  createRecaptchaV3Verifier,
+} from '../src/lib/captcha';
+
+// Local stand-in for the providers' siteverify endpoints
+let server: Server;
+let endpoint: string;
+const received: URLSearchParams[] = [];
+const responses: Record<string, object> = {
+  'valid-token': { success: true, score: 0.9, action: 'contact' },
+  'low-score': { success: true, score: 0.2, action: 'contact' },
+  'other-action': { success: true, score: 0.9, action: 'login' },
+  'invalid-token': { success: false, 'error-codes': ['invalid-input-response'] },
+};
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const params = new URLSearchParams(body);
+      received.push(params);
+
+      if (params.get('secret') === 'server-error') {
+        res.writeHead(500).end();
+        return;
+      }
+
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(responses[params.get('response') || ''] || { success: false }));
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}/siteverify`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+const context = {
+  ip: '1.2.3.4',
+  request: new NextRequest('http://localhost:3000/api/telegram-notify', { method: 'POST' }),
+};
+
+describe('CAPTCHA Verifiers', () => {
+  it('should verify Turnstile tokens', async () => {
+    const verifier = createTurnstileVerifier({ secretKey: 'turnstile-secret', endpoint });
+
+    expect(await verifier.verify('valid-token', context)).toMatchObject({ success: true });
+    expect(await verifier.verify('invalid-token', context)).toEqual({
+      success: false,
+      errorCodes: ['invalid-input-response'],
+    });
+
+    const params = received[received.length - 1];
+    expect(params.get('secret')).toBe('turnstile-secret');
+    expect(params.get('response')).toBe('invalid-token');
+    expect(params.get('remoteip')).toBe('1.2.3.4');
+  });
+
+  it('should verify hCaptcha tokens with an optional site key', async () => {
+    const verifier = createHCaptchaVerifier({ secretKey: 'hcaptcha-secret', siteKey: 'site-key', endpoint });
+
+    expect((await verifier.verify('valid-token', { ...context, ip: 'unknown' })).success).toBe(true);
+
+    const params = received[received.length - 1];
+    expect(params.get('sitekey')).toBe('site-key');
+    expect(params.has('remoteip')).toBe(false);
+  });
+
+  it('should enforce the reCAPTCHA v3 score threshold and action', async () => {
+    const verifier = createRecaptchaV3Verifier({ secretKey: 'recaptcha-secret', minScore: 0.5, action: 'contact', endpoint });
+
+    expect(await verifier.verify('valid-token', context)).toEqual({ success: true, score: 0.9, errorCodes: [] });
+    expect(await verifier.verify('low-score', context)).toEqual({
+      success: false,
+      score: 0.2,
+      errorCodes: ['score-too-low'],
+    });
+    expect((await verifier.verify('other-action', context)).errorCodes).toEqual(['action-mismatch']);
+    expect((await verifier.verify('invalid-token', context)).success).toBe(false);
+  });
+
+  it('should throw when the provider responds with an error', async () => {
+    const verifier = createTurnstileVerifier({ secretKey: 'server-error', endpoint });
+
+    await expect(verifier.verify('valid-token', context)).rejects.toThrow('HTTP 500');
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, jest } from '@jest/globals';
+
+// The Edge runtime has no Node.js modules; fail loudly if anything loads one
+for (const name of ['fs', 'fs/promises', 'os', 'path', 'stream']) {
+  jest.mock(name, () => {
+    throw new Error(`Node.js module "${name}" is not available on the Edge runtime`);
+  });
+}
+
+import { NextRequest } from 'next/server';
+import { createTelegramRoute } from '../src/route/handler';
+import { TelegramClient } from '../src/lib/telegram';
+import { FileRateLimitStore } from '../src/lib/filestore';
+
+type FetchMock = jest.MockedFunction<typeof fetch>;
+
+const globals = globalThis as Record<string, unknown>;
+
+describe('Edge runtime', () => {
+  const originalFetch = global.fetch;
+  const originalBuffer = globals.Buffer;
+  let fetchMock: FetchMock;
+
+  beforeAll(() => {
+    // Mirror the globals of the Edge runtime: no Buffer, and `EdgeRuntime` set
+    delete globals.Buffer;
+    globals.EdgeRuntime = 'edge-runtime';
+  });
+
+  afterAll(() => {
+    globals.Buffer = originalBuffer;
+    delete globals.EdgeRuntime;
+    global.fetch = originalFetch;
+  });
+
+  beforeEach(() => {
+    fetchMock = jest.fn<typeof fetch>().mockImplementation(async () => new Response(
+      JSON.stringify({ ok: true, result: { message_id: 7, date: 0, chat: { id: 12345678, type: 'private' } } }),
+      { headers: { 'Content-Type': 'application/json' } }
+    ));
+    global.fetch = fetchMock;
+  });
+
+  it('should run the route with rate limiting, validation and base64 attachments', async () => {
+    const { POST } = createTelegramRoute({
+      rateLimit: { maxRequests: 5, windowMs: 60000 },
+      cors: { origin: 'https://example.com' },
+      spamProtection: { honeypot: true, duplicateWindowMs: 60000 },
+    });
+
+    const response = await POST(new NextRequest('http://localhost:3000/api/telegram-notify', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', origin: 'https://example.com', 'x-forwarded-for': '1.2.3.4' },
+      body: JSON.stringify({
+        message: 'Deploy finished',
+        files: [{ name: 'log.txt', data: btoa('build ok'), type: 'text/plain' }],
+      }),
+    }));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ success: true, messageId: 7, messageIds: [7] });
+    expect(response.headers.get('X-RateLimit-Remaining')).toBe('4');
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(String(url)).toMatch(/\/sendDocument$/);
+
+    const document = (init!.body as FormData).get('document') as Blob;
+    expect(await document.text()).toBe('build ok');
+  });
+
+  it('should accept multipart uploads', async () => {
+    const { POST } = createTelegramRoute({ rateLimit: false });
+    const formData = new FormData();
+    formData.append('message', 'Screenshot');
+    formData.append('files', new Blob(['png'], { type: 'image/png' }), 'screen.png');
+
+    const response = await POST(new NextRequest('http://localhost:3000/api/telegram-notify', {
+      method: 'POST',
+      body: formData,
+    }));
+
+    expect(response.status).toBe(200);
+
+    const document = (fetchMock.mock.calls[0][1]!.body as FormData).get('document') as Blob;
+    expect(await document.text()).toBe('png');
+  });
+
+  it('should reject Node.js-only features with a clear error', async () => {
+    const client = new TelegramClient({ botToken: 'token', chatId: '123', retry: { retries: 0 } });
+
+    await expect(client.sendDocument({ data: '/tmp/report.pdf', filename: 'report.pdf' })).rejects.toThrow(
+      "Sending a file by path requires the Node.js runtime and can't be used on the Edge runtime"
+    );
+    expect(() => new FileRateLimitStore()).toThrow('FileRateLimitStore requires the Node.js runtime');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -1,12 +1,21 @@
 import { describe, it, expect, beforeEach, jest } from '@jest/globals';
 import { NextRequest, NextResponse } from 'next/server';
 import { POST, createTelegramRoute } from '../src/route/handler';
+import * as routeEntry from '../src/route';
 import * as sendModule from '../src/server/send';
-import type { TelegramNotifyRequest } from '../src/types';
+import { MemoryRateLimitStore, keyByHeader } from '../src/lib/ratelimit';
+import { IpDenyList } from '../src/lib/ip';
+import { signRequest } from '../src/lib/auth';
+import { TelegramError } from '../src/types';
+import type { TelegramNotifyRequest, SendNotificationResult, CaptchaVerifier } from '../src/types';
 
 // Mock the send module
 jest.mock('../src/server/send', () => ({
-  sendTelegramNotification: jest.fn<() => Promise<void>>().mockResolvedValue(undefined as void),
+  sendTelegramNotification: jest.fn<() => Promise<SendNotificationResult>>().mockResolvedValue({
+    messageId: 1,
+    messageIds: [1],
+    chatId: '12345678',
+  }),
 }));
 
 // Helper to create mock NextRequest
@@ -49,7 +58,7 @@ describe('POST Handler', () => {
       const data = await response.json();
 
       expect(response.status).toBe(200);
-      expect(data).toEqual({ success: true });
+      expect(data).toEqual({ success: true, messageId: 1, messageIds: [1] });
       expect(sendModule.sendTelegramNotification).toHaveBeenCalledWith({
         message: 'Test message',
         parseMode: undefined,
@@ -73,6 +82,8 @@ describe('POST Handler', () => {
       expect(data).toEqual({
         success: false,
         error: 'Message is required',
+        code: 'VALIDATION_FAILED',
+        fieldErrors: { message: 'Message is required' },
       });
       expect(sendModule.sendTelegramNotification).not.toHaveBeenCalled();
     });
@@ -82,9 +93,7 @@ describe('POST Handler', () => {
         body: {
           message: 'Test message',
           parseMode: 'HTML',
-          chatId: '123456',
           disableNotification: true,
-          threadId: 789,
         },
         ip: '1.1.1.1',
       });
@@ -94,14 +103,53 @@ describe('POST Handler', () => {
       expect(sendModule.sendTelegramNotification).toHaveBeenCalledWith({
         message: 'Test message',
         parseMode: 'HTML',
-        chatId: '123456',
+        chatId: undefined,
         disableNotification: true,
-        threadId: 789,
+        threadId: undefined,
         files: undefined,
       });
     });
 
-    it('should convert base64 files to Buffer', async () => {
+    it('should reject client-supplied chat ids', async () => {
+      const request = createMockNextRequest({
+        body: { message: 'Test message', chatId: '-100999' },
+        ip: '1.1.1.1',
+      });
+
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(403);
+      expect(data).toEqual({ success: false, error: 'Chat not allowed', code: 'CHAT_NOT_ALLOWED' });
+      expect(sendModule.sendTelegramNotification).not.toHaveBeenCalled();
+    });
+
+    it('should reject client-supplied thread ids', async () => {
+      const request = createMockNextRequest({
+        body: { message: 'Test message', threadId: 789 },
+        ip: '1.1.1.1',
+      });
+
+      const response = await POST(request);
+
+      expect(response.status).toBe(403);
+      expect(sendModule.sendTelegramNotification).not.toHaveBeenCalled();
+    });
+
+    it('should reject client-supplied replyMarkup', async () => {
+      const replyMarkup = { inline_keyboard: [[{ text: 'View order', url: 'https://example.com/orders/1' }]] };
+      const request = createMockNextRequest({
+        body: { message: 'Test message', replyMarkup },
+        ip: '1.1.1.1',
+      });
+
+      const response = await POST(request);
+
+      expect(response.status).toBe(400);
+      expect(sendModule.sendTelegramNotification).not.toHaveBeenCalled();
+    });
+
+    it('should decode base64 files', async () => {
       const request = createMockNextRequest({
         body: {
           message: 'Test with file',
@@ -121,7 +169,39 @@ describe('POST Handler', () => {
       const calls = (sendModule.sendTelegramNotification as jest.MockedFunction<typeof sendModule.sendTelegramNotification>).mock.calls;
       expect(calls[0][0].files).toHaveLength(1);
       const file = calls[0][0].files![0] as any;
-      expect(file.data).toBeInstanceOf(Buffer);
+      expect(file.data).toBeInstanceOf(Uint8Array);
+      expect(new TextDecoder().decode(file.data)).toBe('test content');
+      expect(file.filename).toBe('test.txt');
+      expect(file.mimeType).toBe('text/plain');
+    });
+
+    it('should accept multipart/form-data uploads', async () => {
+      const formData = new FormData();
+      formData.append('message', 'Test with upload');
+      formData.append('parseMode', 'HTML');
+      formData.append('disableNotification', 'true');
+      formData.append('files', new Blob(['test content'], { type: 'text/plain' }), 'test.txt');
+
+      const request = new NextRequest('http://localhost:3000/api/telegram-notify', {
+        method: 'POST',
+        headers: { 'x-forwarded-for': '1.1.1.1' },
+        body: formData,
+      });
+
+      const response = await POST(request);
+
+      expect(response.status).toBe(200);
+
+      const calls = (sendModule.sendTelegramNotification as jest.MockedFunction<typeof sendModule.sendTelegramNotification>).mock.calls;
+      expect(calls[0][0]).toMatchObject({
+        message: 'Test with upload',
+        parseMode: 'HTML',
+        disableNotification: true,
+      });
+      expect(calls[0][0].files).toHaveLength(1);
+      const file = calls[0][0].files![0];
+      expect(file.data).toBeInstanceOf(Blob);
+      expect(await (file.data as Blob).text()).toBe('test content');
       expect(file.filename).toBe('test.txt');
       expect(file.mimeType).toBe('text/plain');
     });
@@ -204,6 +284,36 @@ describe('POST Handler', () => {
     });
   });
 
+  describe('CORS', () => {
+    it('should export a default OPTIONS handler next to POST from the route entry', async () => {
+      expect(routeEntry.POST).toBe(POST);
+
+      const preflight = await routeEntry.OPTIONS(createMockNextRequest({
+        method: 'OPTIONS',
+        headers: {
+          origin: 'https://example.com',
+          'access-control-request-method': 'POST',
+          'access-control-request-headers': 'content-type',
+        },
+      }));
+
+      expect(preflight.status).toBe(204);
+      expect(preflight.headers.get('Access-Control-Allow-Origin')).toBe('*');
+      expect(preflight.headers.get('Access-Control-Allow-Methods')).toBe('POST, OPTIONS');
+    });
+
+    it('should add CORS headers to POST responses', async () => {
+      const response = await routeEntry.POST(createMockNextRequest({
+        body: { message: 'Cross-origin message' },
+        headers: { origin: 'https://example.com' },
+        ip: '4.4.4.4',
+      }));
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Access-Control-Allow-Origin')).toBe('*');
+    });
+  });
+
   describe('Error handling', () => {
     it('should return 500 when sendTelegramNotification throws', async () => {
       (sendModule.sendTelegramNotification as jest.MockedFunction<typeof sendModule.sendTelegramNotification>)
@@ -223,16 +333,46 @@ describe('POST Handler', () => {
       expect(response.status).toBe(500);
       expect(data).toEqual({
         success: false,
-        error: 'Telegram API error',
+        error: 'Failed to send notification',
+        code: 'INTERNAL_ERROR',
       });
     });
 
+    it('should only return error details in debug mode, without the bot token', async () => {
+      const token = '123456789:AAEhBOweik6ad9r_QXMENQjcrGbqCr4K-ra';
+      const originalToken = process.env.TELEGRAM_BOT_TOKEN;
+      process.env.TELEGRAM_BOT_TOKEN = token;
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      const onError = jest.fn<(err: Error) => void>();
+
+      try {
+        (sendModule.sendTelegramNotification as jest.MockedFunction<typeof sendModule.sendTelegramNotification>)
+          .mockRejectedValueOnce(new Error('fetch failed', {
+            cause: new Error(`connect ECONNREFUSED https://api.telegram.org/bot${token}/sendMessage`),
+          }));
+
+        const handler = createTelegramRoute({ rateLimit: false, debug: true, onError });
+        const response = await handler(createMockNextRequest({ body: { message: 'Test message' } }));
+
+        expect(response.status).toBe(500);
+        expect((await response.json()).error).toBe('fetch failed');
+
+        const [error] = onError.mock.calls[0];
+        expect((error.cause as Error).message).toBe('connect ECONNREFUSED https://api.telegram.org/bot[REDACTED]/sendMessage');
+        expect(JSON.stringify(consoleSpy.mock.calls)).not.toContain(token);
+        expect((consoleSpy.mock.calls[0][1] as Error).stack).not.toContain(token);
+      } finally {
+        process.env.TELEGRAM_BOT_TOKEN = originalToken;
+        consoleSpy.mockRestore();
+      }
+    });
+
     it('should handle non-Error exceptions', async () => {
       (sendModule.sendTelegramNotification as jest.MockedFunction<typeof sendModule.sendTelegramNotification>)
         .mockRejectedValueOnce('String error');
 
       // Disable rate limiting to avoid 503
-      const handler = createTelegramRoute({ rateLimit: false });
+      const handler = createTelegramRoute({ rateLimit: false, debug: true });
 
       const request = createMockNextRequest({
         body: { message: 'Test message' },
@@ -246,6 +386,35 @@ describe('POST Handler', () => {
       expect(data.success).toBe(false);
       expect(data.error).toBe('Unknown error');
     });
+
+    it('should map Telegram errors to error codes', async () => {
+      const mockSend = sendModule.sendTelegramNotification as jest.MockedFunction<typeof sendModule.sendTelegramNotification>;
+      mockSend
+        .mockRejectedValueOnce(new TelegramError('Bad Request: chat not found', 400, 'Bad Request: chat not found'))
+        .mockRejectedValueOnce(new TelegramError('Forbidden: bot was blocked by the user', 403, 'Forbidden: bot was blocked by the user'))
+        .mockRejectedValueOnce(new TelegramError('Too Many Requests: retry after 7', 429, 'Too Many Requests', { retry_after: 7 }));
+
+      const handler = createTelegramRoute({ rateLimit: false, debug: true });
+      const send = () => handler(createMockNextRequest({ body: { message: 'Test message' } }));
+
+      const notFound = await send();
+      expect(notFound.status).toBe(502);
+      expect((await notFound.json()).code).toBe('TELEGRAM_CHAT_NOT_FOUND');
+
+      const forbidden = await send();
+      expect(forbidden.status).toBe(502);
+      expect((await forbidden.json()).code).toBe('TELEGRAM_FORBIDDEN');
+
+      const limited = await send();
+      expect(limited.status).toBe(503);
+      expect(limited.headers.get('Retry-After')).toBe('7');
+      expect(await limited.json()).toEqual({
+        success: false,
+        error: 'Too Many Requests: retry after 7',
+        code: 'TELEGRAM_RATE_LIMITED',
+        retryAfter: 7,
+      });
+    });
   });
 });
 
@@ -277,6 +446,8 @@ describe('createTelegramRoute', () => {
 
       expect(lastResponse.status).toBe(429);
       expect(data.error).toContain('Rate limit exceeded');
+      expect(data.code).toBe('RATE_LIMITED');
+      expect(data.retryAfter).toBe(Number(lastResponse.headers.get('Retry-After')));
       expect(lastResponse.headers.get('X-RateLimit-Limit')).toBe('5');
     });
 
@@ -305,6 +476,497 @@ describe('createTelegramRoute', () => {
     });
   });
 
+  describe('Multiple rate limiters', () => {
+    it('should enforce every limiter and report each one', async () => {
+      const handler = createTelegramRoute({
+        rateLimit: [
+          { name: 'user', maxRequests: 2, windowMs: 60000, keyGenerator: keyByHeader('x-user-id') },
+          { name: 'ip', maxRequests: 3, windowMs: 60000 },
+        ],
+      });
+
+      const send = (userId: string) => handler(createMockNextRequest({
+        body: { message: 'Test' },
+        headers: { 'x-user-id': userId },
+        ip: '22.22.22.22',
+      }));
+
+      const first = await send('alice');
+      expect(first.status).toBe(200);
+      expect(first.headers.get('X-RateLimit-Remaining-user')).toBe('1');
+      expect(first.headers.get('X-RateLimit-Remaining-ip')).toBe('2');
+      expect(first.headers.get('X-RateLimit-Remaining')).toBe('1');
+
+      expect((await send('alice')).status).toBe(200);
+
+      // Alice is over her own limit
+      const blocked = await send('alice');
+      expect(blocked.status).toBe(429);
+      expect(blocked.headers.get('X-RateLimit-Limit')).toBe('2');
+      expect(blocked.headers.get('X-RateLimit-Remaining-user')).toBe('0');
+
+      // Bob shares the IP, which now hits the IP limit
+      expect((await send('bob')).status).toBe(200);
+      const ipBlocked = await send('bob');
+      expect(ipBlocked.status).toBe(429);
+      expect(ipBlocked.headers.get('X-RateLimit-Remaining-ip')).toBe('0');
+    });
+
+    it('should not charge the other limiters for a blocked request', async () => {
+      const handler = createTelegramRoute({
+        rateLimit: [
+          { name: 'ip', maxRequests: 5, windowMs: 60000 },
+          { name: 'user', maxRequests: 1, windowMs: 60000, keyGenerator: keyByHeader('x-user-id') },
+        ],
+      });
+
+      const send = (userId: string) => handler(createMockNextRequest({
+        body: { message: 'Test' },
+        headers: { 'x-user-id': userId },
+        ip: '25.25.25.25',
+      }));
+
+      expect((await send('alice')).status).toBe(200);
+      for (let i = 0; i < 3; i++) {
+        expect((await send('alice')).status).toBe(429);
+      }
+
+      const response = await send('bob');
+      expect(response.status).toBe(200);
+      expect(response.headers.get('X-RateLimit-Remaining-ip')).toBe('3');
+    });
+
+    it('should skip limiters whose key is missing', async () => {
+      const handler = createTelegramRoute({
+        rateLimit: [
+          { name: 'user', maxRequests: 1, windowMs: 60000, keyGenerator: keyByHeader('x-user-id') },
+          { name: 'ip', maxRequests: 5, windowMs: 60000 },
+        ],
+      });
+
+      const send = () => handler(createMockNextRequest({ body: { message: 'Test' }, ip: '23.23.23.23' }));
+
+      expect((await send()).status).toBe(200);
+      const response = await send();
+      expect(response.status).toBe(200);
+      expect(response.headers.get('X-RateLimit-Remaining-user')).toBeNull();
+      expect(response.headers.get('X-RateLimit-Remaining-ip')).toBe('3');
+    });
+
+    it('should not let clients spoof their IP through x-forwarded-for', async () => {
+      const handler = createTelegramRoute({
+        rateLimit: { maxRequests: 1, windowMs: 60000 },
+        trustProxy: ['10.0.0.0/8'],
+      });
+
+      const send = (forwardedFor: string) => handler(createMockNextRequest({
+        body: { message: 'Test' },
+        headers: { 'x-forwarded-for': forwardedFor },
+      }));
+
+      expect((await send('1.1.1.1, 24.24.24.24, 10.0.0.1')).status).toBe(200);
+      expect((await send('2.2.2.2, 24.24.24.24, 10.0.0.1')).status).toBe(429);
+    });
+
+    it('should count each limiter separately when they share a store', async () => {
+      const store = new MemoryRateLimitStore();
+      const handler = createTelegramRoute({
+        rateLimit: [
+          { name: 'burst', maxRequests: 3, windowMs: 10000, store },
+          { name: 'hourly', maxRequests: 30, windowMs: 3600000, store },
+        ],
+      });
+
+      const send = () => handler(createMockNextRequest({ body: { message: 'Test' }, ip: '1.1.1.1' }));
+
+      for (let i = 0; i < 3; i++) {
+        expect((await send()).status).toBe(200);
+      }
+
+      const response = await send();
+      expect(response.status).toBe(429);
+      expect(response.headers.get('X-RateLimit-Remaining-burst')).toBe('0');
+      expect(response.headers.get('X-RateLimit-Remaining-hourly')).toBeNull();
+
+      store.destroy();
+    });
+
+    it('should reject limiter names that are not valid in header names', () => {
+      expect(() => createTelegramRoute({
+        rateLimit: [
+          { name: 'per user', maxRequests: 3, windowMs: 10000 },
+          { name: 'ip', maxRequests: 30, windowMs: 3600000 },
+        ],
+      })).toThrow('Invalid rate limit name "per user"');
+
+      expect(() => createTelegramRoute({
+        rateLimit: [
+          { name: 'ip', maxRequests: 3, windowMs: 10000 },
+          { name: 'ip', maxRequests: 30, windowMs: 3600000 },
+        ],
+      })).toThrow('Duplicate rate limit name "ip"');
+    });
+  });
+
+  describe('IP access control', () => {
+    it('should reject addresses outside the allow list', async () => {
+      const onIpBlocked = jest.fn();
+      const handler = createTelegramRoute({
+        ipAllowList: ['10.0.0.0/8', '2001:db8::/32'],
+        onIpBlocked,
+      });
+
+      const send = (ip: string) => handler(createMockNextRequest({ body: { message: 'Test' }, ip }));
+
+      expect((await send('10.1.2.3')).status).toBe(200);
+      expect((await send('2001:db8::5')).status).toBe(200);
+
+      const response = await send('25.25.25.25');
+      expect(response.status).toBe(403);
+      expect(await response.json()).toEqual({ success: false, error: 'IP address not allowed', code: 'IP_DENIED' });
+      expect(onIpBlocked).toHaveBeenCalledWith({ ip: '25.25.25.25', reason: 'not-allowed' }, expect.anything());
+      expect(sendModule.sendTelegramNotification).toHaveBeenCalledTimes(2);
+    });
+
+    it('should reject denied addresses, including ones added at runtime', async () => {
+      const onIpBlocked = jest.fn();
+      const denyList = new IpDenyList(['26.26.0.0/16']);
+      const handler = createTelegramRoute({ ipDenyList: denyList, onIpBlocked });
+
+      const send = (ip: string) => handler(createMockNextRequest({ body: { message: 'Test' }, ip }));
+
+      expect((await send('26.26.1.1')).status).toBe(403);
+      expect(onIpBlocked).toHaveBeenCalledWith({ ip: '26.26.1.1', reason: 'denied' }, expect.anything());
+
+      expect((await send('27.27.27.27')).status).toBe(200);
+      denyList.add('27.27.27.27');
+      expect((await send('27.27.27.27')).status).toBe(403);
+    });
+
+    it('should not count blocked requests against the rate limit', async () => {
+      const handler = createTelegramRoute({
+        rateLimit: { maxRequests: 1, windowMs: 60000 },
+        ipDenyList: ['28.28.28.28'],
+      });
+
+      const send = () => handler(createMockNextRequest({ body: { message: 'Test' }, ip: '28.28.28.28' }));
+
+      expect((await send()).status).toBe(403);
+      expect((await send()).status).toBe(403);
+    });
+
+    it('should throw for invalid ranges when the route is created', () => {
+      expect(() => createTelegramRoute({ ipAllowList: ['10.0.0.0/40'] })).toThrow('Invalid IP address or CIDR range');
+    });
+  });
+
+  describe('Authentication', () => {
+    it('should require a valid API key', async () => {
+      const handler = createTelegramRoute({ auth: { apiKeys: ['key-1', 'key-2'] }, rateLimit: false });
+
+      const send = (headers: Record<string, string>) =>
+        handler(createMockNextRequest({ body: { message: 'Test' }, headers, ip: '32.32.32.32' }));
+
+      const unauthorized = await send({});
+      expect(unauthorized.status).toBe(401);
+      expect(unauthorized.headers.get('WWW-Authenticate')).toBe('Bearer');
+      expect(await unauthorized.json()).toEqual({ success: false, error: 'Unauthorized', code: 'UNAUTHORIZED' });
+
+      expect((await send({ authorization: 'Bearer key-2' })).status).toBe(200);
+      expect(sendModule.sendTelegramNotification).toHaveBeenCalledTimes(1);
+    });
+
+    it('should verify HMAC-signed bodies and still parse them', async () => {
+      const handler = createTelegramRoute({ auth: { hmac: { secret: 'secret' } }, rateLimit: false });
+      const body = JSON.stringify({ message: 'Signed' });
+
+      const send = (headers: Record<string, string>, payload: string = body) =>
+        handler(new NextRequest('http://localhost:3000/api/telegram-notify', {
+          method: 'POST',
+          headers: { 'content-type': 'application/json', 'x-forwarded-for': '33.33.33.33', ...headers },
+          body: payload,
+        }));
+
+      const headers = await signRequest(body, 'secret');
+      expect((await send(headers, JSON.stringify({ message: 'Tampered' }))).status).toBe(401);
+
+      const response = await send(headers);
+      expect(response.status).toBe(200);
+      expect(sendModule.sendTelegramNotification).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'Signed' })
+      );
+    });
+  });
+
+  describe('CAPTCHA', () => {
+    const verifier: CaptchaVerifier = {
+      verify: jest.fn(async (token: string) => ({ success: token === 'human' })),
+    };
+
+    it('should require a valid captchaToken', async () => {
+      const handler = createTelegramRoute({ captcha: verifier, rateLimit: false });
+
+      const send = (body: object) => handler(createMockNextRequest({ body, ip: '34.34.34.34' }));
+
+      const missing = await send({ message: 'Test' });
+      expect(missing.status).toBe(400);
+      expect(await missing.json()).toEqual({ success: false, error: 'CAPTCHA token is required', code: 'CAPTCHA_REQUIRED' });
+
+      const failed = await send({ message: 'Test', captchaToken: 'bot' });
+      expect(failed.status).toBe(403);
+      expect(await failed.json()).toEqual({ success: false, error: 'CAPTCHA verification failed', code: 'CAPTCHA_FAILED' });
+      expect(sendModule.sendTelegramNotification).not.toHaveBeenCalled();
+
+      expect((await send({ message: 'Test', captchaToken: 'human' })).status).toBe(200);
+      expect(verifier.verify).toHaveBeenLastCalledWith('human', expect.objectContaining({ ip: '34.34.34.34' }));
+      expect(sendModule.sendTelegramNotification).toHaveBeenCalledWith(
+        expect.not.objectContaining({ captchaToken: expect.anything() })
+      );
+    });
+
+    it('should read captchaToken from multipart requests', async () => {
+      const handler = createTelegramRoute({ captcha: verifier, rateLimit: false });
+      const formData = new FormData();
+      formData.append('message', 'Test');
+      formData.append('captchaToken', 'human');
+
+      const response = await handler(new NextRequest('http://localhost:3000/api/telegram-notify', {
+        method: 'POST',
+        headers: { 'x-forwarded-for': '35.35.35.35' },
+        body: formData,
+      }));
+
+      expect(response.status).toBe(200);
+    });
+  });
+
+  describe('Spam protection', () => {
+    it('should answer spam with a fake success without sending it', async () => {
+      const onSpam = jest.fn();
+      const handler = createTelegramRoute({
+        spamProtection: { honeypot: true },
+        rateLimit: false,
+        onSpam,
+      });
+
+      const response = await handler(createMockNextRequest({
+        body: { message: 'Buy now', honeypot: 'filled by a bot' },
+        ip: '36.36.36.36',
+      }));
+
+      expect(response.status).toBe(200);
+      expect((await response.json()).success).toBe(true);
+      expect(sendModule.sendTelegramNotification).not.toHaveBeenCalled();
+      expect(onSpam).toHaveBeenCalledWith(
+        { spam: true, score: 0, reasons: ['honeypot'] },
+        expect.objectContaining({ message: 'Buy now' })
+      );
+    });
+
+    it('should divert spam to the moderation chat', async () => {
+      const handler = createTelegramRoute({
+        spamProtection: { blockedKeywords: ['casino'], action: 'moderate', moderationChatId: -100999 },
+        destinations: { support: { chatId: '-100123', threadId: 7 } },
+        rateLimit: false,
+      });
+
+      const response = await handler(createMockNextRequest({
+        body: { message: 'Best casino', destination: 'support' },
+        ip: '37.37.37.37',
+      }));
+
+      expect(response.status).toBe(200);
+      expect(sendModule.sendTelegramNotification).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message: '⚠️ Suspected spam: keywords\n\nBest casino',
+          chatId: '-100999',
+          threadId: undefined,
+        })
+      );
+    });
+
+    it('should issue form tokens through GET and check the fill time', async () => {
+      const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+      const route = createTelegramRoute({
+        spamProtection: { minFillTimeMs: 2000, secret: 'form-secret' },
+        rateLimit: false,
+      });
+
+      const tokenResponse = await route.GET(createMockNextRequest({ method: 'GET' }));
+      const { formToken } = await tokenResponse.json();
+      expect(tokenResponse.headers.get('Cache-Control')).toBe('no-store');
+
+      const send = () => route.POST(createMockNextRequest({ body: { message: 'Hi', formToken }, ip: '38.38.38.38' }));
+
+      await send();
+      expect(sendModule.sendTelegramNotification).not.toHaveBeenCalled();
+
+      nowSpy.mockReturnValue(1_003_000);
+      await send();
+      expect(sendModule.sendTelegramNotification).toHaveBeenCalledTimes(1);
+
+      nowSpy.mockRestore();
+    });
+
+    it('should not issue form tokens to blocked or rate limited clients', async () => {
+      const route = createTelegramRoute({
+        spamProtection: { minFillTimeMs: 2000, secret: 'form-secret' },
+        rateLimit: { maxRequests: 1, windowMs: 60000 },
+        ipDenyList: ['39.39.39.39'],
+      });
+      const getToken = (ip: string) => route.GET(createMockNextRequest({ method: 'GET', ip }));
+
+      expect((await getToken('39.39.39.39')).status).toBe(403);
+
+      // Fetching a token doesn't count against the limit
+      expect((await getToken('40.40.40.40')).status).toBe(200);
+      expect((await getToken('40.40.40.40')).status).toBe(200);
+
+      await route.POST(createMockNextRequest({ body: { message: 'Hi' }, ip: '40.40.40.40' }));
+
+      const limited = await getToken('40.40.40.40');
+      expect(limited.status).toBe(429);
+      expect((await limited.json()).formToken).toBeUndefined();
+    });
+
+    it('should not issue form tokens without a secret', async () => {
+      const route = createTelegramRoute({ rateLimit: false });
+
+      expect((await route.GET(createMockNextRequest({ method: 'GET' }))).status).toBe(404);
+    });
+  });
+
+  describe('Payload validation', () => {
+    it('should reject invalid fields with a 400 per field', async () => {
+      const handler = createTelegramRoute({ rateLimit: false });
+
+      const response = await handler(createMockNextRequest({
+        body: { message: 'Test', parseMode: 'XML', threadId: '5', files: [{ name: 'a.txt', data: 'not base64!' }] },
+      }));
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.fieldErrors).toEqual({
+        parseMode: 'parseMode must be one of HTML, Markdown, MarkdownV2',
+        threadId: 'threadId must be a positive integer',
+        'files.0.data': 'File data must be a base64-encoded string',
+      });
+      expect(data.error).toBe(data.fieldErrors.parseMode);
+      expect(sendModule.sendTelegramNotification).not.toHaveBeenCalled();
+    });
+
+    it('should reject base64 with an impossible length instead of failing to decode it', async () => {
+      const handler = createTelegramRoute({ rateLimit: false });
+
+      const response = await handler(createMockNextRequest({
+        body: { message: 'Test', files: [{ name: 'a.txt', data: 'abcde', type: 'text/plain' }] },
+      }));
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).fieldErrors).toEqual({
+        'files.0.data': 'File data must be a base64-encoded string',
+      });
+      expect(console.error).not.toHaveBeenCalled();
+    });
+
+    it('should run a custom schema before onBeforeSend', async () => {
+      const onBeforeSend = jest.fn();
+      const handler = createTelegramRoute({
+        rateLimit: false,
+        onBeforeSend,
+        schema: {
+          safeParse: (data: unknown) => {
+            const { email } = data as { email?: unknown };
+            return typeof email === 'string' && email.includes('@')
+              ? { success: true }
+              : { success: false, error: { issues: [{ path: ['email'], message: 'Invalid email' }] } };
+          },
+        },
+      });
+
+      const rejected = await handler(createMockNextRequest({
+        body: { message: 'Test', email: 'nope' },
+      }));
+
+      expect(rejected.status).toBe(400);
+      expect(await rejected.json()).toEqual({
+        success: false,
+        error: 'Invalid email',
+        code: 'VALIDATION_FAILED',
+        fieldErrors: { email: 'Invalid email' },
+      });
+      expect(onBeforeSend).not.toHaveBeenCalled();
+
+      const accepted = await handler(createMockNextRequest({
+        body: { message: 'Test', email: 'me@example.com' },
+      }));
+
+      expect(accepted.status).toBe(200);
+      expect(onBeforeSend).toHaveBeenCalledWith({ message: 'Test', email: 'me@example.com' });
+    });
+
+    it('should run a custom schema on multipart fields', async () => {
+      const onBeforeSend = jest.fn();
+      const handler = createTelegramRoute({
+        rateLimit: false,
+        onBeforeSend,
+        schema: {
+          safeParse: (data: unknown) => {
+            const { email } = data as { email?: unknown };
+            return typeof email === 'string' && email.includes('@')
+              ? { success: true }
+              : { success: false, error: { issues: [{ path: ['email'], message: 'Invalid email' }] } };
+          },
+        },
+      });
+
+      const send = (email: string) => {
+        const formData = new FormData();
+        formData.append('message', 'Test');
+        formData.append('email', email);
+        formData.append('files', new File(['report'], 'report.txt', { type: 'text/plain' }));
+
+        return handler(new NextRequest('http://localhost:3000/api/telegram-notify', { method: 'POST', body: formData }));
+      };
+
+      const rejected = await send('nope');
+      expect(rejected.status).toBe(400);
+      expect((await rejected.json()).fieldErrors).toEqual({ email: 'Invalid email' });
+      expect(onBeforeSend).not.toHaveBeenCalled();
+
+      const accepted = await send('me@example.com');
+      expect(accepted.status).toBe(200);
+      expect(onBeforeSend).toHaveBeenCalledWith(expect.objectContaining({ message: 'Test', email: 'me@example.com' }));
+    });
+  });
+
+  describe('Rate limit stores', () => {
+    it('should share limits between handlers using the same store', async () => {
+      const store = new MemoryRateLimitStore();
+      const globalStore = new MemoryRateLimitStore();
+      const options = {
+        rateLimit: { maxRequests: 2, windowMs: 60000, store },
+        globalRateLimit: { store: globalStore },
+      };
+
+      // Two handlers stand in for two serverless instances
+      const instance1 = createTelegramRoute(options);
+      const instance2 = createTelegramRoute(options);
+
+      const send = (handler: typeof instance1) =>
+        handler(createMockNextRequest({ body: { message: 'Test' }, ip: '21.21.21.21' }));
+
+      expect((await send(instance1)).status).toBe(200);
+      expect((await send(instance2)).status).toBe(200);
+      expect((await send(instance1)).status).toBe(429);
+
+      expect((await globalStore.get('global', { windowMs: 1000, now: Date.now() })).count).toBe(2);
+
+      store.destroy();
+      globalStore.destroy();
+    });
+  });
+
   describe('CORS configuration', () => {
     it('should handle CORS preflight request', async () => {
       const handler = createTelegramRoute({
@@ -331,6 +993,74 @@ describe('createTelegramRoute', () => {
       expect(response.headers.get('Access-Control-Allow-Methods')).toContain('POST');
     });
 
+    it('should accept wildcard preview origins and vary on origin', async () => {
+      const handler = createTelegramRoute({
+        allowedOrigins: ['https://*.our-app.vercel.app'],
+        rateLimit: false,
+      });
+
+      const send = (origin: string) => handler(createMockNextRequest({
+        body: { message: 'Test' },
+        headers: { origin },
+        ip: '29.29.29.29',
+      }));
+
+      const allowed = await send('https://pr-7.our-app.vercel.app');
+      expect(allowed.status).toBe(200);
+      expect(allowed.headers.get('Access-Control-Allow-Origin')).toBe('https://pr-7.our-app.vercel.app');
+      expect(allowed.headers.get('Vary')).toBe('Origin');
+
+      expect((await send('https://our-app.vercel.app.evil.com')).status).toBe(403);
+    });
+
+    it('should export POST and OPTIONS handlers for the App Router', async () => {
+      const { POST: post, OPTIONS } = createTelegramRoute({
+        allowedOrigins: ['https://example.com'],
+        rateLimit: false,
+      });
+
+      const preflight = await OPTIONS(createMockNextRequest({
+        method: 'OPTIONS',
+        headers: {
+          origin: 'https://example.com',
+          'access-control-request-method': 'POST',
+          'access-control-request-headers': 'content-type',
+        },
+      }));
+      expect(preflight.status).toBe(204);
+      expect(preflight.headers.get('Access-Control-Allow-Origin')).toBe('https://example.com');
+
+      const rejected = await OPTIONS(createMockNextRequest({
+        method: 'OPTIONS',
+        headers: { origin: 'https://evil.com', 'access-control-request-method': 'POST' },
+      }));
+      expect(rejected.status).toBe(403);
+
+      const response = await post(createMockNextRequest({
+        body: { message: 'Test' },
+        headers: { origin: 'https://example.com' },
+        ip: '30.30.30.30',
+      }));
+      expect(response.status).toBe(200);
+    });
+
+    it('should reject disallowed origins before rate limiting', async () => {
+      const { POST: post } = createTelegramRoute({
+        allowedOrigins: ['https://example.com'],
+        rateLimit: { maxRequests: 1, windowMs: 60000 },
+      });
+
+      const send = (origin: string) => post(createMockNextRequest({
+        body: { message: 'Test' },
+        headers: { origin },
+        ip: '31.31.31.31',
+      }));
+
+      expect((await send('https://evil.com')).status).toBe(403);
+      expect((await send('https://evil.com')).status).toBe(403);
+      expect((await send('https://example.com')).status).toBe(200);
+    });
+
     it('should reject requests from unauthorized origins', async () => {
       const handler = createTelegramRoute({
         cors: { origin: 'https://example.com' },
@@ -447,7 +1177,7 @@ describe('createTelegramRoute', () => {
       const response = await handler(request);
 
       expect(response.status).toBe(500);
-      expect(onError).toHaveBeenCalledWith(error, expect.objectContaining({ message: '' }));
+      expect(onError).toHaveBeenCalledWith(error, requestBody);
     });
 
     it('should support async hooks', async () => {
@@ -472,6 +1202,384 @@ describe('createTelegramRoute', () => {
     });
   });
 
+  describe('Multipart uploads', () => {
+    const createUploadRequest = (content: string, ip: string) => {
+      const formData = new FormData();
+      formData.append('message', 'Upload');
+      formData.append('files', new Blob([content], { type: 'text/plain' }), 'upload.txt');
+
+      return new NextRequest('http://localhost:3000/api/telegram-notify', {
+        method: 'POST',
+        headers: { 'x-forwarded-for': ip, origin: 'https://example.com' },
+        body: formData,
+      });
+    };
+
+    it('should reject files larger than uploadLimits.maxFileSize with 413', async () => {
+      const handler = createTelegramRoute({
+        rateLimit: false,
+        cors: { origin: 'https://example.com' },
+        uploadLimits: { maxFileSize: 4 },
+      });
+
+      const response = await handler(createUploadRequest('too large', '19.19.19.19'));
+      const data = await response.json();
+
+      expect(response.status).toBe(413);
+      expect(data.success).toBe(false);
+      expect(data.error).toContain('exceeds the maximum size');
+      expect(data.code).toBe('PAYLOAD_TOO_LARGE');
+      expect(response.headers.get('Access-Control-Allow-Origin')).toBe('https://example.com');
+      expect(sendModule.sendTelegramNotification).not.toHaveBeenCalled();
+    });
+
+    it('should reject malformed multipart bodies with 400', async () => {
+      const handler = createTelegramRoute({ rateLimit: false });
+
+      const request = new NextRequest('http://localhost:3000/api/telegram-notify', {
+        method: 'POST',
+        headers: { 'content-type': 'multipart/form-data; boundary=abc' },
+        body: '--abc\r\nContent-Disposition: form-data; name="message"\r\n\r\nTruncated',
+      });
+
+      const response = await handler(request);
+
+      expect(response.status).toBe(400);
+      expect(sendModule.sendTelegramNotification).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Body and attachment limits', () => {
+    it('should reject bodies over maxBodySize by Content-Length', async () => {
+      const handler = createTelegramRoute({ rateLimit: false, maxBodySize: 100 });
+
+      const request = createMockNextRequest({
+        body: { message: 'x'.repeat(200) },
+        headers: { 'content-length': '215' },
+      });
+
+      const response = await handler(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(413);
+      expect(data.success).toBe(false);
+      expect(data.error).toContain('maximum size of 100 bytes');
+      expect(sendModule.sendTelegramNotification).not.toHaveBeenCalled();
+    });
+
+    it('should stop reading streamed bodies once maxBodySize is exceeded', async () => {
+      const handler = createTelegramRoute({ rateLimit: false, maxBodySize: 1024 });
+
+      let chunksRead = 0;
+      let cancelled = false;
+      const body = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          chunksRead++;
+          controller.enqueue(new TextEncoder().encode(chunksRead === 1 ? '{"message":"' : 'x'.repeat(512)));
+        },
+        cancel() {
+          cancelled = true;
+        },
+      });
+
+      const request = new NextRequest('http://localhost:3000/api/telegram-notify', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body,
+        duplex: 'half',
+      } as RequestInit & { duplex: 'half' });
+
+      const response = await handler(request);
+
+      expect(response.status).toBe(413);
+      expect(cancelled).toBe(true);
+      expect(chunksRead).toBeLessThan(10);
+      expect(sendModule.sendTelegramNotification).not.toHaveBeenCalled();
+    });
+
+    it('should apply upload limits to base64 JSON files', async () => {
+      const handler = createTelegramRoute({
+        rateLimit: false,
+        uploadLimits: { maxFiles: 1, maxFileSize: 8 },
+      });
+
+      const file = (content: string) => ({
+        data: Buffer.from(content).toString('base64'),
+        name: 'test.txt',
+        type: 'text/plain',
+      });
+
+      const tooMany = await handler(createMockNextRequest({
+        body: { message: 'Test', files: [file('a'), file('b')] },
+      }));
+      expect(tooMany.status).toBe(413);
+      expect((await tooMany.json()).error).toContain('Too many files');
+
+      const tooLarge = await handler(createMockNextRequest({
+        body: { message: 'Test', files: [file('more than eight bytes')] },
+      }));
+      expect(tooLarge.status).toBe(413);
+      expect((await tooLarge.json()).error).toContain('exceeds the maximum size');
+
+      expect(sendModule.sendTelegramNotification).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid JSON with 400', async () => {
+      const handler = createTelegramRoute({ rateLimit: false });
+
+      const request = new NextRequest('http://localhost:3000/api/telegram-notify', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: '{"message":',
+      });
+
+      const response = await handler(request);
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toBe('Invalid JSON body');
+    });
+  });
+
+  describe('SecurityConfig options', () => {
+    it('should handle standard Request objects', async () => {
+      const handler = createTelegramRoute({ rateLimit: false });
+
+      const response = await handler(new Request('http://localhost:3000/api/telegram-notify', {
+        method: 'POST',
+        headers: { 'content-type': 'application/json' },
+        body: JSON.stringify({ message: 'Test' }),
+      }));
+
+      expect(response.status).toBe(200);
+      expect(sendModule.sendTelegramNotification).toHaveBeenCalledWith(expect.objectContaining({ message: 'Test' }));
+    });
+
+    it('should use allowedOrigins as the CORS origin', async () => {
+      const handler = createTelegramRoute({
+        rateLimit: false,
+        allowedOrigins: ['https://example.com'],
+      });
+
+      const allowed = await handler(createMockNextRequest({
+        body: { message: 'Test' },
+        headers: { origin: 'https://example.com' },
+      }));
+      expect(allowed.status).toBe(200);
+      expect(allowed.headers.get('Access-Control-Allow-Origin')).toBe('https://example.com');
+
+      const blocked = await handler(createMockNextRequest({
+        body: { message: 'Test' },
+        headers: { origin: 'https://evil.com' },
+      }));
+      expect(blocked.status).toBe(403);
+    });
+
+    it('should let cors take precedence over allowedOrigins', async () => {
+      const handler = createTelegramRoute({
+        rateLimit: false,
+        cors: { origin: 'https://app.example.com' },
+        allowedOrigins: ['https://example.com'],
+      });
+
+      const response = await handler(createMockNextRequest({
+        body: { message: 'Test' },
+        headers: { origin: 'https://example.com' },
+      }));
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should disable the global rate limit with globalRateLimit: false', async () => {
+      const handler = createTelegramRoute({
+        rateLimit: { maxRequests: 100, windowMs: 60000 },
+        globalRateLimit: false,
+      });
+
+      // The global limiter allows 30 requests per second
+      const responses = await Promise.all(
+        Array.from({ length: 35 }, (_, i) => handler(createMockNextRequest({
+          body: { message: `Test ${i}` },
+          ip: '20.20.20.20',
+        })))
+      );
+
+      expect(responses.every((response) => response.status === 200)).toBe(true);
+    });
+  });
+
+  describe('Destinations', () => {
+    it('should reject client-supplied chat ids by default', async () => {
+      const handler = createTelegramRoute({ rateLimit: false });
+
+      const response = await handler(createMockNextRequest({
+        body: { message: 'Test', chatId: '-100999' },
+      }));
+      const data = await response.json();
+
+      expect(response.status).toBe(403);
+      expect(data).toEqual({ success: false, error: 'Chat not allowed', code: 'CHAT_NOT_ALLOWED' });
+      expect(sendModule.sendTelegramNotification).not.toHaveBeenCalled();
+    });
+
+    it('should accept chat ids from allowedChatIds', async () => {
+      const handler = createTelegramRoute({
+        rateLimit: false,
+        allowedChatIds: ['-100111', -100222],
+      });
+
+      const response = await handler(createMockNextRequest({
+        body: { message: 'Test', chatId: '-100222', threadId: 5 },
+      }));
+
+      expect(response.status).toBe(200);
+      expect(sendModule.sendTelegramNotification).toHaveBeenCalledWith(
+        expect.objectContaining({ chatId: '-100222', threadId: 5 })
+      );
+    });
+
+    it('should reject chat ids that are not in allowedChatIds', async () => {
+      const handler = createTelegramRoute({
+        rateLimit: false,
+        allowedChatIds: ['-100111'],
+      });
+
+      const response = await handler(createMockNextRequest({
+        body: { message: 'Test', chatId: '-100999' },
+      }));
+
+      expect(response.status).toBe(403);
+      expect(sendModule.sendTelegramNotification).not.toHaveBeenCalled();
+    });
+
+    it('should resolve named destinations', async () => {
+      const handler = createTelegramRoute({
+        rateLimit: false,
+        destinations: {
+          support: { chatId: '-100111' },
+          bugs: { chatId: -100222, threadId: 42 },
+        },
+      });
+
+      const response = await handler(createMockNextRequest({
+        body: { message: 'Crash report', destination: 'bugs' },
+      }));
+
+      expect(response.status).toBe(200);
+      expect(sendModule.sendTelegramNotification).toHaveBeenCalledWith(
+        expect.objectContaining({ chatId: '-100222', threadId: 42 })
+      );
+    });
+
+    it('should reject unknown destinations', async () => {
+      const handler = createTelegramRoute({
+        rateLimit: false,
+        destinations: { support: { chatId: '-100111' } },
+      });
+
+      const unknown = await handler(createMockNextRequest({
+        body: { message: 'Test', destination: 'sales' },
+      }));
+      expect(unknown.status).toBe(400);
+      expect((await unknown.json()).error).toBe('Unknown destination');
+
+      const inherited = await handler(createMockNextRequest({
+        body: { message: 'Test', destination: 'toString' },
+      }));
+      expect(inherited.status).toBe(400);
+
+      expect(sendModule.sendTelegramNotification).not.toHaveBeenCalled();
+    });
+
+    it('should not allow overriding a destination chat or thread', async () => {
+      const handler = createTelegramRoute({
+        rateLimit: false,
+        destinations: { support: { chatId: '-100111' } },
+      });
+
+      const response = await handler(createMockNextRequest({
+        body: { message: 'Test', destination: 'support', threadId: 7 },
+      }));
+
+      expect(response.status).toBe(400);
+      expect(sendModule.sendTelegramNotification).not.toHaveBeenCalled();
+    });
+
+    it('should restrict parse modes with allowedParseModes', async () => {
+      const handler = createTelegramRoute({
+        rateLimit: false,
+        allowedParseModes: ['MarkdownV2'],
+      });
+
+      const response = await handler(createMockNextRequest({
+        body: { message: '<b>Test</b>', parseMode: 'HTML' },
+      }));
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toBe('Parse mode not allowed');
+      expect(sendModule.sendTelegramNotification).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown parse modes', async () => {
+      const handler = createTelegramRoute({ rateLimit: false });
+
+      const response = await handler(createMockNextRequest({
+        body: { message: 'Test', parseMode: 'XML' },
+      }));
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should reject client-supplied replyMarkup by default', async () => {
+      const handler = createTelegramRoute({ rateLimit: false });
+
+      const response = await handler(createMockNextRequest({
+        body: {
+          message: 'Test',
+          replyMarkup: { inline_keyboard: [[{ text: 'Log in', login_url: { url: 'https://evil.example.com' } }]] },
+        },
+      }));
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({
+        success: false,
+        error: 'Reply markup not allowed',
+        code: 'VALIDATION_FAILED',
+      });
+      expect(sendModule.sendTelegramNotification).not.toHaveBeenCalled();
+    });
+
+    it('should accept replyMarkup with allowReplyMarkup', async () => {
+      const replyMarkup = { inline_keyboard: [[{ text: 'View order', url: 'https://example.com/orders/1' }]] };
+      const handler = createTelegramRoute({ rateLimit: false, allowReplyMarkup: true });
+
+      const response = await handler(createMockNextRequest({
+        body: { message: 'Test', replyMarkup },
+      }));
+
+      expect(response.status).toBe(200);
+      expect(sendModule.sendTelegramNotification).toHaveBeenCalledWith(
+        expect.objectContaining({ replyMarkup })
+      );
+    });
+
+    it('should send a keyboard attached in onBeforeSend', async () => {
+      const replyMarkup = { inline_keyboard: [[{ text: 'Open dashboard', url: 'https://admin.example.com' }]] };
+      const handler = createTelegramRoute({
+        rateLimit: false,
+        onBeforeSend: (request) => {
+          request.replyMarkup = replyMarkup;
+        },
+      });
+
+      const response = await handler(createMockNextRequest({ body: { message: 'Test' } }));
+
+      expect(response.status).toBe(200);
+      expect(sendModule.sendTelegramNotification).toHaveBeenCalledWith(
+        expect.objectContaining({ replyMarkup })
+      );
+    });
+  });
+
   describe('Combined security features', () => {
     it('should apply both rate limiting and CORS', async () => {
       const handler = createTelegramRoute({
@@ -0,0 +1,72 @@
+import { describe, it, expect } from '@jest/globals';
+import { InlineKeyboard } from '../src/lib/keyboard';
+
+describe('InlineKeyboard', () => {
+  it('should build URL buttons in a single row', () => {
+    const markup = new InlineKeyboard()
+      .url('Open in admin', 'https://admin.example.com/orders/1')
+      .url('Reply by email', 'mailto:user@example.com')
+      .build();
+
+    expect(markup).toEqual({
+      inline_keyboard: [
+        [
+          { text: 'Open in admin', url: 'https://admin.example.com/orders/1' },
+          { text: 'Reply by email', url: 'mailto:user@example.com' },
+        ],
+      ],
+    });
+  });
+
+  it('should start new rows', () => {
+    const markup = new InlineKeyboard()
+      .url('View order', 'https://example.com/orders/1')
+      .row()
+      .callback('Mark as handled', 'handled:1')
+      .build();
+
+    expect(markup.inline_keyboard).toEqual([
+      [{ text: 'View order', url: 'https://example.com/orders/1' }],
+      [{ text: 'Mark as handled', callback_data: 'handled:1' }],
+    ]);
+  });
+
+  it('should ignore empty rows', () => {
+    const markup = new InlineKeyboard()
+      .row()
+      .url('A', 'https://example.com')
+      .row()
+      .row()
+      .build();
+
+    expect(markup.inline_keyboard).toHaveLength(1);
+  });
+
+  it('should build login and web app buttons', () => {
+    const markup = new InlineKeyboard()
+      .login('Log in', 'https://example.com/auth', { request_write_access: true })
+      .webApp('Open app', 'https://example.com/app')
+      .build();
+
+    expect(markup.inline_keyboard[0]).toEqual([
+      { text: 'Log in', login_url: { url: 'https://example.com/auth', request_write_access: true } },
+      { text: 'Open app', web_app: { url: 'https://example.com/app' } },
+    ]);
+  });
+
+  it('should reject callback data over 64 bytes', () => {
+    const keyboard = new InlineKeyboard();
+
+    expect(() => keyboard.callback('Too long', 'x'.repeat(65))).toThrow('between 1 and 64 bytes');
+    expect(() => keyboard.callback('Multibyte', 'é'.repeat(33))).toThrow('between 1 and 64 bytes');
+    expect(() => keyboard.callback('Empty', '')).toThrow('between 1 and 64 bytes');
+  });
+
+  it('should serialize to Telegram reply_markup JSON', () => {
+    const markup = new InlineKeyboard().callback('Done', 'done').build();
+
+    expect(JSON.parse(JSON.stringify(markup))).toEqual({
+      inline_keyboard: [[{ text: 'Done', callback_data: 'done' }]],
+    });
+  });
+});
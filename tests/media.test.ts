@@ -0,0 +1,104 @@
+import { describe, it, expect } from '@jest/globals';
+import { getMediaType, groupMediaFiles, isPhotoRejected, MAX_MEDIA_GROUP_SIZE, MAX_PHOTO_SIZE } from '../src/lib/media';
+import { TelegramError } from '../src/types';
+import type { FileAttachment } from '../src/types';
+
+function createFile(filename: string, mimeType?: string): FileAttachment {
+  return { data: Buffer.from(filename), filename, mimeType };
+}
+
+describe('Media Utilities', () => {
+  describe('getMediaType()', () => {
+    it('should detect photos', () => {
+      expect(getMediaType(createFile('a.jpg', 'image/jpeg'))).toBe('photo');
+      expect(getMediaType(createFile('a.png', 'image/png'))).toBe('photo');
+      expect(getMediaType(createFile('a.webp', 'image/webp'))).toBe('photo');
+    });
+
+    it('should send unsupported images as documents', () => {
+      expect(getMediaType(createFile('a.gif', 'image/gif'))).toBe('document');
+      expect(getMediaType(createFile('a.svg', 'image/svg+xml'))).toBe('document');
+    });
+
+    it('should detect videos and audio', () => {
+      expect(getMediaType(createFile('a.mp4', 'video/mp4'))).toBe('video');
+      expect(getMediaType(createFile('a.mp3', 'audio/mpeg'))).toBe('audio');
+    });
+
+    it('should default to document', () => {
+      expect(getMediaType(createFile('a.pdf', 'application/pdf'))).toBe('document');
+      expect(getMediaType(createFile('a.bin'))).toBe('document');
+    });
+
+    it('should be case-insensitive', () => {
+      expect(getMediaType(createFile('a.PNG', 'IMAGE/PNG'))).toBe('photo');
+    });
+
+    it('should send images over the photo size limit as documents', () => {
+      const large = new Uint8Array(MAX_PHOTO_SIZE + 1);
+
+      expect(getMediaType({ data: large, filename: 'a.png', mimeType: 'image/png' })).toBe('document');
+      expect(getMediaType({ data: new Blob([large]), filename: 'a.png', mimeType: 'image/png' })).toBe('document');
+      expect(getMediaType({ data: '/tmp/a.png', filename: 'a.png', mimeType: 'image/png' })).toBe('photo');
+    });
+  });
+
+  describe('isPhotoRejected()', () => {
+    it('should detect photos Telegram could not process', () => {
+      expect(isPhotoRejected(new TelegramError('Bad Request: PHOTO_INVALID_DIMENSIONS', 400, 'Bad Request: PHOTO_INVALID_DIMENSIONS'))).toBe(true);
+      expect(isPhotoRejected(new TelegramError('Bad Request: chat not found', 400, 'Bad Request: chat not found'))).toBe(false);
+      expect(isPhotoRejected(new Error('PHOTO_INVALID_DIMENSIONS'))).toBe(false);
+    });
+  });
+
+  describe('groupMediaFiles()', () => {
+    it('should keep photos and videos in the same album', () => {
+      const files = [
+        createFile('a.png', 'image/png'),
+        createFile('b.mp4', 'video/mp4'),
+        createFile('c.jpg', 'image/jpeg'),
+      ];
+
+      const groups = groupMediaFiles(files);
+
+      expect(groups).toHaveLength(1);
+      expect(groups[0].map((f) => f.filename)).toEqual(['a.png', 'b.mp4', 'c.jpg']);
+    });
+
+    it('should separate documents and audio from visual media', () => {
+      const files = [
+        createFile('a.png', 'image/png'),
+        createFile('log.txt', 'text/plain'),
+        createFile('b.png', 'image/png'),
+        createFile('voice.mp3', 'audio/mpeg'),
+        createFile('trace.txt', 'text/plain'),
+      ];
+
+      const groups = groupMediaFiles(files);
+
+      expect(groups.map((g) => g.map((f) => f.filename))).toEqual([
+        ['a.png', 'b.png'],
+        ['log.txt', 'trace.txt'],
+        ['voice.mp3'],
+      ]);
+    });
+
+    it('should split albums larger than the maximum group size', () => {
+      const files = Array.from({ length: 23 }, (_, i) => createFile(`${i}.png`, 'image/png'));
+
+      const groups = groupMediaFiles(files);
+
+      expect(groups.map((g) => g.length)).toEqual([MAX_MEDIA_GROUP_SIZE, MAX_MEDIA_GROUP_SIZE, 3]);
+    });
+
+    it('should respect a custom group size', () => {
+      const files = Array.from({ length: 5 }, (_, i) => createFile(`${i}.txt`, 'text/plain'));
+
+      expect(groupMediaFiles(files, 2).map((g) => g.length)).toEqual([2, 2, 1]);
+    });
+
+    it('should return no groups for no files', () => {
+      expect(groupMediaFiles([])).toEqual([]);
+    });
+  });
+});
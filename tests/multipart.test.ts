@@ -0,0 +1,137 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseMultipart, getMultipartBoundary, MultipartError } from '../src/lib/multipart';
+
+const BOUNDARY = '----test-boundary';
+
+function createBody(parts: Array<{ name: string; value: string; filename?: string; type?: string }>): string {
+  return (
+    parts
+      .map(({ name, value, filename, type }) => {
+        let headers = `Content-Disposition: form-data; name="${name}"`;
+        if (filename !== undefined) {
+          headers += `; filename="${filename}"\r\nContent-Type: ${type || 'application/octet-stream'}`;
+        }
+        return `--${BOUNDARY}\r\n${headers}\r\n\r\n${value}\r\n`;
+      })
+      .join('') + `--${BOUNDARY}--\r\n`
+  );
+}
+
+// Stream the body in small chunks so delimiters get split across reads
+function createStream(body: string, chunkSize: number = 7): ReadableStream<Uint8Array> {
+  const bytes = new TextEncoder().encode(body);
+  let offset = 0;
+
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (offset >= bytes.length) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(bytes.slice(offset, offset + chunkSize));
+      offset += chunkSize;
+    },
+  });
+}
+
+describe('Multipart Parser', () => {
+  describe('getMultipartBoundary()', () => {
+    it('should extract plain and quoted boundaries', () => {
+      expect(getMultipartBoundary('multipart/form-data; boundary=abc123')).toBe('abc123');
+      expect(getMultipartBoundary('multipart/form-data; boundary="a b"; charset=utf-8')).toBe('a b');
+    });
+
+    it('should return null for other content types', () => {
+      expect(getMultipartBoundary('application/json')).toBeNull();
+      expect(getMultipartBoundary(null)).toBeNull();
+      expect(getMultipartBoundary('multipart/form-data')).toBeNull();
+    });
+  });
+
+  describe('parseMultipart()', () => {
+    it('should parse fields and files', async () => {
+      const body = createBody([
+        { name: 'message', value: 'Hello\r\nworld 👋' },
+        { name: 'parseMode', value: 'HTML' },
+        { name: 'files', value: 'file content', filename: 'a.txt', type: 'text/plain' },
+        { name: 'files', value: '\u0000binary', filename: 'b.bin' },
+      ]);
+
+      const { fields, files } = await parseMultipart(createStream(body), BOUNDARY);
+
+      expect(fields).toEqual({ message: 'Hello\r\nworld 👋', parseMode: 'HTML' });
+      expect(files).toHaveLength(2);
+      expect(files[0].filename).toBe('a.txt');
+      expect(files[0].mimeType).toBe('text/plain');
+      expect(await (files[0].data as Blob).text()).toBe('file content');
+      expect(files[1].filename).toBe('b.bin');
+      expect((files[1].data as Blob).size).toBe(7);
+    });
+
+    it('should ignore empty file inputs', async () => {
+      const body = createBody([
+        { name: 'message', value: 'Hi' },
+        { name: 'files', value: '', filename: '' },
+      ]);
+
+      const { files } = await parseMultipart(createStream(body), BOUNDARY);
+
+      expect(files).toHaveLength(0);
+    });
+
+    it('should reject too many files with 413', async () => {
+      const body = createBody([
+        { name: 'files', value: '1', filename: '1.txt' },
+        { name: 'files', value: '2', filename: '2.txt' },
+      ]);
+
+      const error = await parseMultipart(createStream(body), BOUNDARY, { maxFiles: 1 }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(MultipartError);
+      expect(error.status).toBe(413);
+    });
+
+    it('should stop reading once a file exceeds maxFileSize', async () => {
+      let chunksRead = 0;
+      let cancelled = false;
+      const header = new TextEncoder().encode(
+        `--${BOUNDARY}\r\nContent-Disposition: form-data; name="files"; filename="big.bin"\r\n\r\n`
+      );
+
+      const stream = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          chunksRead++;
+          controller.enqueue(chunksRead === 1 ? header : new Uint8Array(1024));
+        },
+        cancel() {
+          cancelled = true;
+        },
+      });
+
+      await expect(parseMultipart(stream, BOUNDARY, { maxFileSize: 4096 })).rejects.toMatchObject({
+        status: 413,
+      });
+      expect(cancelled).toBe(true);
+      expect(chunksRead).toBeLessThan(10);
+    });
+
+    it('should enforce maxTotalFileSize across files', async () => {
+      const body = createBody([
+        { name: 'files', value: 'aaaa', filename: 'a.txt' },
+        { name: 'files', value: 'bbbb', filename: 'b.txt' },
+      ]);
+
+      await expect(
+        parseMultipart(createStream(body), BOUNDARY, { maxFileSize: 5, maxTotalFileSize: 6 })
+      ).rejects.toMatchObject({ status: 413 });
+    });
+
+    it('should reject truncated bodies', async () => {
+      const body = `--${BOUNDARY}\r\nContent-Disposition: form-data; name="message"\r\n\r\nHello`;
+
+      await expect(parseMultipart(createStream(body), BOUNDARY)).rejects.toMatchObject({
+        status: 400,
+      });
+    });
+  });
+});
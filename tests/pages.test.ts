@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { Readable } from 'stream';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { createTelegramApiHandler } from '../src/route/pages';
+import * as sendModule from '../src/server/send';
+import { signRequest } from '../src/lib/auth';
+import type { SendNotificationResult } from '../src/types';
+
+jest.mock('../src/server/send', () => ({
+  sendTelegramNotification: jest.fn<() => Promise<SendNotificationResult>>().mockResolvedValue({
+    messageId: 1,
+    messageIds: [1],
+    chatId: '12345678',
+  }),
+}));
+
+function createMockApiRequest(options: {
+  method?: string;
+  headers?: Record<string, string>;
+  /** Raw body, streamed as with `bodyParser: false` */
+  rawBody?: string;
+  /** Body already parsed by Next.js' body parser */
+  parsedBody?: unknown;
+  remoteAddress?: string;
+}): NextApiRequest {
+  const req = Readable.from(options.rawBody !== undefined ? [Buffer.from(options.rawBody)] : []) as unknown as NextApiRequest;
+
+  Object.assign(req, {
+    method: options.method || 'POST',
+    url: '/api/telegram-notify',
+    headers: { host: 'localhost:3000', ...options.headers },
+    body: options.parsedBody,
+    socket: { remoteAddress: options.remoteAddress || '127.0.0.1' },
+  });
+
+  return req;
+}
+
+function createMockApiResponse() {
+  const result = { status: 200, headers: {} as Record<string, string>, body: '' };
+
+  const res = {
+    status(code: number) {
+      result.status = code;
+      return res;
+    },
+    setHeader(name: string, value: string) {
+      result.headers[name.toLowerCase()] = value;
+      return res;
+    },
+    json(body: unknown) {
+      result.headers['content-type'] = 'application/json';
+      result.body = JSON.stringify(body);
+    },
+    end(chunk?: Uint8Array) {
+      result.body = chunk ? new TextDecoder().decode(chunk) : '';
+    },
+  };
+
+  return { res: res as unknown as NextApiResponse, result };
+}
+
+describe('createTelegramApiHandler', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should send notifications from a streamed body', async () => {
+    const handler = createTelegramApiHandler({ rateLimit: false });
+    const { res, result } = createMockApiResponse();
+
+    await handler(createMockApiRequest({
+      headers: { 'content-type': 'application/json' },
+      rawBody: JSON.stringify({ message: 'Hello from pages' }),
+    }), res);
+
+    expect(result.status).toBe(200);
+    expect(JSON.parse(result.body)).toEqual({ success: true, messageId: 1, messageIds: [1] });
+    expect(sendModule.sendTelegramNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ message: 'Hello from pages' })
+    );
+  });
+
+  it('should accept bodies already parsed by the body parser', async () => {
+    const handler = createTelegramApiHandler({ rateLimit: false });
+    const { res, result } = createMockApiResponse();
+
+    await handler(createMockApiRequest({
+      headers: { 'content-type': 'application/json', 'content-length': '3' },
+      parsedBody: { message: 'Parsed' },
+    }), res);
+
+    expect(result.status).toBe(200);
+    expect(sendModule.sendTelegramNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ message: 'Parsed' })
+    );
+  });
+
+  it('should share validation, CORS and rate limiting with the App Router handler', async () => {
+    const handler = createTelegramApiHandler({
+      rateLimit: { maxRequests: 1, windowMs: 60000 },
+      cors: { origin: 'https://example.com' },
+    });
+
+    const invalid = createMockApiResponse();
+    await handler(createMockApiRequest({
+      headers: { 'content-type': 'application/json', origin: 'https://example.com' },
+      rawBody: JSON.stringify({ message: 'Hi', threadId: 'abc' }),
+    }), invalid.res);
+
+    expect(invalid.result.status).toBe(400);
+    expect(JSON.parse(invalid.result.body).code).toBe('VALIDATION_FAILED');
+    expect(invalid.result.headers['access-control-allow-origin']).toBe('https://example.com');
+
+    const limited = createMockApiResponse();
+    await handler(createMockApiRequest({
+      headers: { 'content-type': 'application/json' },
+      rawBody: JSON.stringify({ message: 'Hi' }),
+    }), limited.res);
+
+    expect(limited.result.status).toBe(429);
+    expect(limited.result.headers['retry-after']).toBeDefined();
+
+    const preflight = createMockApiResponse();
+    await handler(createMockApiRequest({
+      method: 'OPTIONS',
+      headers: { origin: 'https://evil.com', 'access-control-request-method': 'POST' },
+    }), preflight.res);
+
+    expect(preflight.result.status).toBe(403);
+  });
+
+  it('should use the socket address as the client IP', async () => {
+    const handler = createTelegramApiHandler({ rateLimit: false, trustProxy: false, ipDenyList: ['10.0.0.1'] });
+    const { res, result } = createMockApiResponse();
+
+    await handler(createMockApiRequest({
+      headers: { 'content-type': 'application/json', 'x-forwarded-for': '1.2.3.4' },
+      rawBody: JSON.stringify({ message: 'Hi' }),
+      remoteAddress: '10.0.0.1',
+    }), res);
+
+    expect(result.status).toBe(403);
+    expect(JSON.parse(result.body).code).toBe('IP_DENIED');
+  });
+
+  it('should verify HMAC signatures against the raw body', async () => {
+    const handler = createTelegramApiHandler({ rateLimit: false, auth: { hmac: { secret: 'shared-secret' } } });
+    const { res, result } = createMockApiResponse();
+    const rawBody = JSON.stringify({ message: 'Signed' });
+
+    await handler(createMockApiRequest({
+      headers: { 'content-type': 'application/json', ...(await signRequest(rawBody, 'shared-secret')) },
+      rawBody,
+    }), res);
+
+    expect(result.status).toBe(200);
+  });
+
+  it('should reject other methods with 405', async () => {
+    const handler = createTelegramApiHandler();
+    const { res, result } = createMockApiResponse();
+
+    await handler(createMockApiRequest({ method: 'PUT' }), res);
+
+    expect(result.status).toBe(405);
+    expect(result.headers.allow).toBe('GET, POST, OPTIONS');
+    expect(sendModule.sendTelegramNotification).not.toHaveBeenCalled();
+  });
+});
@@ -1,5 +1,21 @@
 import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
-import { RateLimiter, createDefaultRateLimiter, createGlobalRateLimiter, createStrictRateLimiter } from '../src/lib/ratelimit';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  RateLimiter,
+  MemoryRateLimitStore,
+  createDefaultRateLimiter,
+  createGlobalRateLimiter,
+  createStrictRateLimiter,
+  keyByIp,
+  keyByHeader,
+  keyByCookie,
+  combineKeys,
+} from '../src/lib/ratelimit';
+import { NextRequest } from 'next/server';
+import { FileRateLimitStore } from '../src/lib/filestore';
+import type { RateLimitStore } from '../src/types';
 
 describe('RateLimiter', () => {
   let limiter: RateLimiter;
@@ -16,43 +32,43 @@ describe('RateLimiter', () => {
   });
 
   describe('check()', () => {
-    it('should allow requests within limit', () => {
+    it('should allow requests within limit', async () => {
       const ip = '192.168.1.1';
 
       for (let i = 0; i < 5; i++) {
-        const result = limiter.check(ip);
+        const result = await limiter.check(ip);
         expect(result.allowed).toBe(true);
         expect(result.retryAfter).toBeUndefined();
       }
     });
 
-    it('should block requests exceeding limit', () => {
+    it('should block requests exceeding limit', async () => {
       const ip = '192.168.1.1';
 
       // Use up the limit
       for (let i = 0; i < 5; i++) {
-        limiter.check(ip);
+        await limiter.check(ip);
       }
 
       // Next request should be blocked
-      const result = limiter.check(ip);
+      const result = await limiter.check(ip);
       expect(result.allowed).toBe(false);
       expect(result.retryAfter).toBeGreaterThan(0);
       expect(result.retryAfter).toBeLessThanOrEqual(1);
     });
 
-    it('should track different IPs separately', () => {
+    it('should track different IPs separately', async () => {
       const ip1 = '192.168.1.1';
       const ip2 = '192.168.1.2';
 
       // Use up limit for ip1
       for (let i = 0; i < 5; i++) {
-        limiter.check(ip1);
+        await limiter.check(ip1);
       }
 
       // ip2 should still be allowed
-      const result1 = limiter.check(ip1);
-      const result2 = limiter.check(ip2);
+      const result1 = await limiter.check(ip1);
+      const result2 = await limiter.check(ip2);
 
       expect(result1.allowed).toBe(false);
       expect(result2.allowed).toBe(true);
@@ -63,16 +79,16 @@ describe('RateLimiter', () => {
 
       // Use up the limit
       for (let i = 0; i < 5; i++) {
-        limiter.check(ip);
+        await limiter.check(ip);
       }
 
-      expect(limiter.check(ip).allowed).toBe(false);
+      expect((await limiter.check(ip)).allowed).toBe(false);
 
       // Wait for window to expire
       await new Promise(resolve => setTimeout(resolve, 1100));
 
       // Should be allowed again
-      const result = limiter.check(ip);
+      const result = await limiter.check(ip);
       expect(result.allowed).toBe(true);
     }, 2000);
 
@@ -81,81 +97,81 @@ describe('RateLimiter', () => {
 
       // Make 5 requests
       for (let i = 0; i < 5; i++) {
-        limiter.check(ip);
+        await limiter.check(ip);
       }
 
-      expect(limiter.check(ip).allowed).toBe(false);
+      expect((await limiter.check(ip)).allowed).toBe(false);
 
       // Wait 200ms (some requests should expire)
       await new Promise(resolve => setTimeout(resolve, 200));
 
       // Make one more request - should still be blocked
-      expect(limiter.check(ip).allowed).toBe(false);
+      expect((await limiter.check(ip)).allowed).toBe(false);
 
       // Wait for first request to expire (total 1000ms)
       await new Promise(resolve => setTimeout(resolve, 900));
 
       // Should allow new request
-      expect(limiter.check(ip).allowed).toBe(true);
+      expect((await limiter.check(ip)).allowed).toBe(true);
     }, 2000);
   });
 
   describe('getUsage()', () => {
-    it('should return usage stats', () => {
+    it('should return usage stats', async () => {
       const ip = '192.168.1.1';
 
-      const usage1 = limiter.getUsage(ip);
+      const usage1 = await limiter.getUsage(ip);
       expect(usage1.count).toBe(0);
 
-      limiter.check(ip);
-      limiter.check(ip);
-      limiter.check(ip);
+      await limiter.check(ip);
+      await limiter.check(ip);
+      await limiter.check(ip);
 
-      const usage2 = limiter.getUsage(ip);
+      const usage2 = await limiter.getUsage(ip);
       expect(usage2.count).toBe(3);
       expect(usage2.resetAt).toBeGreaterThan(Date.now());
     });
 
-    it('should return zero for unknown IPs', () => {
-      const usage = limiter.getUsage('unknown-ip');
+    it('should return zero for unknown IPs', async () => {
+      const usage = await limiter.getUsage('unknown-ip');
       expect(usage.count).toBe(0);
       expect(usage.resetAt).toBeGreaterThan(Date.now());
     });
   });
 
   describe('reset()', () => {
-    it('should reset specific IP', () => {
+    it('should reset specific IP', async () => {
       const ip = '192.168.1.1';
 
       // Use up the limit
       for (let i = 0; i < 5; i++) {
-        limiter.check(ip);
+        await limiter.check(ip);
       }
 
-      expect(limiter.check(ip).allowed).toBe(false);
+      expect((await limiter.check(ip)).allowed).toBe(false);
 
       // Reset
-      limiter.reset(ip);
+      await limiter.reset(ip);
 
       // Should be allowed again
-      expect(limiter.check(ip).allowed).toBe(true);
+      expect((await limiter.check(ip)).allowed).toBe(true);
     });
 
-    it('should only reset specified IP', () => {
+    it('should only reset specified IP', async () => {
       const ip1 = '192.168.1.1';
       const ip2 = '192.168.1.2';
 
       // Use up limits
       for (let i = 0; i < 5; i++) {
-        limiter.check(ip1);
-        limiter.check(ip2);
+        await limiter.check(ip1);
+        await limiter.check(ip2);
       }
 
       // Reset only ip1
-      limiter.reset(ip1);
+      await limiter.reset(ip1);
 
-      expect(limiter.check(ip1).allowed).toBe(true);
-      expect(limiter.check(ip2).allowed).toBe(false);
+      expect((await limiter.check(ip1)).allowed).toBe(true);
+      expect((await limiter.check(ip2)).allowed).toBe(false);
     });
   });
 
@@ -163,18 +179,18 @@ describe('RateLimiter', () => {
     it('should remove expired entries', async () => {
       const ip = '192.168.1.1';
 
-      limiter.check(ip);
+      await limiter.check(ip);
 
       // Wait for window to expire, cleanup happens automatically
       await new Promise(resolve => setTimeout(resolve, 1100));
 
-      const usage = limiter.getUsage(ip);
+      const usage = await limiter.getUsage(ip);
       expect(usage.count).toBe(0);
     }, 2000);
   });
 
   describe('destroy()', () => {
-    it('should stop cleanup interval', () => {
+    it('should stop cleanup interval', async () => {
       const limiter2 = new RateLimiter({
         maxRequests: 5,
         windowMs: 1000,
@@ -183,57 +199,57 @@ describe('RateLimiter', () => {
       limiter2.destroy();
 
       // Should not throw after destroy
-      expect(() => limiter2.check('test')).not.toThrow();
+      await expect(limiter2.check('test')).resolves.toEqual({ allowed: true });
     });
   });
 });
 
 describe('Factory Functions', () => {
   describe('createDefaultRateLimiter()', () => {
-    it('should create limiter with default settings', () => {
+    it('should create limiter with default settings', async () => {
       const limiter = createDefaultRateLimiter();
       const ip = '192.168.1.1';
 
       // Should allow 20 requests
       for (let i = 0; i < 20; i++) {
-        expect(limiter.check(ip).allowed).toBe(true);
+        expect((await limiter.check(ip)).allowed).toBe(true);
       }
 
       // 21st should be blocked
-      expect(limiter.check(ip).allowed).toBe(false);
+      expect((await limiter.check(ip)).allowed).toBe(false);
 
       limiter.destroy();
     });
   });
 
   describe('createGlobalRateLimiter()', () => {
-    it('should create global limiter (30/sec)', () => {
+    it('should create global limiter (30/sec)', async () => {
       const limiter = createGlobalRateLimiter();
 
       // Should allow 30 requests
       for (let i = 0; i < 30; i++) {
-        expect(limiter.check('global').allowed).toBe(true);
+        expect((await limiter.check('global')).allowed).toBe(true);
       }
 
       // 31st should be blocked
-      expect(limiter.check('global').allowed).toBe(false);
+      expect((await limiter.check('global')).allowed).toBe(false);
 
       limiter.destroy();
     });
   });
 
   describe('createStrictRateLimiter()', () => {
-    it('should create strict limiter (5/min)', () => {
+    it('should create strict limiter (5/min)', async () => {
       const limiter = createStrictRateLimiter();
       const ip = '192.168.1.1';
 
       // Should allow 5 requests
       for (let i = 0; i < 5; i++) {
-        expect(limiter.check(ip).allowed).toBe(true);
+        expect((await limiter.check(ip)).allowed).toBe(true);
       }
 
       // 6th should be blocked
-      expect(limiter.check(ip).allowed).toBe(false);
+      expect((await limiter.check(ip)).allowed).toBe(false);
 
       limiter.destroy();
     });
@@ -241,7 +257,7 @@ describe('Factory Functions', () => {
 });
 
 describe('Edge Cases', () => {
-  it('should handle concurrent requests', () => {
+  it('should handle concurrent requests', async () => {
     const limiter = new RateLimiter({
       maxRequests: 10,
       windowMs: 1000,
@@ -249,7 +265,7 @@ describe('Edge Cases', () => {
     const ip = '192.168.1.1';
 
     // Simulate concurrent requests
-    const results = Array.from({ length: 15 }, () => limiter.check(ip));
+    const results = await Promise.all(Array.from({ length: 15 }, () => limiter.check(ip)));
 
     const allowed = results.filter(r => r.allowed).length;
     const blocked = results.filter(r => !r.allowed).length;
@@ -260,30 +276,369 @@ describe('Edge Cases', () => {
     limiter.destroy();
   });
 
-  it('should handle empty IP string', () => {
+  it('should handle empty IP string', async () => {
     const limiter = new RateLimiter({
       maxRequests: 5,
       windowMs: 1000,
     });
 
-    const result = limiter.check('');
+    const result = await limiter.check('');
     expect(result.allowed).toBe(true);
 
     limiter.destroy();
   });
 
-  it('should handle very short windows', () => {
+  it('should handle very short windows', async () => {
     const limiter = new RateLimiter({
       maxRequests: 2,
       windowMs: 10, // 10ms
     });
     const ip = '192.168.1.1';
 
-    limiter.check(ip);
-    limiter.check(ip);
+    await limiter.check(ip);
+    await limiter.check(ip);
 
-    expect(limiter.check(ip).allowed).toBe(false);
+    expect((await limiter.check(ip)).allowed).toBe(false);
 
     limiter.destroy();
   });
 });
+
+describe('Strategies', () => {
+  let now: number;
+  let limiter: RateLimiter | undefined;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    limiter?.destroy();
+    limiter = undefined;
+    jest.restoreAllMocks();
+  });
+
+  describe('fixed-window', () => {
+    it('should reset at the end of the window', async () => {
+      limiter = new RateLimiter({ maxRequests: 2, windowMs: 10000, strategy: 'fixed-window' });
+      now = 1_004_000;
+
+      expect((await limiter.check('a')).allowed).toBe(true);
+      expect((await limiter.check('a')).allowed).toBe(true);
+
+      const blocked = await limiter.check('a');
+      expect(blocked.allowed).toBe(false);
+      expect(blocked.retryAfter).toBe(6);
+      expect(await limiter.getUsage('a')).toEqual({ count: 2, limit: 2, resetAt: 1_010_000 });
+
+      now = 1_010_000;
+      expect((await limiter.check('a')).allowed).toBe(true);
+    });
+  });
+
+  describe('sliding-window', () => {
+    it('should weight the previous window by its overlap', async () => {
+      limiter = new RateLimiter({ maxRequests: 10, windowMs: 10000, strategy: 'sliding-window' });
+
+      // 10 requests at the end of the previous window
+      now = 1_009_000;
+      for (let i = 0; i < 10; i++) {
+        expect((await limiter.check('a')).allowed).toBe(true);
+      }
+
+      // 30% into the next window the previous one still counts for 7 requests
+      now = 1_013_000;
+      for (let i = 0; i < 3; i++) {
+        expect((await limiter.check('a')).allowed).toBe(true);
+      }
+
+      const blocked = await limiter.check('a');
+      expect(blocked.allowed).toBe(false);
+      // 10 * (20000 - t) / 10000 + 3 < 10 once t > 1_013_000
+      expect(blocked.retryAfter).toBe(1);
+
+      expect((await limiter.getUsage('a')).count).toBe(10);
+
+      now = 1_014_001;
+      expect((await limiter.check('a')).allowed).toBe(true);
+    });
+
+    it('should report when a full current window frees up', async () => {
+      limiter = new RateLimiter({ maxRequests: 4, windowMs: 10000, strategy: 'sliding-window' });
+      now = 1_002_000;
+
+      for (let i = 0; i < 4; i++) {
+        await limiter.check('a');
+      }
+
+      // The current window is full, so it has to end (8s) before its weight starts dropping
+      expect((await limiter.check('a')).retryAfter).toBe(8);
+    });
+  });
+
+  describe('token-bucket', () => {
+    it('should allow a burst and then refill one token per interval', async () => {
+      // 3 quick submissions, then 1 per minute
+      limiter = new RateLimiter({ maxRequests: 1, windowMs: 60000, burst: 3, strategy: 'token-bucket' });
+
+      for (let i = 0; i < 3; i++) {
+        expect((await limiter.check('a')).allowed).toBe(true);
+      }
+
+      now += 15000;
+      const blocked = await limiter.check('a');
+      expect(blocked.allowed).toBe(false);
+      expect(blocked.retryAfter).toBe(45);
+
+      expect(limiter.limit).toBe(3);
+      expect(await limiter.getUsage('a')).toEqual({ count: 3, limit: 3, resetAt: now + 45000 });
+
+      now += 45000;
+      expect((await limiter.check('a')).allowed).toBe(true);
+      expect((await limiter.check('a')).allowed).toBe(false);
+    });
+
+    it('should not refill beyond the burst capacity', async () => {
+      limiter = new RateLimiter({ maxRequests: 1, windowMs: 1000, burst: 2, strategy: 'token-bucket' });
+
+      await limiter.check('a');
+      now += 60000;
+
+      expect((await limiter.check('a')).allowed).toBe(true);
+      expect((await limiter.check('a')).allowed).toBe(true);
+      expect((await limiter.check('a')).allowed).toBe(false);
+    });
+
+    it('should reset the bucket', async () => {
+      limiter = new RateLimiter({ maxRequests: 1, windowMs: 60000, strategy: 'token-bucket' });
+
+      await limiter.check('a');
+      expect((await limiter.check('a')).allowed).toBe(false);
+
+      await limiter.reset('a');
+      expect((await limiter.check('a')).allowed).toBe(true);
+    });
+
+    it('should require a store that supports token buckets', () => {
+      const store: RateLimitStore = {
+        increment: jest.fn<RateLimitStore['increment']>(),
+        get: jest.fn<RateLimitStore['get']>(),
+        reset: jest.fn<RateLimitStore['reset']>(),
+      };
+
+      expect(() => new RateLimiter({ maxRequests: 1, windowMs: 1000, strategy: 'token-bucket', store })).toThrow(
+        'does not support the token-bucket strategy'
+      );
+    });
+  });
+
+  describe('peek()', () => {
+    it.each(['sliding-log', 'sliding-window', 'fixed-window', 'token-bucket'] as const)(
+      'should report the %s limit without recording a request',
+      async (strategy) => {
+        limiter = new RateLimiter({ maxRequests: 2, windowMs: 10000, strategy });
+
+        expect(await limiter.peek('a')).toEqual({ allowed: true });
+        expect((await limiter.getUsage('a')).count).toBe(0);
+
+        await limiter.check('a');
+        await limiter.check('a');
+
+        const peek = await limiter.peek('a');
+        expect(peek.allowed).toBe(false);
+        expect(peek.retryAfter).toBeGreaterThan(0);
+        expect((await limiter.getUsage('a')).count).toBe(2);
+      }
+    );
+  });
+
+  describe('counter strategies', () => {
+    it('should keep one counter per window instead of a hit log', async () => {
+      const store = new MemoryRateLimitStore();
+      const increment = jest.spyOn(store, 'increment');
+      const incrementCounter = jest.spyOn(store, 'incrementCounter');
+
+      limiter = new RateLimiter({ maxRequests: 500, windowMs: 10000, strategy: 'fixed-window', store });
+      for (let i = 0; i < 500; i++) {
+        await limiter.check('a');
+      }
+
+      expect(increment).not.toHaveBeenCalled();
+      expect(incrementCounter).toHaveBeenLastCalledWith('a:100', { limit: 500, ttlMs: 10000, now });
+      expect(await store.incrementCounter('a:100', { limit: 0, ttlMs: 10000, now })).toEqual({ count: 500, recorded: false });
+
+      store.destroy();
+    });
+
+    it('should require a store that supports counters', () => {
+      const store: RateLimitStore = {
+        increment: jest.fn<RateLimitStore['increment']>(),
+        get: jest.fn<RateLimitStore['get']>(),
+        reset: jest.fn<RateLimitStore['reset']>(),
+      };
+
+      expect(() => new RateLimiter({ maxRequests: 1, windowMs: 1000, strategy: 'fixed-window', store })).toThrow(
+        'does not support the fixed-window strategy'
+      );
+      expect(() => new RateLimiter({ maxRequests: 1, windowMs: 1000, strategy: 'sliding-window', store })).toThrow(
+        'does not support the sliding-window strategy'
+      );
+    });
+  });
+});
+
+describe('Key Generators', () => {
+  const createRequest = (headers: Record<string, string>) =>
+    new NextRequest('http://localhost:3000/api/telegram-notify', { method: 'POST', headers });
+
+  it('should key by client IP', () => {
+    expect(keyByIp()(createRequest({ 'x-forwarded-for': '1.2.3.4' }))).toBe('1.2.3.4');
+  });
+
+  it('should key by header value', () => {
+    const generate = keyByHeader('X-User-Id');
+
+    expect(generate(createRequest({ 'x-user-id': 'user-1' }))).toBe('header:x-user-id:user-1');
+    expect(generate(createRequest({}))).toBeNull();
+  });
+
+  it('should key by cookie value', () => {
+    const generate = keyByCookie('session');
+
+    expect(generate(createRequest({ cookie: 'theme=dark; session=abc123' }))).toBe('cookie:session:abc123');
+    expect(generate(createRequest({ cookie: 'theme=dark' }))).toBeNull();
+  });
+
+  it('should combine keys', async () => {
+    const generate = combineKeys(keyByIp(), keyByHeader('x-user-id'));
+
+    expect(await generate(createRequest({ 'x-forwarded-for': '1.2.3.4', 'x-user-id': 'user-1' }))).toBe(
+      '1.2.3.4|header:x-user-id:user-1'
+    );
+    expect(await generate(createRequest({ 'x-forwarded-for': '1.2.3.4' }))).toBeNull();
+  });
+});
+
+describe('Rate Limit Stores', () => {
+  describe('MemoryRateLimitStore', () => {
+    let store: MemoryRateLimitStore;
+
+    beforeEach(() => {
+      store = new MemoryRateLimitStore();
+    });
+
+    afterEach(() => {
+      store.destroy();
+    });
+
+    it('should record hits up to the limit', async () => {
+      const options = { windowMs: 1000, limit: 2, now: 10000 };
+
+      expect(await store.increment('a', options)).toEqual({ count: 1, resetAt: 11000, recorded: true });
+      expect(await store.increment('a', { ...options, now: 10500 })).toEqual({ count: 2, resetAt: 11000, recorded: true });
+      expect(await store.increment('a', { ...options, now: 10600 })).toEqual({ count: 2, resetAt: 11000, recorded: false });
+
+      // The first hit has left the window
+      expect(await store.increment('a', { ...options, now: 11000 })).toEqual({ count: 2, resetAt: 11500, recorded: true });
+    });
+
+    it('should get and reset hits', async () => {
+      await store.increment('a', { windowMs: 1000, limit: 5, now: 10000 });
+
+      expect(await store.get('a', { windowMs: 1000, now: 10100 })).toEqual({ count: 1, resetAt: 11000 });
+
+      await store.reset('a');
+
+      expect(await store.get('a', { windowMs: 1000, now: 10100 })).toEqual({ count: 0, resetAt: 11100 });
+    });
+
+    it('should increment counters up to the limit until they expire', async () => {
+      const options = { limit: 2, ttlMs: 1000, now: 10000 };
+
+      expect(await store.incrementCounter('a', options)).toEqual({ count: 1, recorded: true });
+      expect(await store.incrementCounter('a', { ...options, now: 10500 })).toEqual({ count: 2, recorded: true });
+      expect(await store.incrementCounter('a', { ...options, now: 10600 })).toEqual({ count: 2, recorded: false });
+      expect(await store.incrementCounter('a', { ...options, limit: 0, now: 10700 })).toEqual({ count: 2, recorded: false });
+
+      // The counter expires ttlMs after it was created
+      expect(await store.incrementCounter('a', { ...options, now: 11000 })).toEqual({ count: 1, recorded: true });
+
+      await store.reset('a');
+      expect(await store.incrementCounter('a', { ...options, limit: 0, now: 11000 })).toEqual({ count: 0, recorded: false });
+    });
+  });
+
+  describe('FileRateLimitStore', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = mkdtempSync(join(tmpdir(), 'ratelimit-'));
+    });
+
+    afterEach(() => {
+      rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should share hits between store instances using the same file', async () => {
+      const path = join(directory, 'ratelimit.json');
+      const limiter1 = new RateLimiter({ maxRequests: 3, windowMs: 60000, store: new FileRateLimitStore({ path }) });
+      const limiter2 = new RateLimiter({ maxRequests: 3, windowMs: 60000, store: new FileRateLimitStore({ path }) });
+
+      const results = await Promise.all([
+        limiter1.check('1.1.1.1'),
+        limiter2.check('1.1.1.1'),
+        limiter1.check('1.1.1.1'),
+        limiter2.check('1.1.1.1'),
+      ]);
+
+      expect(results.filter((result) => result.allowed)).toHaveLength(3);
+      expect((await limiter2.getUsage('1.1.1.1')).count).toBe(3);
+
+      await limiter1.reset('1.1.1.1');
+      expect((await limiter2.check('1.1.1.1')).allowed).toBe(true);
+    });
+
+    it('should share window counters between store instances', async () => {
+      const path = join(directory, 'ratelimit.json');
+      const limiter1 = new RateLimiter({ maxRequests: 2, windowMs: 3600000, strategy: 'fixed-window', store: new FileRateLimitStore({ path }) });
+      const limiter2 = new RateLimiter({ maxRequests: 2, windowMs: 3600000, strategy: 'fixed-window', store: new FileRateLimitStore({ path }) });
+
+      expect((await limiter1.check('1.1.1.1')).allowed).toBe(true);
+      expect((await limiter2.check('1.1.1.1')).allowed).toBe(true);
+      expect((await limiter1.check('1.1.1.1')).allowed).toBe(false);
+      expect((await limiter2.getUsage('1.1.1.1')).count).toBe(2);
+    });
+
+    it('should remove a stale lock', async () => {
+      const path = join(directory, 'ratelimit.json');
+      const store = new FileRateLimitStore({ path, staleLockMs: 0 });
+
+      const fs = await import('fs/promises');
+      await fs.writeFile(`${path}.lock`, '');
+      await new Promise((resolve) => setTimeout(resolve, 5));
+
+      const result = await store.increment('a', { windowMs: 1000, limit: 1, now: Date.now() });
+      expect(result.recorded).toBe(true);
+    });
+  });
+
+  describe('Custom stores', () => {
+    it('should pass hits to the configured store', async () => {
+      const store: RateLimitStore = {
+        increment: jest.fn<RateLimitStore['increment']>().mockResolvedValue({ count: 5, resetAt: Date.now() + 30000, recorded: false }),
+        get: jest.fn<RateLimitStore['get']>().mockResolvedValue({ count: 5, resetAt: Date.now() + 30000 }),
+        reset: jest.fn<RateLimitStore['reset']>().mockResolvedValue(undefined),
+      };
+      const limiter = new RateLimiter({ maxRequests: 5, windowMs: 60000, store });
+
+      const result = await limiter.check('1.1.1.1');
+
+      expect(result.allowed).toBe(false);
+      expect(result.retryAfter).toBe(30);
+      expect(store.increment).toHaveBeenCalledWith('1.1.1.1', expect.objectContaining({ windowMs: 60000, limit: 5 }));
+
+      limiter.destroy();
+    });
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from '@jest/globals';
+import { redactSecrets, redactError } from '../src/lib/redact';
+import { TelegramError } from '../src/types';
+
+describe('Redaction', () => {
+  describe('redactSecrets()', () => {
+    it('should replace secrets, including percent-encoded ones', () => {
+      expect(redactSecrets('key=abcd1234 and abcd1234', ['abcd1234'])).toBe('key=[REDACTED] and [REDACTED]');
+      expect(redactSecrets('token=a%3Ab%2Fc-secret', ['a:b/c-secret'])).toBe('token=[REDACTED]');
+    });
+
+    it('should always replace values shaped like bot tokens', () => {
+      expect(redactSecrets('/bot123456789:AAEhBOweik6ad9r_QXMENQjcrGbqCr4K-ra/getMe')).toBe('/bot[REDACTED]/getMe');
+    });
+
+    it('should ignore empty and very short secrets', () => {
+      expect(redactSecrets('a b c', ['', undefined, 'a'])).toBe('a b c');
+    });
+  });
+
+  describe('redactError()', () => {
+    it('should scrub the message, stack, description and cause chain in place', () => {
+      const cause = new Error('connect to /botsecret-token/ failed');
+      const error = new TelegramError('Unauthorized: secret-token', 401, 'Unauthorized: secret-token');
+      (error as Error & { cause?: unknown }).cause = cause;
+
+      expect(redactError(error, ['secret-token'])).toBe(error);
+      expect(error).toBeInstanceOf(TelegramError);
+      expect(error.message).toBe('Unauthorized: [REDACTED]');
+      expect(error.description).toBe('Unauthorized: [REDACTED]');
+      expect(error.stack).not.toContain('secret-token');
+      expect(cause.message).toBe('connect to /bot[REDACTED]/ failed');
+    });
+
+    it('should handle circular causes and non-errors', () => {
+      const error = new Error('secret-token') as Error & { cause?: unknown };
+      error.cause = error;
+
+      expect(redactError(error, ['secret-token']).message).toBe('[REDACTED]');
+      expect(redactError('secret-token', ['secret-token'])).toBe('secret-token');
+    });
+  });
+});
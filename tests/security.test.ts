@@ -1,4 +1,4 @@
-import { describe, it, expect } from '@jest/globals';
+import { describe, it, expect, jest } from '@jest/globals';
 import { NextRequest } from 'next/server';
 import type { CorsConfig } from '../src/types';
 import {
@@ -8,7 +8,9 @@ import {
   handleCorsPreflight,
   createDefaultCorsConfig,
   createStrictCorsConfig,
+  safeCompare,
 } from '../src/lib/security';
+import { createIpMatcher, IpDenyList } from '../src/lib/ip';
 
 // Helper to create mock NextRequest
 function createMockRequest(headers: Record<string, string>, origin?: string): NextRequest {
@@ -21,42 +23,101 @@ function createMockRequest(headers: Record<string, string>, origin?: string): Ne
 
 describe('Security Utilities', () => {
   describe('getClientIp()', () => {
-    it('should extract IP from x-forwarded-for header', () => {
+    it('should use the right-most x-forwarded-for entry by default', () => {
       const request = createMockRequest({
         'x-forwarded-for': '192.168.1.1, 10.0.0.1',
       });
 
       const ip = getClientIp(request);
-      expect(ip).toBe('192.168.1.1');
+      expect(ip).toBe('10.0.0.1'); // 192.168.1.1 may have been sent by the client
+    });
+
+    it('should skip the given number of proxies', () => {
+      const request = createMockRequest({
+        'x-forwarded-for': '192.168.1.1, 10.0.0.1, 172.16.0.1',
+      });
+
+      expect(getClientIp(request, 1)).toBe('172.16.0.1');
+      expect(getClientIp(request, 2)).toBe('10.0.0.1');
+      expect(getClientIp(request, 5)).toBe('192.168.1.1');
+    });
+
+    it('should skip trusted proxy ranges', () => {
+      const request = createMockRequest({
+        'x-forwarded-for': '203.0.113.9, 198.51.100.7, 10.0.0.2, 10.0.0.1',
+      });
+
+      expect(getClientIp(request, ['10.0.0.0/8'])).toBe('198.51.100.7');
+      expect(getClientIp(request, ['10.0.0.0/8', '198.51.100.7'])).toBe('203.0.113.9');
+    });
+
+    it('should skip trusted IPv6 proxies and strip ports', () => {
+      const request = createMockRequest({
+        'x-forwarded-for': '203.0.113.9:51234, [2001:db8::1]:443',
+      });
+
+      expect(getClientIp(request, ['2001:db8::/32'])).toBe('203.0.113.9');
+    });
+
+    it('should trust every header with trustProxy: true', () => {
+      expect(getClientIp(createMockRequest({ 'x-forwarded-for': '192.168.1.1, 10.0.0.1' }), true)).toBe(
+        '192.168.1.1'
+      );
+      expect(getClientIp(createMockRequest({ 'x-real-ip': '192.168.1.2' }), true)).toBe('192.168.1.2');
+    });
+
+    it('should ignore forwarding headers with trustProxy: false', () => {
+      const request = createMockRequest({
+        'x-forwarded-for': '192.168.1.1',
+      });
+
+      expect(getClientIp(request, false)).toBe('unknown');
+    });
+
+    it('should fall back to request.ip', () => {
+      const request = createMockRequest({});
+      Object.defineProperty(request, 'ip', { value: '192.168.1.4' });
+
+      expect(getClientIp(request)).toBe('192.168.1.4');
+      expect(getClientIp(request, false)).toBe('192.168.1.4');
     });
 
-    it('should extract IP from x-real-ip header', () => {
+    it('should extract IP from x-real-ip header with the nginx preset', () => {
       const request = createMockRequest({
+        'x-forwarded-for': '192.168.1.1',
         'x-real-ip': '192.168.1.2',
       });
 
-      const ip = getClientIp(request);
+      const ip = getClientIp(request, 'nginx');
       expect(ip).toBe('192.168.1.2');
     });
 
-    it('should extract IP from cf-connecting-ip header (Cloudflare)', () => {
+    it('should extract IP from cf-connecting-ip header with the cloudflare preset', () => {
       const request = createMockRequest({
+        'x-forwarded-for': '192.168.1.1, 192.168.1.3',
         'cf-connecting-ip': '192.168.1.3',
       });
 
-      const ip = getClientIp(request);
+      const ip = getClientIp(request, 'cloudflare');
       expect(ip).toBe('192.168.1.3');
     });
 
-    it('should prioritize x-forwarded-for over others', () => {
+    it('should extract IP from x-vercel-forwarded-for with the vercel preset', () => {
       const request = createMockRequest({
         'x-forwarded-for': '192.168.1.1',
+        'x-vercel-forwarded-for': '192.168.1.5',
+      });
+
+      expect(getClientIp(request, 'vercel')).toBe('192.168.1.5');
+    });
+
+    it('should ignore platform headers without a matching preset', () => {
+      const request = createMockRequest({
         'x-real-ip': '192.168.1.2',
         'cf-connecting-ip': '192.168.1.3',
       });
 
-      const ip = getClientIp(request);
-      expect(ip).toBe('192.168.1.1'); // x-forwarded-for has priority
+      expect(getClientIp(request)).toBe('unknown');
     });
 
     it('should return unknown when no IP headers present', () => {
@@ -66,15 +127,6 @@ describe('Security Utilities', () => {
       expect(ip).toBe('unknown');
     });
 
-    it('should handle multiple IPs in x-forwarded-for', () => {
-      const request = createMockRequest({
-        'x-forwarded-for': '192.168.1.1, 10.0.0.1, 172.16.0.1',
-      });
-
-      const ip = getClientIp(request);
-      expect(ip).toBe('192.168.1.1'); // Should return first IP
-    });
-
     it('should trim whitespace from IPs', () => {
       const request = createMockRequest({
         'x-forwarded-for': '  192.168.1.1  ',
@@ -85,6 +137,76 @@ describe('Security Utilities', () => {
     });
   });
 
+  describe('createIpMatcher()', () => {
+    it('should match IPv4 addresses and ranges', () => {
+      const matches = createIpMatcher(['10.0.0.0/8', '192.168.1.1', '172.16.0.0/12']);
+
+      expect(matches('10.255.0.1')).toBe(true);
+      expect(matches('192.168.1.1')).toBe(true);
+      expect(matches('192.168.1.2')).toBe(false);
+      expect(matches('172.31.255.255')).toBe(true);
+      expect(matches('172.32.0.0')).toBe(false);
+    });
+
+    it('should match IPv6 ranges and IPv4-mapped addresses', () => {
+      const matches = createIpMatcher(['2001:db8::/32', '::1', '10.0.0.0/8']);
+
+      expect(matches('2001:db8:abcd::12')).toBe(true);
+      expect(matches('2001:db9::1')).toBe(false);
+      expect(matches('0:0:0:0:0:0:0:1')).toBe(true);
+      expect(matches('::ffff:10.1.2.3')).toBe(true);
+      expect(matches('fe80::1%eth0')).toBe(false);
+    });
+
+    it('should not match invalid addresses', () => {
+      const matches = createIpMatcher(['0.0.0.0/0']);
+
+      expect(matches('1.2.3.4')).toBe(true);
+      expect(matches('unknown')).toBe(false);
+      expect(matches('1.2.3.256')).toBe(false);
+    });
+
+    it('should throw for invalid ranges', () => {
+      expect(() => createIpMatcher(['10.0.0.0/33'])).toThrow('Invalid IP address or CIDR range');
+      expect(() => createIpMatcher(['not-an-ip'])).toThrow();
+      expect(() => createIpMatcher(['1::2::3'])).toThrow();
+    });
+  });
+
+  describe('IpDenyList', () => {
+    it('should block addresses added at runtime', () => {
+      const denyList = new IpDenyList(['203.0.113.0/24']);
+
+      expect(denyList.has('203.0.113.50')).toBe(true);
+      expect(denyList.has('198.51.100.7')).toBe(false);
+
+      denyList.add('198.51.100.7');
+      expect(denyList.has('198.51.100.7')).toBe(true);
+      expect(denyList.list()).toEqual(['203.0.113.0/24', '198.51.100.7']);
+
+      expect(denyList.remove('198.51.100.7')).toBe(true);
+      expect(denyList.has('198.51.100.7')).toBe(false);
+    });
+
+    it('should expire entries after ttlMs', () => {
+      const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+      const denyList = new IpDenyList();
+
+      denyList.add('2001:db8::/48', { ttlMs: 60000 });
+      expect(denyList.has('2001:db8:0:1::1')).toBe(true);
+
+      nowSpy.mockReturnValue(1_060_000);
+      expect(denyList.has('2001:db8:0:1::1')).toBe(false);
+      expect(denyList.list()).toEqual([]);
+
+      nowSpy.mockRestore();
+    });
+
+    it('should reject invalid entries', () => {
+      expect(() => new IpDenyList(['nope'])).toThrow('Invalid IP address or CIDR range');
+    });
+  });
+
   describe('isOriginAllowed()', () => {
     it('should allow any origin with wildcard', () => {
       const config: CorsConfig = { origin: '*' };
@@ -116,6 +238,37 @@ describe('Security Utilities', () => {
       expect(isOriginAllowed('https://Example.com', config)).toBe(false);
       expect(isOriginAllowed('HTTPS://example.com', config)).toBe(false);
     });
+
+    it('should match wildcard subdomain patterns', () => {
+      const config: CorsConfig = { origin: ['https://*.our-app.vercel.app', 'http://localhost:*'] };
+
+      expect(isOriginAllowed('https://pr-42.our-app.vercel.app', config)).toBe(true);
+      expect(isOriginAllowed('https://a.b.our-app.vercel.app', config)).toBe(true);
+      expect(isOriginAllowed('http://localhost:3000', config)).toBe(true);
+      expect(isOriginAllowed('https://our-app.vercel.app', config)).toBe(false);
+      expect(isOriginAllowed('https://evil.com/.our-app.vercel.app', config)).toBe(false);
+      expect(isOriginAllowed('https://pr-42.our-app.vercel.app.evil.com', config)).toBe(false);
+      expect(isOriginAllowed('https://pr-42xour-app.vercel.app', config)).toBe(false);
+    });
+
+    it('should match regular expressions', () => {
+      const config: CorsConfig = { origin: [/^https:\/\/[a-z0-9-]+\.example\.com$/g, 'https://example.org'] };
+
+      expect(isOriginAllowed('https://app.example.com', config)).toBe(true);
+      expect(isOriginAllowed('https://app.example.com', config)).toBe(true); // No lastIndex state
+      expect(isOriginAllowed('https://example.org', config)).toBe(true);
+      expect(isOriginAllowed('https://example.com.evil.com', config)).toBe(false);
+    });
+
+    it('should call predicate functions with the origin and request', () => {
+      const request = createMockRequest({ 'x-tenant': 'acme' });
+      const config: CorsConfig = {
+        origin: (origin, req) => origin === `https://${req?.headers.get('x-tenant')}.example.com`,
+      };
+
+      expect(isOriginAllowed('https://acme.example.com', config, request)).toBe(true);
+      expect(isOriginAllowed('https://other.example.com', config, request)).toBe(false);
+    });
   });
 
   describe('createCorsHeaders()', () => {
@@ -144,6 +297,23 @@ describe('Security Utilities', () => {
       const headers = createCorsHeaders(request, config) as Record<string, string>;
 
       expect(headers['Access-Control-Allow-Origin']).toBe('https://example.com');
+      expect(headers['Vary']).toBe('Origin');
+    });
+
+    it('should vary on origin unless every origin is allowed', () => {
+      const request = createMockRequest({
+        origin: 'https://other.com',
+      });
+
+      const restricted = createCorsHeaders(request, {
+        ...createDefaultCorsConfig(),
+        origin: 'https://*.example.com',
+      }) as Record<string, string>;
+      const open = createCorsHeaders(request, createDefaultCorsConfig()) as Record<string, string>;
+
+      expect(restricted['Access-Control-Allow-Origin']).toBeUndefined();
+      expect(restricted['Vary']).toBe('Origin');
+      expect(open['Vary']).toBeUndefined();
     });
 
     it('should include credentials header when enabled', () => {
@@ -263,6 +433,78 @@ describe('Security Utilities', () => {
       expect(response?.headers.get('Access-Control-Allow-Origin')).toBe('*');
       expect(response?.headers.get('Access-Control-Allow-Methods')).toBe('POST, OPTIONS');
     });
+
+    function createPreflight(headers: Record<string, string>): NextRequest {
+      return new NextRequest('http://localhost:3000/api/test', {
+        method: 'OPTIONS',
+        headers: new Headers({ origin: 'https://example.com', ...headers }),
+      });
+    }
+
+    it('should accept allowed preflights', () => {
+      const response = handleCorsPreflight(
+        createPreflight({
+          'access-control-request-method': 'POST',
+          'access-control-request-headers': 'content-type, Authorization',
+        }),
+        { ...createDefaultCorsConfig(), origin: 'https://example.com' }
+      );
+
+      expect(response?.status).toBe(204);
+      expect(response?.headers.get('Access-Control-Allow-Origin')).toBe('https://example.com');
+      expect(response?.headers.get('Access-Control-Allow-Headers')).toBe('Content-Type, Authorization');
+    });
+
+    it('should reject preflights from disallowed origins', () => {
+      const response = handleCorsPreflight(
+        createPreflight({ origin: 'https://evil.com', 'access-control-request-method': 'POST' }),
+        { ...createDefaultCorsConfig(), origin: 'https://example.com' }
+      );
+
+      expect(response?.status).toBe(403);
+      expect(response?.headers.get('Access-Control-Allow-Origin')).toBeNull();
+    });
+
+    it('should reject disallowed methods and headers', () => {
+      const config = createDefaultCorsConfig();
+
+      expect(handleCorsPreflight(createPreflight({ 'access-control-request-method': 'DELETE' }), config)?.status).toBe(
+        403
+      );
+      expect(
+        handleCorsPreflight(
+          createPreflight({
+            'access-control-request-method': 'POST',
+            'access-control-request-headers': 'content-type, x-custom',
+          }),
+          config
+        )?.status
+      ).toBe(403);
+    });
+
+    it('should echo requested headers when allowedHeaders is not set', () => {
+      const response = handleCorsPreflight(
+        createPreflight({ 'access-control-request-method': 'POST', 'access-control-request-headers': 'X-Custom' }),
+        { origin: 'https://example.com' }
+      );
+
+      expect(response?.status).toBe(204);
+      expect(response?.headers.get('Access-Control-Allow-Headers')).toBe('x-custom');
+      expect(response?.headers.get('Vary')).toBe('Origin, Access-Control-Request-Headers');
+    });
+  });
+
+  describe('safeCompare()', () => {
+    it('should return true for equal strings', () => {
+      expect(safeCompare('secret-token', 'secret-token')).toBe(true);
+    });
+
+    it('should return false for different strings', () => {
+      expect(safeCompare('secret-token', 'secret-tokem')).toBe(false);
+      expect(safeCompare('secret', 'secret-token')).toBe(false);
+      expect(safeCompare('', 'secret')).toBe(false);
+      expect(safeCompare('secret', '')).toBe(false);
+    });
   });
 
   describe('createDefaultCorsConfig()', () => {
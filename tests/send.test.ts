@@ -7,16 +7,31 @@ import type { NotifyOptions, TelegramMessage, FileAttachment, ParseMode } from '
 jest.mock('../src/lib/telegram');
 
 describe('sendTelegramNotification', () => {
-  const mockSendMessage = jest.fn<(text: string, options?: any) => Promise<TelegramMessage>>();
-  const mockSendDocument = jest.fn<(file: FileAttachment, options?: any) => Promise<TelegramMessage>>();
+  const mockSendMessageParts = jest.fn<(text: string, options?: any) => Promise<TelegramMessage[]>>();
+  const mockSendDocumentParts = jest.fn<(file: FileAttachment, options?: any) => Promise<TelegramMessage[]>>();
+  const mockSendMediaGroup = jest.fn<(files: FileAttachment[], options?: any) => Promise<TelegramMessage[]>>();
+
+  let nextMessageId = 1;
+  const createSentMessages = (count: number): TelegramMessage[] =>
+    Array.from({ length: count }, () => ({
+      message_id: nextMessageId++,
+      date: 0,
+      chat: { id: 12345678, type: 'private' },
+    }));
 
   beforeEach(() => {
     jest.clearAllMocks();
+    nextMessageId = 1;
+
+    mockSendMessageParts.mockImplementation(async () => createSentMessages(1));
+    mockSendDocumentParts.mockImplementation(async () => createSentMessages(1));
+    mockSendMediaGroup.mockImplementation(async (files) => createSentMessages(files.length));
     
     // Mock TelegramClient methods
     (TelegramClient as jest.MockedClass<typeof TelegramClient>).mockImplementation(() => ({
-      sendMessage: mockSendMessage,
-      sendDocument: mockSendDocument,
+      sendMessageParts: mockSendMessageParts,
+      sendDocumentParts: mockSendDocumentParts,
+      sendMediaGroup: mockSendMediaGroup,
     } as any));
   });
 
@@ -61,13 +76,13 @@ describe('sendTelegramNotification', () => {
 
       await sendTelegramNotification(options);
 
-      expect(mockSendMessage).toHaveBeenCalledWith('Hello, world!', {
+      expect(mockSendMessageParts).toHaveBeenCalledWith('Hello, world!', {
         parseMode: undefined,
         chatId: undefined,
         disableNotification: undefined,
         threadId: undefined,
       });
-      expect(mockSendDocument).not.toHaveBeenCalled();
+      expect(mockSendDocumentParts).not.toHaveBeenCalled();
     });
 
     it('should pass parse mode to sendMessage', async () => {
@@ -76,7 +91,7 @@ describe('sendTelegramNotification', () => {
         parseMode: 'HTML',
       });
 
-      expect(mockSendMessage).toHaveBeenCalledWith('<b>Bold text</b>', {
+      expect(mockSendMessageParts).toHaveBeenCalledWith('<b>Bold text</b>', {
         parseMode: 'HTML',
         chatId: undefined,
         disableNotification: undefined,
@@ -90,7 +105,7 @@ describe('sendTelegramNotification', () => {
         chatId: '123456789',
       });
 
-      expect(mockSendMessage).toHaveBeenCalledWith('Test', {
+      expect(mockSendMessageParts).toHaveBeenCalledWith('Test', {
         parseMode: undefined,
         chatId: '123456789',
         disableNotification: undefined,
@@ -104,7 +119,7 @@ describe('sendTelegramNotification', () => {
         disableNotification: true,
       });
 
-      expect(mockSendMessage).toHaveBeenCalledWith('Test', {
+      expect(mockSendMessageParts).toHaveBeenCalledWith('Test', {
         parseMode: undefined,
         chatId: undefined,
         disableNotification: true,
@@ -112,13 +127,24 @@ describe('sendTelegramNotification', () => {
       });
     });
 
+    it('should pass replyMarkup option', async () => {
+      const replyMarkup = { inline_keyboard: [[{ text: 'View order', url: 'https://example.com/orders/1' }]] };
+
+      await sendTelegramNotification({
+        message: 'Test',
+        replyMarkup,
+      });
+
+      expect(mockSendMessageParts).toHaveBeenCalledWith('Test', expect.objectContaining({ replyMarkup }));
+    });
+
     it('should pass threadId option', async () => {
       await sendTelegramNotification({
         message: 'Test',
         threadId: 456,
       });
 
-      expect(mockSendMessage).toHaveBeenCalledWith('Test', {
+      expect(mockSendMessageParts).toHaveBeenCalledWith('Test', {
         parseMode: undefined,
         chatId: undefined,
         disableNotification: undefined,
@@ -143,7 +169,7 @@ describe('sendTelegramNotification', () => {
 
       await sendTelegramNotification(options);
 
-      expect(mockSendDocument).toHaveBeenCalledWith(
+      expect(mockSendDocumentParts).toHaveBeenCalledWith(
         {
           data: fileData,
           filename: 'test.txt',
@@ -157,10 +183,10 @@ describe('sendTelegramNotification', () => {
           threadId: undefined,
         }
       );
-      expect(mockSendMessage).not.toHaveBeenCalled();
+      expect(mockSendMessageParts).not.toHaveBeenCalled();
     });
 
-    it('should send multiple files separately', async () => {
+    it('should send multiple files as a single album', async () => {
       const file1 = Buffer.from('content 1');
       const file2 = Buffer.from('content 2');
 
@@ -172,19 +198,56 @@ describe('sendTelegramNotification', () => {
         ],
       });
 
-      expect(mockSendDocument).toHaveBeenCalledTimes(2);
-      expect(mockSendDocument).toHaveBeenNthCalledWith(
-        1,
-        { data: file1, filename: 'file1.txt', mimeType: 'text/plain' },
-        expect.any(Object)
-      );
-      expect(mockSendDocument).toHaveBeenNthCalledWith(
-        2,
-        { data: file2, filename: 'file2.txt', mimeType: 'text/plain' },
-        expect.any(Object)
+      expect(mockSendDocumentParts).not.toHaveBeenCalled();
+      expect(mockSendMediaGroup).toHaveBeenCalledTimes(1);
+      expect(mockSendMediaGroup).toHaveBeenCalledWith(
+        [
+          { data: file1, filename: 'file1.txt', mimeType: 'text/plain' },
+          { data: file2, filename: 'file2.txt', mimeType: 'text/plain' },
+        ],
+        {
+          caption: 'Multiple files',
+          parseMode: undefined,
+          chatId: undefined,
+          disableNotification: undefined,
+          threadId: undefined,
+        }
       );
     });
 
+    it('should split more than 10 files into multiple albums', async () => {
+      const files = Array.from({ length: 12 }, (_, i) => ({
+        data: Buffer.from(`screenshot ${i}`),
+        filename: `screenshot${i}.png`,
+        mimeType: 'image/png',
+      }));
+
+      await sendTelegramNotification({ message: 'Screenshots', files });
+
+      expect(mockSendMediaGroup).toHaveBeenCalledTimes(2);
+      expect(mockSendMediaGroup.mock.calls[0][0]).toHaveLength(10);
+      expect(mockSendMediaGroup.mock.calls[0][1].caption).toBe('Screenshots');
+      expect(mockSendMediaGroup.mock.calls[1][0]).toHaveLength(2);
+      expect(mockSendMediaGroup.mock.calls[1][1].caption).toBeUndefined();
+    });
+
+    it('should send the caption only once across mixed file types', async () => {
+      await sendTelegramNotification({
+        message: 'Bug report',
+        files: [
+          { data: Buffer.from('a'), filename: 'a.png', mimeType: 'image/png' },
+          { data: Buffer.from('b'), filename: 'b.png', mimeType: 'image/png' },
+          { data: Buffer.from('c'), filename: 'log.txt', mimeType: 'text/plain' },
+        ],
+      });
+
+      expect(mockSendMediaGroup).toHaveBeenCalledTimes(1);
+      expect(mockSendMediaGroup.mock.calls[0][1].caption).toBe('Bug report');
+      expect(mockSendDocumentParts).toHaveBeenCalledTimes(1);
+      expect(mockSendDocumentParts.mock.calls[0][0].filename).toBe('log.txt');
+      expect(mockSendDocumentParts.mock.calls[0][1].caption).toBeUndefined();
+    });
+
     it('should pass all options when sending files', async () => {
       const fileData = Buffer.from('test');
 
@@ -199,7 +262,7 @@ describe('sendTelegramNotification', () => {
         ],
       });
 
-      expect(mockSendDocument).toHaveBeenCalledWith(
+      expect(mockSendDocumentParts).toHaveBeenCalledWith(
         expect.any(Object),
         {
           caption: 'File with options',
@@ -211,21 +274,100 @@ describe('sendTelegramNotification', () => {
       );
     });
 
+    it('should attach the keyboard to a single file', async () => {
+      const replyMarkup = { inline_keyboard: [[{ text: 'Open', url: 'https://example.com' }]] };
+
+      await sendTelegramNotification({
+        message: 'File with keyboard',
+        replyMarkup,
+        files: [{ data: Buffer.from('test'), filename: 'test.txt', mimeType: 'text/plain' }],
+      });
+
+      expect(mockSendDocumentParts).toHaveBeenCalledWith(
+        expect.any(Object),
+        expect.objectContaining({ caption: 'File with keyboard', replyMarkup })
+      );
+    });
+
+    it('should send the keyboard with the message before an album', async () => {
+      const replyMarkup = { inline_keyboard: [[{ text: 'Open', url: 'https://example.com' }]] };
+
+      await sendTelegramNotification({
+        message: 'Album with keyboard',
+        replyMarkup,
+        files: [
+          { data: Buffer.from('a'), filename: 'a.png', mimeType: 'image/png' },
+          { data: Buffer.from('b'), filename: 'b.png', mimeType: 'image/png' },
+        ],
+      });
+
+      expect(mockSendMessageParts).toHaveBeenCalledWith(
+        'Album with keyboard',
+        expect.objectContaining({ replyMarkup })
+      );
+      expect(mockSendMediaGroup.mock.calls[0][1].caption).toBeUndefined();
+    });
+
     it('should handle empty files array as no files', async () => {
       await sendTelegramNotification({
         message: 'No files',
         files: [],
       });
 
-      expect(mockSendMessage).toHaveBeenCalled();
-      expect(mockSendDocument).not.toHaveBeenCalled();
+      expect(mockSendMessageParts).toHaveBeenCalled();
+      expect(mockSendDocumentParts).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Result', () => {
+    it('should return the message id of a text notification', async () => {
+      const result = await sendTelegramNotification({ message: 'Deploy started' });
+
+      expect(result).toEqual({ messageId: 1, messageIds: [1], chatId: '12345678' });
+    });
+
+    it('should return every part of a split message', async () => {
+      mockSendMessageParts.mockImplementationOnce(async () => createSentMessages(3));
+
+      const result = await sendTelegramNotification({ message: 'Long message' });
+
+      expect(result.messageId).toBe(1);
+      expect(result.messageIds).toEqual([1, 2, 3]);
+    });
+
+    it('should return the captioned message and all album items', async () => {
+      const result = await sendTelegramNotification({
+        message: 'Bug report',
+        files: [
+          { data: Buffer.from('a'), filename: 'a.png', mimeType: 'image/png' },
+          { data: Buffer.from('b'), filename: 'b.png', mimeType: 'image/png' },
+          { data: Buffer.from('c'), filename: 'log.txt', mimeType: 'text/plain' },
+        ],
+      });
+
+      expect(result.messageId).toBe(1);
+      expect(result.messageIds).toEqual([1, 2, 3]);
+    });
+
+    it('should report the keyboard message when sent before an album', async () => {
+      const result = await sendTelegramNotification({
+        message: 'Album with keyboard',
+        replyMarkup: { inline_keyboard: [[{ text: 'Open', url: 'https://example.com' }]] },
+        files: [
+          { data: Buffer.from('a'), filename: 'a.png', mimeType: 'image/png' },
+          { data: Buffer.from('b'), filename: 'b.png', mimeType: 'image/png' },
+        ],
+      });
+
+      expect(result.messageId).toBe(1);
+      expect(result.messageIds).toEqual([1, 2, 3]);
     });
   });
 
   describe('Error handling', () => {
     it('should propagate errors from sendMessage', async () => {
       const error = new Error('Telegram API error');
-      mockSendMessage.mockRejectedValueOnce(error);
+      mockSendMessageParts.mockRejectedValueOnce(error);
 
       await expect(
         sendTelegramNotification({ message: 'Test' })
@@ -234,7 +376,7 @@ describe('sendTelegramNotification', () => {
 
     it('should propagate errors from sendDocument', async () => {
       const error = new Error('File upload error');
-      mockSendDocument.mockRejectedValueOnce(error);
+      mockSendDocumentParts.mockRejectedValueOnce(error);
 
       await expect(
         sendTelegramNotification({
@@ -0,0 +1,109 @@
+import { describe, it, expect, jest, afterEach } from '@jest/globals';
+import { createSpamFilter, createFormToken, readFormToken } from '../src/lib/spam';
+import { computeSignature } from '../src/lib/auth';
+
+describe('Spam Protection', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('form tokens', () => {
+    it('should round-trip signed timestamps', async () => {
+      const token = await createFormToken('secret', 1_700_000_000_000);
+
+      expect(await readFormToken(token, 'secret')).toBe(1_700_000_000_000);
+      expect(await readFormToken(token, 'other')).toBeNull();
+      expect(await readFormToken(token.replace(/^\d+/, '1600000000000'), 'secret')).toBeNull();
+      expect(await readFormToken('garbage', 'secret')).toBeNull();
+    });
+
+    it('should not accept a request signature as a form token', async () => {
+      const [issuedAt, nonce] = (await createFormToken('secret', 1_700_000_000_000)).split('.');
+      const signature = await computeSignature('secret', `${issuedAt}.${nonce}`, new Uint8Array(0));
+
+      expect(await readFormToken(`${issuedAt}.${nonce}.${signature}`, 'secret')).toBeNull();
+    });
+
+    it('should issue a different token each time', async () => {
+      expect(await createFormToken('secret', 1_700_000_000_000)).not.toBe(await createFormToken('secret', 1_700_000_000_000));
+    });
+  });
+
+  describe('createSpamFilter()', () => {
+    it('should flag a filled-in honeypot', async () => {
+      const filter = createSpamFilter({ honeypot: true });
+
+      expect(await filter.check({ message: 'Hi', honeypot: 'http://spam.example' })).toEqual({
+        spam: true,
+        score: 0,
+        reasons: ['honeypot'],
+      });
+      expect((await filter.check({ message: 'Hi' })).spam).toBe(false);
+    });
+
+    it('should flag forms submitted too quickly or without a valid token', async () => {
+      const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+      const filter = createSpamFilter({ minFillTimeMs: 3000, secret: 'secret' });
+      const formToken = await filter.issueFormToken();
+
+      nowSpy.mockReturnValue(1_001_000);
+      expect((await filter.check({ message: 'Hi', formToken })).reasons).toEqual(['too-fast']);
+
+      nowSpy.mockReturnValue(1_005_000);
+      expect((await filter.check({ message: 'Hi', formToken })).spam).toBe(false);
+
+      expect((await filter.check({ message: 'Hi' })).reasons).toEqual(['invalid-form-token']);
+
+      nowSpy.mockReturnValue(1_000_000 + 25 * 60 * 60 * 1000);
+      expect((await filter.check({ message: 'Hi', formToken })).reasons).toEqual(['invalid-form-token']);
+    });
+
+    it('should only accept a form token once', async () => {
+      const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+      const filter = createSpamFilter({ minFillTimeMs: 3000, secret: 'secret' });
+      const formToken = await filter.issueFormToken();
+
+      nowSpy.mockReturnValue(1_005_000);
+      expect((await filter.check({ message: 'Hi', formToken })).spam).toBe(false);
+      expect((await filter.check({ message: 'Hi again', formToken })).reasons).toEqual(['invalid-form-token']);
+
+      // A fresh token still works
+      const nextToken = await filter.issueFormToken();
+      nowSpy.mockReturnValue(1_010_000);
+      expect((await filter.check({ message: 'Hi again', formToken: nextToken })).spam).toBe(false);
+    });
+
+    it('should score links and blocked keywords', async () => {
+      const filter = createSpamFilter({
+        maxLinks: 1,
+        blockedKeywords: ['casino', /crypto\s+giveaway/i],
+        scoreThreshold: 2,
+      });
+
+      expect((await filter.check({ message: 'See https://example.com' })).spam).toBe(false);
+
+      // One link too many scores 1, below the threshold
+      const oneOver = await filter.check({ message: 'https://a.example www.b.example' });
+      expect(oneOver).toEqual({ spam: false, score: 1, reasons: [] });
+
+      const spam = await filter.check({ message: 'CASINO bonus and a Crypto  Giveaway at https://a.example' });
+      expect(spam).toEqual({ spam: true, score: 2, reasons: ['keywords'] });
+    });
+
+    it('should flag duplicates within the window', async () => {
+      const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+      const filter = createSpamFilter({ duplicateWindowMs: 60000 });
+
+      expect((await filter.check({ message: 'Hello there' })).spam).toBe(false);
+      expect((await filter.check({ message: '  hello   THERE ' })).reasons).toEqual(['duplicate']);
+
+      nowSpy.mockReturnValue(1_200_000);
+      expect((await filter.check({ message: 'Hello there' })).spam).toBe(false);
+    });
+
+    it('should reject incomplete configuration', () => {
+      expect(() => createSpamFilter({ minFillTimeMs: 1000 })).toThrow('secret is required');
+      expect(() => createSpamFilter({ action: 'moderate' })).toThrow('moderationChatId is required');
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect } from '@jest/globals';
+import { splitMessage, MAX_MESSAGE_LENGTH, MAX_CAPTION_LENGTH } from '../src/lib/split';
+
+describe('splitMessage()', () => {
+  it('should return short messages unchanged', () => {
+    expect(splitMessage('Hello')).toEqual(['Hello']);
+  });
+
+  it('should keep every part within the limit', () => {
+    const text = 'word '.repeat(3000);
+    const parts = splitMessage(text);
+
+    expect(parts.length).toBeGreaterThan(1);
+    parts.forEach((part) => {
+      expect(part.length).toBeLessThanOrEqual(MAX_MESSAGE_LENGTH);
+    });
+  });
+
+  it('should not lose any content', () => {
+    const lines = Array.from({ length: 500 }, (_, i) => `at frame ${i} (file.ts:${i}:1)`);
+    const parts = splitMessage(lines.join('\n'), { maxLength: 1000 });
+
+    expect(parts.join('\n')).toBe(lines.join('\n'));
+  });
+
+  it('should prefer paragraph boundaries', () => {
+    const paragraph1 = 'a'.repeat(60);
+    const paragraph2 = 'b'.repeat(30) + '\n' + 'c'.repeat(30);
+    const parts = splitMessage(`${paragraph1}\n\n${paragraph2}`, { maxLength: 100 });
+
+    expect(parts).toEqual([paragraph1, paragraph2]);
+  });
+
+  it('should fall back to line and word boundaries', () => {
+    expect(splitMessage('aaaa bbbb\ncccc dddd', { maxLength: 12 })).toEqual(['aaaa bbbb', 'cccc dddd']);
+    expect(splitMessage('aaaa bbbb cccc', { maxLength: 10 })).toEqual(['aaaa bbbb', 'cccc']);
+  });
+
+  it('should hard cut text without boundaries', () => {
+    expect(splitMessage('a'.repeat(25), { maxLength: 10 })).toEqual([
+      'a'.repeat(10),
+      'a'.repeat(10),
+      'a'.repeat(5),
+    ]);
+  });
+
+  it('should not split surrogate pairs', () => {
+    const parts = splitMessage('a' + '😀'.repeat(10), { maxLength: 4 });
+
+    parts.forEach((part) => {
+      expect(part).not.toMatch(/[\uD800-\uDBFF]$/);
+    });
+    expect(parts.join('')).toBe('a' + '😀'.repeat(10));
+  });
+
+  it('should use a separate limit for the first part', () => {
+    const text = 'word '.repeat(400).trim();
+    const parts = splitMessage(text, { firstPartMaxLength: MAX_CAPTION_LENGTH });
+
+    expect(parts).toHaveLength(2);
+    expect(parts[0].length).toBeLessThanOrEqual(MAX_CAPTION_LENGTH);
+  });
+
+  describe('HTML', () => {
+    it('should close and re-open tags across parts', () => {
+      const text = `<b>${'bold '.repeat(10).trim()}</b>`;
+      const parts = splitMessage(text, { maxLength: 30, parseMode: 'HTML' });
+
+      expect(parts.length).toBeGreaterThan(1);
+      parts.forEach((part) => {
+        expect(part.length).toBeLessThanOrEqual(30);
+        expect(part.startsWith('<b>')).toBe(true);
+        expect(part.endsWith('</b>')).toBe(true);
+      });
+    });
+
+    it('should re-open tags with their attributes', () => {
+      const text = `<a href="https://example.com">${'link '.repeat(10).trim()}</a>`;
+      const parts = splitMessage(text, { maxLength: 60, parseMode: 'HTML' });
+
+      expect(parts[1].startsWith('<a href="https://example.com">')).toBe(true);
+      expect(parts[0].endsWith('</a>')).toBe(true);
+    });
+
+    it('should keep nested tags balanced', () => {
+      const text = `<b><i>${'x '.repeat(40).trim()}</i></b>`;
+      const parts = splitMessage(text, { maxLength: 40, parseMode: 'HTML' });
+
+      parts.forEach((part) => {
+        expect(part.startsWith('<b><i>')).toBe(true);
+        expect(part.endsWith('</i></b>')).toBe(true);
+      });
+    });
+
+    it('should never cut inside a tag or entity', () => {
+      const text = 'a&amp;b <code>x</code> '.repeat(20);
+      const parts = splitMessage(text, { maxLength: 25, parseMode: 'HTML' });
+
+      parts.forEach((part) => {
+        expect(part).not.toMatch(/<[^>]*$/);
+        expect(part).not.toMatch(/&[a-z]*$/);
+      });
+    });
+  });
+
+  describe('MarkdownV2', () => {
+    it('should close and re-open entities across parts', () => {
+      const text = `*${'bold '.repeat(10).trim()}*`;
+      const parts = splitMessage(text, { maxLength: 20, parseMode: 'MarkdownV2' });
+
+      expect(parts.length).toBeGreaterThan(1);
+      parts.forEach((part) => {
+        expect(part.startsWith('*')).toBe(true);
+        expect(part.endsWith('*')).toBe(true);
+      });
+    });
+
+    it('should re-open code blocks with their language', () => {
+      const code = Array.from({ length: 10 }, (_, i) => `line${i}();`).join('\n');
+      const parts = splitMessage('```js\n' + code + '\n```', { maxLength: 50, parseMode: 'MarkdownV2' });
+
+      expect(parts.length).toBeGreaterThan(1);
+      parts.forEach((part) => {
+        expect(part.startsWith('```js\n')).toBe(true);
+        expect(part.endsWith('```')).toBe(true);
+      });
+    });
+
+    it('should not split escape sequences', () => {
+      const text = 'a\\.'.repeat(20);
+      const parts = splitMessage(text, { maxLength: 10, parseMode: 'MarkdownV2' });
+
+      parts.forEach((part) => {
+        expect(part).not.toMatch(/(^|[^\\])\\$/);
+      });
+      expect(parts.join('')).toBe(text);
+    });
+  });
+});
@@ -0,0 +1,388 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { TelegramClient } from '../src/lib/telegram';
+import { TelegramError } from '../src/types';
+
+type FetchMock = jest.MockedFunction<typeof fetch>;
+
+function jsonResponse(body: any, status: number = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+const okMessage = {
+  ok: true,
+  result: { message_id: 1, date: 0, chat: { id: 123, type: 'private' } },
+};
+
+describe('TelegramClient', () => {
+  let fetchMock: FetchMock;
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    fetchMock = jest.fn<typeof fetch>();
+    global.fetch = fetchMock;
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  function createClient(): TelegramClient {
+    return new TelegramClient({
+      botToken: 'token',
+      chatId: '123',
+      retry: { minDelayMs: 0, jitter: 0 },
+    });
+  }
+
+  function getSentBody(call: number): any {
+    return JSON.parse(fetchMock.mock.calls[call][1]!.body as string);
+  }
+
+  describe('Inline keyboards', () => {
+    const replyMarkup = { inline_keyboard: [[{ text: 'Open', url: 'https://example.com' }]] };
+
+    it('should send reply_markup with text messages', async () => {
+      fetchMock.mockImplementation(async () => jsonResponse(okMessage));
+
+      await createClient().sendMessage('Test', { replyMarkup });
+
+      expect(getSentBody(0).reply_markup).toEqual(replyMarkup);
+    });
+
+    it('should attach the keyboard to the last part of a split message', async () => {
+      fetchMock.mockImplementation(async () => jsonResponse(okMessage));
+
+      await createClient().sendMessage('word '.repeat(1000), { replyMarkup });
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(getSentBody(0).reply_markup).toBeUndefined();
+      expect(getSentBody(1).reply_markup).toEqual(replyMarkup);
+    });
+
+    it('should send reply_markup with documents', async () => {
+      fetchMock.mockImplementation(async () => jsonResponse(okMessage));
+
+      await createClient().sendDocument(
+        { data: Buffer.from('test'), filename: 'test.txt' },
+        { caption: 'File', replyMarkup }
+      );
+
+      const formData = fetchMock.mock.calls[0][1]!.body as FormData;
+      expect(JSON.parse(formData.get('reply_markup') as string)).toEqual(replyMarkup);
+    });
+  });
+
+  describe('Editing sent messages', () => {
+    beforeEach(() => {
+      fetchMock.mockImplementation(async () => jsonResponse({ ok: true, result: true }));
+    });
+
+    it('should return every part of a split message', async () => {
+      fetchMock.mockImplementation(async () => jsonResponse(okMessage));
+
+      const messages = await createClient().sendMessageParts('word '.repeat(1000));
+
+      expect(messages).toHaveLength(2);
+    });
+
+    it('should edit message text', async () => {
+      fetchMock.mockImplementation(async () => jsonResponse(okMessage));
+
+      await createClient().editMessageText(42, 'Deploy finished ✅', { parseMode: 'HTML' });
+
+      expect(fetchMock.mock.calls[0][0]).toBe('https://api.telegram.org/bottoken/editMessageText');
+      expect(getSentBody(0)).toEqual({
+        chat_id: '123',
+        message_id: 42,
+        text: 'Deploy finished ✅',
+        parse_mode: 'HTML',
+      });
+    });
+
+    it('should truncate edited captions to 1024 characters', async () => {
+      fetchMock.mockImplementation(async () => jsonResponse(okMessage));
+
+      await createClient().editMessageCaption(42, 'a'.repeat(2000));
+
+      expect(getSentBody(0).caption).toHaveLength(1024);
+    });
+
+    it('should remove the inline keyboard', async () => {
+      await createClient().editMessageReplyMarkup(42, undefined, { chatId: '456' });
+
+      expect(getSentBody(0)).toEqual({
+        chat_id: '456',
+        message_id: 42,
+        reply_markup: { inline_keyboard: [] },
+      });
+    });
+
+    it('should delete a message', async () => {
+      const result = await createClient().deleteMessage(42);
+
+      expect(result).toBe(true);
+      expect(fetchMock.mock.calls[0][0]).toBe('https://api.telegram.org/bottoken/deleteMessage');
+      expect(getSentBody(0)).toEqual({ chat_id: '123', message_id: 42 });
+    });
+
+    it('should pin and unpin messages', async () => {
+      const client = createClient();
+      await client.pinChatMessage(42, { disableNotification: true });
+      await client.unpinChatMessage(42);
+      await client.unpinChatMessage();
+
+      expect(getSentBody(0)).toEqual({ chat_id: '123', message_id: 42, disable_notification: true });
+      expect(getSentBody(1)).toEqual({ chat_id: '123', message_id: 42 });
+      expect(getSentBody(2)).toEqual({ chat_id: '123' });
+    });
+  });
+
+  describe('Webhooks', () => {
+    it('should register a webhook with a secret token', async () => {
+      fetchMock.mockImplementation(async () => jsonResponse({ ok: true, result: true }));
+
+      const result = await createClient().setWebhook('https://example.com/api/telegram-webhook', {
+        secretToken: 'secret',
+        allowedUpdates: ['message', 'callback_query'],
+        dropPendingUpdates: true,
+      });
+
+      expect(result).toBe(true);
+      expect(fetchMock.mock.calls[0][0]).toBe('https://api.telegram.org/bottoken/setWebhook');
+      expect(getSentBody(0)).toEqual({
+        url: 'https://example.com/api/telegram-webhook',
+        secret_token: 'secret',
+        allowed_updates: ['message', 'callback_query'],
+        drop_pending_updates: true,
+      });
+    });
+
+    it('should delete the webhook', async () => {
+      fetchMock.mockImplementation(async () => jsonResponse({ ok: true, result: true }));
+
+      await createClient().deleteWebhook({ dropPendingUpdates: true });
+
+      expect(fetchMock.mock.calls[0][0]).toBe('https://api.telegram.org/bottoken/deleteWebhook');
+      expect(getSentBody(0)).toEqual({ drop_pending_updates: true });
+    });
+
+    it('should return webhook info', async () => {
+      const info = { url: 'https://example.com', has_custom_certificate: false, pending_update_count: 0 };
+      fetchMock.mockImplementation(async () => jsonResponse({ ok: true, result: info }));
+
+      await expect(createClient().getWebhookInfo()).resolves.toEqual(info);
+    });
+  });
+
+  describe('Media groups', () => {
+    const files = [
+      { data: new Uint8Array([1]), filename: 'screenshot.png', mimeType: 'image/png' },
+      { data: new Uint8Array([2]), filename: 'photo.jpg', mimeType: 'image/jpeg' },
+    ];
+
+    function getSentMedia(call: number): Array<{ type: string }> {
+      return JSON.parse((fetchMock.mock.calls[call][1]!.body as FormData).get('media') as string);
+    }
+
+    it('should resend the album as documents when Telegram rejects a photo', async () => {
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse({
+          ok: false,
+          error_code: 400,
+          description: 'Bad Request: PHOTO_INVALID_DIMENSIONS',
+        }, 400))
+        .mockResolvedValueOnce(jsonResponse({ ok: true, result: [okMessage.result, okMessage.result] }));
+
+      const messages = await createClient().sendMediaGroup(files, { caption: 'Bug report' });
+
+      expect(messages).toHaveLength(2);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(getSentMedia(0).map((item) => item.type)).toEqual(['photo', 'photo']);
+      expect(getSentMedia(1)).toEqual([
+        { type: 'document', media: 'attach://file0', caption: 'Bug report' },
+        { type: 'document', media: 'attach://file1' },
+      ]);
+    });
+
+    it('should not resend the album for other errors', async () => {
+      fetchMock.mockResolvedValue(jsonResponse({
+        ok: false,
+        error_code: 400,
+        description: 'Bad Request: chat not found',
+      }, 400));
+
+      await expect(createClient().sendMediaGroup(files)).rejects.toThrow('chat not found');
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Retries', () => {
+    it('should retry network errors', async () => {
+      fetchMock
+        .mockRejectedValueOnce(new TypeError('fetch failed'))
+        .mockResolvedValueOnce(jsonResponse(okMessage));
+
+      const message = await createClient().sendMessage('Test');
+
+      expect(message.message_id).toBe(1);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should retry 5xx errors', async () => {
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse({ ok: false, error_code: 502, description: 'Bad Gateway' }, 502))
+        .mockResolvedValueOnce(jsonResponse(okMessage));
+
+      await createClient().sendMessage('Test');
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should retry non-JSON responses', async () => {
+      fetchMock
+        .mockResolvedValueOnce(new Response('<html>Bad Gateway</html>', { status: 502 }))
+        .mockResolvedValueOnce(jsonResponse(okMessage));
+
+      await createClient().sendMessage('Test');
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry other 4xx errors', async () => {
+      fetchMock.mockImplementation(async () =>
+        jsonResponse({ ok: false, error_code: 400, description: 'Bad Request: chat not found' }, 400)
+      );
+
+      await expect(createClient().sendMessage('Test')).rejects.toThrow('Bad Request: chat not found');
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should give up after the configured number of retries', async () => {
+      fetchMock.mockRejectedValue(new TypeError('fetch failed'));
+
+      const client = new TelegramClient({
+        botToken: 'token',
+        chatId: '123',
+        retry: { retries: 4, minDelayMs: 0, jitter: 0 },
+      });
+
+      await expect(client.sendMessage('Test')).rejects.toThrow('fetch failed');
+      expect(fetchMock).toHaveBeenCalledTimes(5);
+    });
+
+    it('should redact the bot token from network errors', async () => {
+      const botToken = '123456789:AAEhBOweik6ad9r_QXMENQjcrGbqCr4K-ra';
+      fetchMock.mockRejectedValue(new TypeError(`request to https://api.telegram.org/bot${botToken}/sendMessage failed`));
+
+      const client = new TelegramClient({ botToken: 'secret-token', chatId: '123', retry: { retries: 0 } });
+      fetchMock.mockRejectedValueOnce(new TypeError('request to https://api.telegram.org/botsecret-token/sendMessage failed'));
+
+      await expect(client.sendMessage('Test')).rejects.toThrow(
+        'request to https://api.telegram.org/bot[REDACTED]/sendMessage failed'
+      );
+      await expect(client.sendMessage('Test')).rejects.toThrow(
+        'request to https://api.telegram.org/bot[REDACTED]/sendMessage failed'
+      );
+    });
+
+    it('should honor retry_after on 429 errors', async () => {
+      jest.useFakeTimers();
+
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse({
+          ok: false,
+          error_code: 429,
+          description: 'Too Many Requests: retry after 5',
+          parameters: { retry_after: 5 },
+        }, 429))
+        .mockResolvedValueOnce(jsonResponse(okMessage));
+
+      const promise = createClient().sendMessage('Test');
+
+      await jest.advanceTimersByTimeAsync(4900);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      await jest.advanceTimersByTimeAsync(100);
+      await promise;
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+
+      jest.useRealTimers();
+    });
+
+    it('should not wait for retry_after longer than maxRetryAfterMs', async () => {
+      fetchMock.mockImplementation(async () => jsonResponse({
+        ok: false,
+        error_code: 429,
+        description: 'Too Many Requests: retry after 300',
+        parameters: { retry_after: 300 },
+      }, 429));
+
+      const client = new TelegramClient({
+        botToken: 'token',
+        chatId: '123',
+        retry: { maxRetryAfterMs: 10000 },
+      });
+
+      const error = await client.sendMessage('Test').catch((e) => e);
+
+      expect(error).toBeInstanceOf(TelegramError);
+      expect(error.code).toBe(429);
+      expect(error.parameters).toEqual({ retry_after: 300 });
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Chat migration', () => {
+    const migrationError = {
+      ok: false,
+      error_code: 400,
+      description: 'Bad Request: group chat was upgraded to a supergroup chat',
+      parameters: { migrate_to_chat_id: -1001234567890 },
+    };
+
+    it('should retry against the migrated chat id', async () => {
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse(migrationError, 400))
+        .mockResolvedValueOnce(jsonResponse(okMessage));
+
+      await createClient().sendMessage('Test');
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(getSentBody(0).chat_id).toBe('123');
+      expect(getSentBody(1).chat_id).toBe('-1001234567890');
+    });
+
+    it('should keep using the migrated chat id for later requests', async () => {
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse(migrationError, 400))
+        .mockImplementation(async () => jsonResponse(okMessage));
+
+      const client = createClient();
+      await client.sendMessage('First');
+      await client.sendMessage('Second');
+
+      expect(getSentBody(2).chat_id).toBe('-1001234567890');
+    });
+
+    it('should update form data requests', async () => {
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse(migrationError, 400))
+        .mockResolvedValueOnce(jsonResponse(okMessage));
+
+      await createClient().sendDocument({ data: Buffer.from('test'), filename: 'test.txt' });
+
+      const formData = fetchMock.mock.calls[1][1]!.body as FormData;
+      expect(formData.get('chat_id')).toBe('-1001234567890');
+    });
+
+    it('should only follow one migration per request', async () => {
+      fetchMock.mockImplementation(async () => jsonResponse(migrationError, 400));
+
+      await expect(createClient().sendMessage('Test')).rejects.toThrow('upgraded to a supergroup');
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * @jest-environment jsdom
+ */
+import { describe, it, expect, jest } from '@jest/globals';
+import { startTransition } from 'react';
+import { renderHook, act } from '@testing-library/react';
+import { useTelegramAction } from '../src/hooks/useTelegramAction';
+import { NotifyError } from '../src/types';
+import type { TelegramActionState, TelegramNotifyAction } from '../src/types';
+
+function createAction(result: TelegramActionState | Error) {
+  return jest.fn<TelegramNotifyAction>(async () => {
+    if (result instanceof Error) throw result;
+    return result;
+  });
+}
+
+async function submit(formAction: (formData: FormData) => void, message: string = 'Hello') {
+  const formData = new FormData();
+  formData.append('message', message);
+
+  // Forms dispatch actions inside a transition
+  await act(async () => {
+    startTransition(() => formAction(formData));
+  });
+}
+
+describe('useTelegramAction', () => {
+  it('should report success and call onSuccess', async () => {
+    const action = createAction({ success: true, messageId: 1, messageIds: [1], status: 200 });
+    const onSuccess = jest.fn();
+    const { result } = renderHook(() => useTelegramAction(action, { onSuccess }));
+
+    expect(result.current).toMatchObject({ state: null, loading: false, error: null, success: false });
+
+    await submit(result.current.formAction);
+
+    expect(action).toHaveBeenCalledWith(null, expect.any(FormData));
+    expect(result.current.success).toBe(true);
+    expect(result.current.error).toBeNull();
+    expect(result.current.state).toEqual({ success: true, messageId: 1, messageIds: [1], status: 200 });
+    expect(onSuccess).toHaveBeenCalledTimes(1);
+  });
+
+  it('should turn a failed result into a NotifyError and call onError', async () => {
+    const action = createAction({
+      success: false,
+      error: 'Rate limit exceeded',
+      code: 'RATE_LIMITED',
+      retryAfter: 30,
+      status: 429,
+    });
+    const onError = jest.fn<(error: NotifyError) => void>();
+    const { result } = renderHook(() => useTelegramAction(action, { onError }));
+
+    await submit(result.current.formAction);
+
+    const { error } = result.current;
+    expect(error).toBeInstanceOf(NotifyError);
+    expect(error).toMatchObject({ message: 'Rate limit exceeded', code: 'RATE_LIMITED', status: 429, retryAfter: 30 });
+    expect(result.current.success).toBe(false);
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError).toHaveBeenCalledWith(error);
+  });
+
+  it('should report an action that throws as a network error', async () => {
+    const action = createAction(new Error('Failed to fetch'));
+    const { result } = renderHook(() => useTelegramAction(action));
+
+    await submit(result.current.formAction);
+
+    expect(result.current.error).toMatchObject({ message: 'Failed to fetch', code: 'NETWORK_ERROR', status: 0 });
+  });
+
+  it('should reset the state until the next submission', async () => {
+    const action = createAction({ success: true, messageId: 1, messageIds: [1], status: 200 });
+    const onSuccess = jest.fn();
+    const { result } = renderHook(() => useTelegramAction(action, { onSuccess }));
+
+    await submit(result.current.formAction);
+    act(() => result.current.reset());
+
+    expect(result.current).toMatchObject({ state: null, error: null, success: false });
+
+    await submit(result.current.formAction, 'Again');
+
+    expect(result.current.success).toBe(true);
+    expect(onSuccess).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect } from '@jest/globals';
+import { validateNotifyRequest, validateWithSchema, ValidationError } from '../src/lib/validation';
+
+function fieldErrorsOf(fn: () => unknown): Record<string, string> {
+  try {
+    fn();
+  } catch (error) {
+    expect(error).toBeInstanceOf(ValidationError);
+    return (error as ValidationError).fieldErrors;
+  }
+  throw new Error('Expected a ValidationError');
+}
+
+describe('Payload Validation', () => {
+  describe('validateNotifyRequest()', () => {
+    it('should accept a valid request and unknown fields', () => {
+      const body = {
+        message: 'Hi',
+        parseMode: 'MarkdownV2',
+        chatId: '-100123',
+        disableNotification: true,
+        threadId: 42,
+        replyMarkup: { inline_keyboard: [[{ text: 'Open', url: 'https://example.com' }]] },
+        files: [{ name: 'a.txt', data: 'aGk=', type: 'text/plain' }],
+        email: 'me@example.com',
+      };
+
+      expect(validateNotifyRequest(body)).toBe(body);
+    });
+
+    it('should treat null optional fields as omitted', () => {
+      expect(() => validateNotifyRequest({ message: 'Hi', chatId: null, threadId: null })).not.toThrow();
+    });
+
+    it('should reject bodies that are not objects', () => {
+      expect(fieldErrorsOf(() => validateNotifyRequest([]))).toEqual({
+        body: 'Request body must be a JSON object',
+      });
+    });
+
+    it('should report every invalid field', () => {
+      expect(fieldErrorsOf(() => validateNotifyRequest({
+        message: 5,
+        parseMode: 'html',
+        chatId: true,
+        destination: 1,
+        disableNotification: 'yes',
+        threadId: 1.5,
+        replyMarkup: { inline_keyboard: [[{ url: 'https://example.com' }]] },
+        files: [{ data: 'aGk=' }, 'file'],
+      }))).toEqual({
+        message: 'message must be a string',
+        parseMode: 'parseMode must be one of HTML, Markdown, MarkdownV2',
+        chatId: 'chatId must be a string or an integer',
+        destination: 'destination must be a string',
+        disableNotification: 'disableNotification must be a boolean',
+        threadId: 'threadId must be a positive integer',
+        replyMarkup: 'Every replyMarkup button needs a text',
+        'files.0.name': 'File name is required',
+        'files.1': 'Each file must be an object with name, data and type',
+      });
+    });
+
+    it('should reject base64 that atob cannot decode', () => {
+      const fileErrors = (data: string) => fieldErrorsOf(() => validateNotifyRequest({
+        message: 'Hi',
+        files: [{ name: 'a.txt', data, type: 'text/plain' }],
+      }));
+
+      for (const data of ['abcde', 'ab=', 'a===', 'ab=c']) {
+        expect(fileErrors(data)).toEqual({ 'files.0.data': 'File data must be a base64-encoded string' });
+      }
+      for (const data of ['', 'ab', 'abc', 'ab==', 'abc=', 'abcd']) {
+        expect(() => validateNotifyRequest({ message: 'Hi', files: [{ name: 'a.txt', data, type: 'text/plain' }] })).not.toThrow();
+      }
+    });
+
+    it('should use the first field error as the message', () => {
+      try {
+        validateNotifyRequest({ message: '' });
+      } catch (error) {
+        expect((error as ValidationError).message).toBe('Message is required');
+        expect((error as ValidationError).status).toBe(400);
+      }
+      expect.assertions(2);
+    });
+  });
+
+  describe('validateWithSchema()', () => {
+    it('should map safeParse issues to field errors', async () => {
+      const schema = {
+        safeParse: () => ({
+          success: false,
+          error: { issues: [{ path: ['contact', 'email'], message: 'Invalid email' }, { path: [], message: 'Bad body' }] },
+        }),
+      };
+
+      await expect(validateWithSchema(schema, {})).rejects.toMatchObject({
+        fieldErrors: { 'contact.email': 'Invalid email', body: 'Bad body' },
+      });
+    });
+
+    it('should support schemas with a throwing parse', async () => {
+      const schema = {
+        parse: () => {
+          throw new Error('Nope');
+        },
+      };
+
+      await expect(validateWithSchema(schema, {})).rejects.toMatchObject({
+        message: 'Nope',
+        fieldErrors: { body: 'Nope' },
+      });
+      await expect(validateWithSchema({ parse: (data: unknown) => data }, {})).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,270 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { NextRequest } from 'next/server';
+import { createTelegramWebhookRoute } from '../src/route/webhook';
+import type { TelegramClient } from '../src/lib/telegram';
+import type { TelegramUpdate, TelegramMessage, TelegramUser } from '../src/types';
+
+const SECRET = 'webhook-secret';
+
+function createWebhookRequest(update: any, secret: string | null = SECRET): NextRequest {
+  const headers = new Headers({ 'content-type': 'application/json' });
+  if (secret !== null) {
+    headers.set('x-telegram-bot-api-secret-token', secret);
+  }
+
+  return new NextRequest('http://localhost:3000/api/telegram-webhook', {
+    method: 'POST',
+    headers,
+    body: typeof update === 'string' ? update : JSON.stringify(update),
+  });
+}
+
+function createMessage(text: string, extra: Partial<TelegramMessage> = {}): TelegramMessage {
+  return {
+    message_id: 10,
+    date: 0,
+    chat: { id: 12345678, type: 'private' },
+    from: { id: 1, is_bot: false, first_name: 'Alice' },
+    text,
+    ...extra,
+  };
+}
+
+describe('createTelegramWebhookRoute', () => {
+  const sendMessage = jest.fn<(...args: any[]) => Promise<TelegramMessage>>();
+  const answerCallbackQuery = jest.fn<(...args: any[]) => Promise<boolean>>();
+  const getMe = jest.fn<() => Promise<TelegramUser>>();
+  const client = { sendMessage, answerCallbackQuery, getMe } as unknown as TelegramClient;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    sendMessage.mockResolvedValue(createMessage('sent'));
+    answerCallbackQuery.mockResolvedValue(true);
+    getMe.mockResolvedValue({ id: 99, is_bot: true, first_name: 'Notify', username: 'MyNotifyBot' });
+  });
+
+  function createRoute(options: Parameters<typeof createTelegramWebhookRoute>[0] = {}) {
+    return createTelegramWebhookRoute({ secretToken: SECRET, client, ...options });
+  }
+
+  describe('Secret token validation', () => {
+    it('should reject requests without the secret token header', async () => {
+      const response = await createRoute().POST(createWebhookRequest({ update_id: 1 }, null));
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should reject requests with a wrong secret token', async () => {
+      const response = await createRoute().POST(createWebhookRequest({ update_id: 1 }, 'wrong'));
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should accept requests with the correct secret token', async () => {
+      const response = await createRoute().POST(createWebhookRequest({ update_id: 1 }));
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ ok: true });
+    });
+
+    it('should use TELEGRAM_WEBHOOK_SECRET by default', async () => {
+      process.env.TELEGRAM_WEBHOOK_SECRET = 'env-secret';
+
+      const route = createTelegramWebhookRoute({ client });
+      const rejected = await route.POST(createWebhookRequest({ update_id: 1 }));
+      const accepted = await route.POST(createWebhookRequest({ update_id: 1 }, 'env-secret'));
+
+      expect(rejected.status).toBe(401);
+      expect(accepted.status).toBe(200);
+
+      delete process.env.TELEGRAM_WEBHOOK_SECRET;
+    });
+
+    it('should fail closed when no secret is configured', async () => {
+      const route = createTelegramWebhookRoute({ client });
+      const response = await route.POST(createWebhookRequest({ update_id: 1 }));
+
+      expect(response.status).toBe(500);
+    });
+
+    it('should return 400 for invalid updates', async () => {
+      const response = await createRoute().POST(createWebhookRequest('not json'));
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('Commands', () => {
+    it('should dispatch commands with arguments', async () => {
+      const handler = jest.fn<(ctx: any) => void>();
+      const route = createRoute().onCommand('/status', handler);
+
+      await route.POST(createWebhookRequest({ update_id: 1, message: createMessage('/status api  db') }));
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler.mock.calls[0][0].command).toBe('/status');
+      expect(handler.mock.calls[0][0].args).toEqual(['api', 'db']);
+    });
+
+    it('should strip the bot username from commands', async () => {
+      const handler = jest.fn<(ctx: any) => void>();
+      const route = createRoute().onCommand('status', handler);
+
+      await route.POST(createWebhookRequest({ update_id: 1, message: createMessage('/status@MyNotifyBot') }));
+      await route.POST(createWebhookRequest({ update_id: 2, message: createMessage('/status@mynotifybot') }));
+
+      expect(handler).toHaveBeenCalledTimes(2);
+      expect(getMe).toHaveBeenCalledTimes(1);
+    });
+
+    it('should ignore commands addressed to another bot', async () => {
+      const handler = jest.fn<(ctx: any) => void>();
+      const onMessage = jest.fn<(ctx: any) => void>();
+      const route = createRoute({ botUsername: 'MyNotifyBot' }).onCommand('status', handler).onMessage(onMessage);
+
+      await route.POST(createWebhookRequest({ update_id: 1, message: createMessage('/status@OtherBot') }));
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(onMessage).not.toHaveBeenCalled();
+      expect(getMe).not.toHaveBeenCalled();
+    });
+
+    it('should reply in the same chat and topic', async () => {
+      const route = createRoute().onCommand('/status', async ({ reply }) => {
+        await reply('All good', { parseMode: 'HTML' });
+      });
+
+      await route.POST(createWebhookRequest({
+        update_id: 1,
+        message: createMessage('/status', { message_thread_id: 7 }),
+      }));
+
+      expect(sendMessage).toHaveBeenCalledWith('All good', {
+        chatId: '12345678',
+        threadId: 7,
+        parseMode: 'HTML',
+      });
+    });
+
+    it('should pass unknown commands to message handlers', async () => {
+      const onMessage = jest.fn<(ctx: any) => void>();
+      const route = createRoute().onMessage(onMessage);
+
+      await route.POST(createWebhookRequest({ update_id: 1, message: createMessage('/unknown') }));
+
+      expect(onMessage).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Messages and replies', () => {
+    it('should dispatch plain messages', async () => {
+      const onMessage = jest.fn<(ctx: any) => void>();
+      const route = createRoute().onMessage(onMessage);
+
+      await route.POST(createWebhookRequest({ update_id: 1, message: createMessage('hello') }));
+
+      expect(onMessage).toHaveBeenCalledTimes(1);
+      expect(onMessage.mock.calls[0][0].message.text).toBe('hello');
+    });
+
+    it('should dispatch replies to bot messages to onReply', async () => {
+      const onMessage = jest.fn<(ctx: any) => void>();
+      const onReply = jest.fn<(ctx: any) => void>();
+      const route = createRoute().onMessage(onMessage).onReply(onReply);
+
+      const notification = createMessage('New contact form submission', {
+        message_id: 5,
+        from: { id: 99, is_bot: true, first_name: 'NotifyBot' },
+      });
+
+      await route.POST(createWebhookRequest({
+        update_id: 1,
+        message: createMessage('Handled by Bob', { reply_to_message: notification }),
+      }));
+
+      expect(onReply).toHaveBeenCalledTimes(1);
+      expect(onReply.mock.calls[0][0].replyTo.message_id).toBe(5);
+      expect(onMessage).not.toHaveBeenCalled();
+    });
+
+    it('should ignore updates from chats that are not allowed', async () => {
+      const onMessage = jest.fn<(ctx: any) => void>();
+      const route = createRoute({ allowedChatIds: ['-100999'] }).onMessage(onMessage);
+
+      const response = await route.POST(createWebhookRequest({ update_id: 1, message: createMessage('hello') }));
+
+      expect(response.status).toBe(200);
+      expect(onMessage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Callback queries', () => {
+    const callbackUpdate = (data: string): TelegramUpdate => ({
+      update_id: 1,
+      callback_query: {
+        id: 'query-1',
+        from: { id: 1, is_bot: false, first_name: 'Alice' },
+        message: createMessage('New order'),
+        chat_instance: 'instance',
+        data,
+      },
+    });
+
+    it('should dispatch to the first matching handler', async () => {
+      const handled = jest.fn<(ctx: any) => void>();
+      const fallback = jest.fn<(ctx: any) => void>();
+      const route = createRoute()
+        .onCallbackQuery('handled:', handled)
+        .onCallbackQuery(fallback);
+
+      await route.POST(createWebhookRequest(callbackUpdate('handled:42')));
+
+      expect(handled).toHaveBeenCalledTimes(1);
+      expect(handled.mock.calls[0][0].data).toBe('handled:42');
+      expect(fallback).not.toHaveBeenCalled();
+    });
+
+    it('should match callback data with a RegExp', async () => {
+      const handler = jest.fn<(ctx: any) => void>();
+      const route = createRoute().onCallbackQuery(/^order:\d+$/, handler);
+
+      await route.POST(createWebhookRequest(callbackUpdate('order:7')));
+
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should answer the query once', async () => {
+      const route = createRoute().onCallbackQuery(async ({ answer }) => {
+        await answer({ text: 'Done' });
+      });
+
+      await route.POST(createWebhookRequest(callbackUpdate('x')));
+
+      expect(answerCallbackQuery).toHaveBeenCalledTimes(1);
+      expect(answerCallbackQuery).toHaveBeenCalledWith('query-1', { text: 'Done' });
+    });
+
+    it('should answer the query automatically', async () => {
+      const route = createRoute().onCallbackQuery(() => undefined);
+
+      await route.POST(createWebhookRequest(callbackUpdate('x')));
+
+      expect(answerCallbackQuery).toHaveBeenCalledWith('query-1', {});
+    });
+  });
+
+  describe('Error handling', () => {
+    it('should acknowledge the update and call onError when a handler throws', async () => {
+      const error = new Error('Handler failed');
+      const onError = jest.fn<(err: Error, update: TelegramUpdate) => void>();
+      const route = createRoute({ onError }).onMessage(() => {
+        throw error;
+      });
+
+      const response = await route.POST(createWebhookRequest({ update_id: 1, message: createMessage('hello') }));
+
+      expect(response.status).toBe(200);
+      expect(onError).toHaveBeenCalledWith(error, expect.objectContaining({ update_id: 1 }));
+    });
+  });
+});
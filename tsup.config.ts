@@ -5,10 +5,12 @@ export default defineConfig({
     index: 'src/index.ts',
     server: 'src/server/index.ts',
     route: 'src/route/index.ts',
+    action: 'src/action/index.ts',
   },
   format: ['cjs', 'esm'],
   dts: true,
-  splitting: false,
+  // Entries share chunks, so classes like NotifyError are the same across entry points
+  splitting: true,
   sourcemap: true,
   clean: true,
   treeshake: true,